@@ -0,0 +1,207 @@
+import { timingSafeEqual } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import type { BotCore, ConfigChanges } from '../core/BotCore';
+import { ConfigError } from '../errors';
+import { TradingConfig } from '../types';
+import { maskUrl } from '../utils/security';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_TRADE_LIMIT = 100;
+
+/**
+ * Options of the control API
+ */
+export interface ControlApiOptions {
+  // Bearer token every request must present
+  token: string;
+  port?: number;
+  host?: string;
+}
+
+type Handler = (req: Request) => Promise<unknown> | unknown;
+
+/**
+ * Hide the RPC API keys of a config sent to clients
+ */
+const redactConfig = (config: TradingConfig): TradingConfig => ({ ...config, rpc: config.rpc.map(maskUrl) });
+
+/**
+ * ControlApi is the REST API used to operate the bot without a terminal
+ * Every route needs the bearer token from the options. Start and stop, the
+ * trading switches and the kill switch apply to every instance, or to the one
+ * given as `instance` in the query or the body.
+ */
+export class ControlApi {
+  private bot: BotCore;
+  private options: ControlApiOptions;
+  private server: Server | null = null;
+
+  constructor(bot: BotCore, options: ControlApiOptions) {
+    this.bot = bot;
+    this.options = options;
+  }
+
+  /**
+   * Start listening
+   */
+  async start(): Promise<void> {
+    const app = this.createApp();
+    const { port = DEFAULT_PORT, host } = this.options;
+
+    await new Promise<void>((resolve, reject) => {
+      const server = host ? app.listen(port, host) : app.listen(port);
+      server.once('listening', () => resolve());
+      server.once('error', reject);
+      this.server = server;
+    });
+    console.log(`Control API listening on ${host ?? '*'}:${port}`);
+  }
+
+  /**
+   * Stop listening, open requests are allowed to finish
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private createApp(): express.Express {
+    const app = express();
+    // Unauthenticated requests are refused before their body is parsed
+    app.use((req, res, next) => this.authenticate(req, res, next));
+    app.use(express.json());
+
+    app.get('/status', this.handle(() => ({
+      running: this.bot.isRunning(),
+      instances: this.bot.getInstances().map((instance) => instance.getStatus()),
+    })));
+
+    app.get('/trades', this.handle((req) => {
+      const limit = Number(req.query.limit ?? DEFAULT_TRADE_LIMIT);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new ConfigError('limit must be a positive integer');
+      }
+      return this.bot.getTradeHistory(limit);
+    }));
+
+    app.post('/start', this.handle(async (req) => {
+      const id = this.getInstanceId(req);
+      await (id ? this.bot.startInstance(id) : this.bot.start());
+      return this.getRunning();
+    }));
+
+    app.post('/stop', this.handle(async (req) => {
+      const id = this.getInstanceId(req);
+      await (id ? this.bot.stopInstance(id) : this.bot.stop());
+      return this.getRunning();
+    }));
+
+    app.post('/trading/:action(enable|disable)', this.handle((req) => {
+      const enabled = req.params.action === 'enable';
+      this.bot.setTradingEnabled(enabled, this.getInstanceId(req));
+      return this.bot.getInstances().map(({ id, cache }) => ({
+        id,
+        tradingEnabled: cache.tradingEnabled,
+        tradingDisabledReason: cache.tradingDisabledReason,
+      }));
+    }));
+
+    app.post('/risk/:action(kill|resume)', this.handle((req) => {
+      this.bot.setKillSwitch(req.params.action === 'kill', this.getInstanceId(req));
+      return this.bot.getInstances().map((instance) => ({ id: instance.id, risk: instance.risk.getStatus() }));
+    }));
+
+    app.get('/config', this.handle(() => redactConfig(this.bot.getConfig())));
+
+    app.patch('/config', this.handle((req) => {
+      if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        throw new ConfigError('The body must be a JSON object of config settings');
+      }
+      return { config: redactConfig(this.bot.updateConfig(req.body as ConfigChanges)) };
+    }));
+
+    app.get('/plugins', this.handle(() => {
+      const pluginLoader = this.bot.getPluginLoader();
+      const stats = pluginLoader.getPluginStats();
+
+      return pluginLoader.getAllPlugins().map((plugin) => ({
+        id: plugin.id,
+        name: plugin.name,
+        description: plugin.description,
+        version: plugin.version,
+        enabled: plugin.enabled,
+        priority: plugin.priority,
+        dependencies: plugin.dependencies ?? [],
+        config: plugin.config ?? {},
+        stats: stats[plugin.id],
+      }));
+    }));
+
+    app.post('/plugins/:id/:action(enable|disable)', this.handle(async (req) => {
+      const enabled = req.params.action === 'enable';
+      await this.bot.getPluginLoader().setPluginEnabled(req.params.id, enabled);
+      return { id: req.params.id, enabled };
+    }));
+
+    app.patch('/plugins/:id/config', this.handle(async (req) => {
+      const config = await this.bot.getPluginLoader().updatePluginConfig(req.params.id, req.body ?? {});
+      return { id: req.params.id, config };
+    }));
+
+    app.use((_req: Request, res: Response) => {
+      res.status(404).json({ error: 'Not found' });
+    });
+
+    return app;
+  }
+
+  /**
+   * Reject requests without the bearer token
+   */
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers.authorization ?? '';
+    const token = Buffer.from(header.startsWith('Bearer ') ? header.slice(7) : '');
+    const expected = Buffer.from(this.options.token);
+
+    if (token.length !== expected.length || !timingSafeEqual(token, expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  }
+
+  /**
+   * Send the result of a handler as JSON, config errors are the caller's fault
+   */
+  private handle(handler: Handler) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        res.json((await handler(req)) ?? { ok: true });
+      } catch (err) {
+        if (err instanceof ConfigError) {
+          res.status(/not found/i.test(err.message) ? 404 : 400).json({ error: err.message });
+          return;
+        }
+
+        console.error(`Control API ${req.method} ${req.path} failed:`, err);
+        res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+      }
+    };
+  }
+
+  private getInstanceId(req: Request): string | undefined {
+    const id = req.body?.instance ?? req.query.instance;
+    return typeof id === 'string' && id !== '' ? id : undefined;
+  }
+
+  private getRunning(): { id: string; running: boolean }[] {
+    return this.bot.getInstances().map((instance) => ({ id: instance.id, running: instance.isRunning() }));
+  }
+}
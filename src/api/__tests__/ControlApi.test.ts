@@ -0,0 +1,146 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import type { BotCore } from '../../core/BotCore';
+import { ConfigError } from '../../errors';
+import { ControlApi } from '../ControlApi';
+
+const TOKEN = 'secret-token';
+const RPC_URL = 'https://mainnet.helius-rpc.com/?api-key=0123456789';
+
+describe('ControlApi', () => {
+  let bot: Record<string, jest.Mock>;
+  let api: ControlApi;
+  let baseUrl: string;
+
+  const request = (method: string, route: string, body?: unknown, token = TOKEN) =>
+    fetch(`${baseUrl}${route}`, {
+      method,
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const instances = [
+      { id: 'sol', isRunning: () => true, getStatus: () => ({ id: 'sol' }), cache: { tradingEnabled: true } },
+      { id: 'bonk', isRunning: () => false, getStatus: () => ({ id: 'bonk' }), cache: { tradingEnabled: false } },
+    ].map((instance) => ({ ...instance, risk: { getStatus: () => ({ killed: !instance.cache.tradingEnabled }) } }));
+    const config = { rpc: [RPC_URL], minPercProfit: 1, slippage: 50 };
+    bot = {
+      isRunning: jest.fn(() => true),
+      getInstances: jest.fn(() => instances),
+      getTradeHistory: jest.fn(async (limit: number) => Array.from({ length: limit }, (_, index) => ({ index }))),
+      start: jest.fn(async () => undefined),
+      stop: jest.fn(async () => undefined),
+      startInstance: jest.fn(async (id: string) => {
+        if (id === 'missing') {
+          throw new ConfigError(`Instance not found: ${id}`);
+        }
+      }),
+      stopInstance: jest.fn(),
+      setTradingEnabled: jest.fn(),
+      setKillSwitch: jest.fn(),
+      getConfig: jest.fn(() => config),
+      updateConfig: jest.fn((changes: Record<string, unknown>) => ({ ...config, ...changes })),
+    };
+
+    api = new ControlApi(bot as unknown as BotCore, { token: TOKEN, port: 0, host: '127.0.0.1' });
+    await api.start();
+    const server = (api as unknown as { server: Server }).server;
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await api.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('refuses requests without the bearer token', async () => {
+    const response = await request('GET', '/status', undefined, 'wrong-token');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Unauthorized' });
+    expect(bot.isRunning).not.toHaveBeenCalled();
+  });
+
+  it('reports the status of every instance', async () => {
+    const response = await request('GET', '/status');
+
+    expect(await response.json()).toEqual({ running: true, instances: [{ id: 'sol' }, { id: 'bonk' }] });
+  });
+
+  it('lists recent trades and validates the limit', async () => {
+    expect(await (await request('GET', '/trades?limit=2')).json()).toEqual([{ index: 0 }, { index: 1 }]);
+
+    const response = await request('GET', '/trades?limit=-1');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'limit must be a positive integer' });
+  });
+
+  it('starts and stops the bot or a single instance', async () => {
+    await request('POST', '/start');
+    await request('POST', '/stop', { instance: 'sol' });
+
+    expect(bot.start).toHaveBeenCalled();
+    expect(bot.stopInstance).toHaveBeenCalledWith('sol');
+
+    const response = await request('POST', '/start?instance=missing');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Instance not found: missing' });
+  });
+
+  it('switches trading', async () => {
+    const response = await request('POST', '/trading/disable', { instance: 'bonk' });
+
+    expect(bot.setTradingEnabled).toHaveBeenCalledWith(false, 'bonk');
+    expect(await response.json()).toEqual([
+      { id: 'sol', tradingEnabled: true },
+      { id: 'bonk', tradingEnabled: false },
+    ]);
+  });
+
+  it('engages and lifts the kill switch', async () => {
+    const response = await request('POST', '/risk/kill');
+    await request('POST', '/risk/resume?instance=bonk');
+
+    expect(bot.setKillSwitch.mock.calls).toEqual([
+      [true, undefined],
+      [false, 'bonk'],
+    ]);
+    expect(await response.json()).toEqual([
+      { id: 'sol', risk: { killed: false } },
+      { id: 'bonk', risk: { killed: true } },
+    ]);
+  });
+
+  it('updates the runtime settings', async () => {
+    const response = await request('PATCH', '/config', { slippage: 30 });
+
+    expect(bot.updateConfig).toHaveBeenCalledWith({ slippage: 30 });
+    expect(await response.json()).toEqual({
+      config: { rpc: ['https://mainnet.helius-rpc.com'], minPercProfit: 1, slippage: 30 },
+    });
+
+    const refused = await request('PATCH', '/config', [1]);
+    expect(refused.status).toBe(400);
+  });
+
+  it('hides the API keys of the RPC endpoints', async () => {
+    const response = await request('GET', '/config');
+
+    expect(await response.json()).toEqual({ rpc: ['https://mainnet.helius-rpc.com'], minPercProfit: 1, slippage: 50 });
+  });
+
+  it('answers unknown routes with 404 and unexpected errors with 500', async () => {
+    expect((await request('GET', '/missing')).status).toBe(404);
+
+    bot.getConfig.mockImplementation(() => {
+      throw new Error('disk full');
+    });
+    const response = await request('GET', '/config');
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'disk full' });
+  });
+});
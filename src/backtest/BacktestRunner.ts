@@ -0,0 +1,190 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../core/cache';
+import { EventEmitter } from '../core/EventEmitter';
+import { PaperSwapExecutor, setupVirtualBalances } from '../core/PaperSwapExecutor';
+import { NoRoutesError } from '../errors';
+import { ReplayQuoteProvider } from '../quotes/ReplayQuoteProvider';
+import { BaseStrategy } from '../strategies/BaseStrategy';
+import { CircuitBreaker } from '../trading/CircuitBreaker';
+import { CircuitBreakerTradeExecutor } from '../trading/CircuitBreakerTradeExecutor';
+import { RiskManager } from '../trading/RiskManager';
+import { RiskTradeExecutor } from '../trading/RiskTradeExecutor';
+import { SlippageController } from '../trading/SlippageController';
+import { BotCache, BotEvents, QuoteSnapshot, StrategyContext, TradingConfig } from '../types';
+import { toDecimal } from '../utils';
+import { SimulatedClock } from './SimulatedClock';
+
+/**
+ * Options for a backtest run
+ */
+export interface BacktestOptions {
+  // Simulated time between iterations (ms), defaults to the config's minInterval
+  interval?: number;
+  start?: number;
+  end?: number;
+  // Source of randomness for simulated slippage
+  random?: () => number;
+}
+
+/**
+ * Summary of a backtest run, values are denominated in tokenA
+ */
+export interface BacktestResult {
+  strategy: string;
+  startTime: number;
+  endTime: number;
+  iterations: number;
+  trades: number;
+  wins: number;
+  winRate: number;
+  initialValue: number;
+  finalValue: number;
+  pnl: number;
+  pnlPercent: number;
+  maxDrawdownPercent: number;
+}
+
+/**
+ * BacktestRunner replays recorded quotes through a strategy on a simulated clock
+ */
+export class BacktestRunner {
+  private strategy: BaseStrategy;
+  private config: TradingConfig;
+  private snapshots: QuoteSnapshot[];
+  private options: BacktestOptions;
+
+  constructor(
+    strategy: BaseStrategy,
+    config: TradingConfig,
+    snapshots: QuoteSnapshot[],
+    options: BacktestOptions = {}
+  ) {
+    this.strategy = strategy;
+    this.config = config;
+    this.snapshots = snapshots;
+    this.options = options;
+  }
+
+  /**
+   * Run the backtest
+   */
+  async run(): Promise<BacktestResult> {
+    const clock = new SimulatedClock();
+    const quoteProvider = new ReplayQuoteProvider(this.snapshots, clock);
+
+    const range = quoteProvider.getTimeRange();
+    if (!range) {
+      throw new Error('No quote snapshots to replay');
+    }
+
+    const startTime = this.options.start ?? range.start;
+    const endTime = this.options.end ?? range.end;
+    const interval = this.options.interval || this.config.minInterval || 1000;
+
+    const cache = createCache(this.config);
+    cache.tradingEnabled = true;
+
+    clock.set(startTime);
+    await setupVirtualBalances(cache, quoteProvider);
+
+    const events = new EventEmitter<BotEvents>();
+    const context: StrategyContext = {
+      jupiter: quoteProvider,
+      tokenA: this.config.tokens.tokenA,
+      tokenB: this.config.tokens.tokenB,
+      config: this.config,
+      cache,
+      wallet: null,
+      executor: new RiskTradeExecutor(
+        new CircuitBreakerTradeExecutor(
+          new PaperSwapExecutor(cache, events, null, this.options.random),
+          new CircuitBreaker(this.config, cache, events, clock)
+        ),
+        new RiskManager(this.config, cache, events, clock)
+      ),
+      slippage: new SlippageController(this.config),
+      events,
+      clock,
+    };
+
+    await this.strategy.initialize();
+
+    const initialValue = await this.getPortfolioValue(cache, quoteProvider, 0);
+    let value = initialValue;
+    let peak = initialValue;
+    let maxDrawdown = 0;
+    let iterations = 0;
+
+    for (let time = startTime; time <= endTime; time += interval) {
+      clock.set(time);
+      try {
+        await this.strategy.execute(context);
+      } catch (err) {
+        // Periods without recorded quotes are skipped
+        if (!(err instanceof NoRoutesError)) {
+          throw err;
+        }
+      }
+      iterations++;
+
+      value = await this.getPortfolioValue(cache, quoteProvider, value);
+      peak = Math.max(peak, value);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+      }
+    }
+
+    await this.strategy.cleanup();
+
+    const trades = cache.tradeHistory.length;
+    const wins = cache.tradeHistory.filter(
+      (trade) => (trade.actualProfit ?? trade.expectedProfit) > 0
+    ).length;
+    const decimals = this.config.tokens.tokenA.decimals;
+
+    return {
+      strategy: this.strategy.name,
+      startTime,
+      endTime,
+      iterations,
+      trades,
+      wins,
+      winRate: trades > 0 ? (wins / trades) * 100 : 0,
+      initialValue: toDecimal(initialValue, decimals),
+      finalValue: toDecimal(value, decimals),
+      pnl: toDecimal(value - initialValue, decimals),
+      pnlPercent: initialValue > 0 ? ((value - initialValue) / initialValue) * 100 : 0,
+      maxDrawdownPercent: maxDrawdown * 100,
+    };
+  }
+
+  /**
+   * Value the virtual balances in raw tokenA units at the current simulated time
+   * Falls back to the previous value when tokenB cannot be priced
+   */
+  private async getPortfolioValue(
+    cache: BotCache,
+    quoteProvider: ReplayQuoteProvider,
+    previousValue: number
+  ): Promise<number> {
+    const { tokenA, tokenB } = this.config.tokens;
+
+    if (cache.currentBalance.tokenB <= 0) {
+      return cache.currentBalance.tokenA;
+    }
+
+    try {
+      const route = await quoteProvider.getQuote({
+        inputMint: new PublicKey(tokenB.address),
+        outputMint: new PublicKey(tokenA.address),
+        amount: JSBI.BigInt(cache.currentBalance.tokenB),
+        slippageBps: 0,
+      });
+
+      return cache.currentBalance.tokenA + Number(route.outAmount.toString());
+    } catch (err) {
+      return previousValue;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Clock } from '../types';
+
+/**
+ * Clock that only moves when told to, used to replay recorded data
+ */
+export class SimulatedClock implements Clock {
+  private time: number;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  /**
+   * Get the current simulated time in milliseconds
+   */
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Set the simulated time
+   */
+  set(time: number): void {
+    this.time = time;
+  }
+
+  /**
+   * Move the simulated time forward
+   */
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
@@ -0,0 +1,112 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { BaseStrategy } from '../../strategies/BaseStrategy';
+import { QuoteSnapshot, StrategyContext, Token, TradingConfig } from '../../types';
+import { BacktestRunner } from '../BacktestRunner';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+// Trades 100 USDC for SOL
+const config = {
+  tokens: { tokenA: USDC, tokenB: SOL },
+  tradeSize: { strategy: 'fixed', value: 100 },
+  minPercProfit: 0.5,
+  slippage: 50,
+} as TradingConfig;
+
+const T0 = 1_700_000_000_000;
+
+// Price of 1 SOL in USDC at a time
+const snapshot = (timestamp: number, price: number): QuoteSnapshot => ({
+  timestamp,
+  inputMint: USDC.address,
+  outputMint: SOL.address,
+  inAmount: String(price * 1e6),
+  outAmount: String(1e9),
+});
+
+/**
+ * Buys tokenB with the whole position on the first iteration and holds it
+ */
+class BuyAndHoldStrategy extends BaseStrategy {
+  executions = 0;
+
+  constructor() {
+    super('buy-and-hold', 'Buy tokenB once and hold it');
+  }
+
+  async execute(context: StrategyContext): Promise<void> {
+    const { jupiter, tokenA, tokenB, cache, executor } = context;
+    this.executions++;
+
+    if (cache.currentBalance.tokenB > 0) {
+      return;
+    }
+
+    const route = await jupiter.getQuote({
+      inputMint: new PublicKey(tokenA.address),
+      outputMint: new PublicKey(tokenB.address),
+      amount: JSBI.BigInt(cache.currentBalance.tokenA),
+      slippageBps: 50,
+    });
+    const trade = await executor.executeSwap({ route, inputToken: tokenA, outputToken: tokenB, buy: true, expectedProfit: 1 });
+
+    cache.currentBalance.tokenA = 0;
+    cache.currentBalance.tokenB = this.getOutAmount(trade, route, tokenB);
+  }
+}
+
+describe('BacktestRunner', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('replays the snapshots and values the position in tokenA', async () => {
+    const strategy = new BuyAndHoldStrategy();
+    const snapshots = [snapshot(T0, 100), snapshot(T0 + 1000, 125), snapshot(T0 + 2000, 80)];
+    const runner = new BacktestRunner(strategy, config, snapshots, {
+      interval: 1000,
+      random: () => 0,
+    });
+
+    const result = await runner.run();
+
+    expect(strategy.executions).toBe(3);
+    expect(result).toMatchObject({
+      strategy: 'buy-and-hold',
+      startTime: T0,
+      endTime: T0 + 2000,
+      iterations: 3,
+      trades: 1,
+      wins: 1,
+      winRate: 100,
+      initialValue: 100,
+      finalValue: 80,
+      pnl: -20,
+    });
+    expect(result.pnlPercent).toBeCloseTo(-20);
+    expect(result.maxDrawdownPercent).toBeCloseTo(36);
+  });
+
+  it('simulates slippage within the route tolerance', async () => {
+    const runner = new BacktestRunner(new BuyAndHoldStrategy(), config, [snapshot(T0, 100)], {
+      random: () => 1,
+    });
+
+    const result = await runner.run();
+
+    expect(result.trades).toBe(1);
+    expect(result.finalValue).toBeCloseTo(99.5);
+  });
+
+  it('fails without snapshots', async () => {
+    const runner = new BacktestRunner(new BuyAndHoldStrategy(), config, []);
+
+    await expect(runner.run()).rejects.toThrow('No quote snapshots to replay');
+  });
+});
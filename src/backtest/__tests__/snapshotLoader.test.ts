@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadSnapshotsFromFile, parseCsvSnapshots, parseJsonSnapshots } from '../snapshotLoader';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL = 'So11111111111111111111111111111111111111112';
+
+describe('parseCsvSnapshots', () => {
+  it('reads the rows by the header columns', () => {
+    const csv = [
+      'inputMint,outputMint,timestamp,inAmount,outAmount,priceImpactPct',
+      `${USDC},${SOL},1700000000000,100000000,1000000000,0.01`,
+      '',
+      `${SOL},${USDC},2023-11-14T22:13:21.000Z,1000000000,99000000,`,
+    ].join('\n');
+
+    expect(parseCsvSnapshots(csv)).toEqual([
+      {
+        timestamp: 1700000000000,
+        inputMint: USDC,
+        outputMint: SOL,
+        inAmount: '100000000',
+        outAmount: '1000000000',
+        priceImpactPct: 0.01,
+      },
+      {
+        timestamp: 1700000001000,
+        inputMint: SOL,
+        outputMint: USDC,
+        inAmount: '1000000000',
+        outAmount: '99000000',
+        priceImpactPct: undefined,
+      },
+    ]);
+  });
+
+  it('refuses a file without the required columns', () => {
+    expect(() => parseCsvSnapshots('timestamp,inputMint,outputMint\n1,a,b')).toThrow(
+      'Missing CSV columns: inAmount, outAmount'
+    );
+  });
+
+  it('reads an empty file as no snapshots', () => {
+    expect(parseCsvSnapshots('\n')).toEqual([]);
+  });
+});
+
+describe('parseJsonSnapshots', () => {
+  it('converts the timestamps and amounts', () => {
+    const json = JSON.stringify([
+      { timestamp: '2023-11-14T22:13:20.000Z', inputMint: USDC, outputMint: SOL, inAmount: 100000000, outAmount: 1000000000 },
+    ]);
+
+    expect(parseJsonSnapshots(json)).toEqual([
+      { timestamp: 1700000000000, inputMint: USDC, outputMint: SOL, inAmount: '100000000', outAmount: '1000000000' },
+    ]);
+  });
+
+  it('refuses anything but an array', () => {
+    expect(() => parseJsonSnapshots('{}')).toThrow('Quote snapshot file must contain an array');
+  });
+});
+
+describe('loadSnapshotsFromFile', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses the file by its extension', () => {
+    const file = path.join(dir, 'quotes.CSV');
+    fs.writeFileSync(file, `timestamp,inputMint,outputMint,inAmount,outAmount\n1,${USDC},${SOL},1,2\n`);
+
+    expect(loadSnapshotsFromFile(file)).toHaveLength(1);
+  });
+
+  it('refuses other files', () => {
+    const file = path.join(dir, 'quotes.txt');
+    fs.writeFileSync(file, '');
+
+    expect(() => loadSnapshotsFromFile(file)).toThrow(/Unsupported quote snapshot file/);
+  });
+});
@@ -0,0 +1,132 @@
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { ConfigManager } from '../config/ConfigManager';
+import { DatabaseService } from '../database/DatabaseService';
+import { getStrategiesDir, StrategyRegistry } from '../strategies/StrategyRegistry';
+import { QuoteSnapshot, TradingConfig } from '../types';
+import { BacktestResult, BacktestRunner } from './BacktestRunner';
+import { loadSnapshotsFromFile } from './snapshotLoader';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Backtest command line runner
+ *
+ * Usage:
+ *   yarn backtest --data quotes.csv [--config config.json] [--strategy pingpong]
+ *                 [--interval 1000] [--min-profit 0.1] [--slippage 50] [--trade-size 1]
+ *   yarn backtest --data db --from 2024-01-01 --to 2024-01-31
+ */
+
+/**
+ * Parse --key value pairs from the command line
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Load snapshots from a file or from the quote_snapshots table
+ */
+async function loadSnapshots(args: Record<string, string>): Promise<QuoteSnapshot[]> {
+  if (args.data !== 'db') {
+    return loadSnapshotsFromFile(path.resolve(args.data));
+  }
+
+  const dbService = new DatabaseService();
+  await dbService.initialize({
+    host: process.env.DB_HOST || 'localhost',
+    port: parseInt(process.env.DB_PORT || '5432'),
+    user: process.env.DB_USER || 'jupiterbot',
+    password: process.env.DB_PASSWORD || 'password',
+    database: process.env.DB_NAME || 'jupiterbot',
+  });
+
+  try {
+    const from = args.from ? new Date(args.from) : new Date(0);
+    const to = args.to ? new Date(args.to) : new Date();
+    return await dbService.getQuoteSnapshots(from, to);
+  } finally {
+    await dbService.close();
+  }
+}
+
+/**
+ * Apply parameter overrides from the command line to the config
+ */
+function applyOverrides(config: TradingConfig, args: Record<string, string>): TradingConfig {
+  return {
+    ...config,
+    tradingStrategy: args.strategy || config.tradingStrategy,
+    minPercProfit: args['min-profit'] ? parseFloat(args['min-profit']) : config.minPercProfit,
+    slippage: args.slippage ? parseInt(args.slippage) : config.slippage,
+    tradeSize: args['trade-size']
+      ? { ...config.tradeSize, value: parseFloat(args['trade-size']) }
+      : config.tradeSize,
+  };
+}
+
+/**
+ * Print the backtest summary
+ */
+function printResult(result: BacktestResult, config: TradingConfig): void {
+  const symbol = config.tokens.tokenA.symbol;
+
+  console.log('\nBacktest results');
+  console.log(`Strategy:      ${result.strategy}`);
+  console.log(`Period:        ${new Date(result.startTime).toISOString()} - ${new Date(result.endTime).toISOString()}`);
+  console.log(`Parameters:    minPercProfit ${config.minPercProfit}%, slippage ${config.slippage} bps, trade size ${config.tradeSize.value} ${symbol}`);
+  console.log(`Iterations:    ${result.iterations}`);
+  console.log(`Trades:        ${result.trades}`);
+  console.log(`Win rate:      ${result.winRate.toFixed(2)}%`);
+  console.log(`PnL:           ${result.pnl.toFixed(6)} ${symbol} (${result.pnlPercent.toFixed(4)}%)`);
+  console.log(`Max drawdown:  ${result.maxDrawdownPercent.toFixed(4)}%`);
+}
+
+/**
+ * Run a backtest from command line arguments
+ */
+async function runBacktest(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.data) {
+    console.error('Missing --data <file.json|file.csv|db>');
+    process.exit(1);
+  }
+
+  try {
+    const config = applyOverrides(new ConfigManager(args.config).loadConfig(), args);
+    const strategies = new StrategyRegistry();
+    await strategies.loadStrategies(getStrategiesDir(config));
+    const strategy = strategies.create(config);
+
+    const snapshots = await loadSnapshots(args);
+    console.log(`Loaded ${snapshots.length} quote snapshots`);
+
+    const runner = new BacktestRunner(strategy, config, snapshots, {
+      interval: args.interval ? parseInt(args.interval) : undefined,
+    });
+
+    printResult(await runner.run(), config);
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backtest if this file is executed directly
+if (require.main === module) {
+  runBacktest().catch(console.error);
+}
+
+export { runBacktest };
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuoteSnapshot } from '../types';
+
+/**
+ * Parse a timestamp given in milliseconds or as a date string
+ */
+const parseTimestamp = (value: string | number): number => {
+  const timestamp = typeof value === 'number' ? value : Number(value);
+  return Number.isNaN(timestamp) ? Date.parse(String(value)) : timestamp;
+};
+
+/**
+ * Parse quote snapshots from a JSON array
+ */
+export const parseJsonSnapshots = (content: string): QuoteSnapshot[] => {
+  const rows = JSON.parse(content);
+  if (!Array.isArray(rows)) {
+    throw new Error('Quote snapshot file must contain an array');
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    timestamp: parseTimestamp(row.timestamp),
+    inAmount: String(row.inAmount),
+    outAmount: String(row.outAmount),
+  }));
+};
+
+/**
+ * Parse quote snapshots from CSV
+ * Expected columns: timestamp,inputMint,outputMint,inAmount,outAmount[,priceImpactPct]
+ */
+export const parseCsvSnapshots = (content: string): QuoteSnapshot[] => {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(',').map((column) => column.trim());
+  const requiredColumns = ['timestamp', 'inputMint', 'outputMint', 'inAmount', 'outAmount'];
+  const missingColumns = requiredColumns.filter((column) => !header.includes(column));
+  if (missingColumns.length > 0) {
+    throw new Error(`Missing CSV columns: ${missingColumns.join(', ')}`);
+  }
+
+  return lines.slice(1).map((line) => {
+    const values = line.split(',').map((value) => value.trim());
+    const row: Record<string, string> = {};
+    header.forEach((column, index) => {
+      row[column] = values[index];
+    });
+
+    return {
+      timestamp: parseTimestamp(row.timestamp),
+      inputMint: row.inputMint,
+      outputMint: row.outputMint,
+      inAmount: row.inAmount,
+      outAmount: row.outAmount,
+      priceImpactPct: row.priceImpactPct ? parseFloat(row.priceImpactPct) : undefined,
+    };
+  });
+};
+
+/**
+ * Load quote snapshots from a JSON or CSV file
+ */
+export const loadSnapshotsFromFile = (filePath: string): QuoteSnapshot[] => {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  if (extension === '.json') {
+    return parseJsonSnapshots(content);
+  }
+
+  if (extension === '.csv') {
+    return parseCsvSnapshots(content);
+  }
+
+  throw new Error(`Unsupported quote snapshot file: ${filePath}`);
+};
@@ -18,6 +18,8 @@ function printToConsole({
 	tokenB,
 	route,
 	simulatedProfit,
+	// cache of the bot instance (src/core/cache.ts), holds the RPC pool and circuit breaker state
+	botCache,
 }) {
 	try {
 		if (cache.ui.allowClear) {
@@ -64,8 +66,28 @@ function printToConsole({
 						? "yellowBright"
 						: "redBright"
 				](`FETCHING RESULT ... ${(statusPerformance / 1000).toFixed(2)} s`);
+			} else if (
+				botCache &&
+				botCache.circuitBreaker.state !== "closed"
+			) {
+				statusMessage = chalk.bold[
+					botCache.circuitBreaker.state === "open" ? "redBright" : "yellowBright"
+				](`CIRCUIT ${botCache.circuitBreaker.state.toUpperCase()}`);
 			}
 
+			// endpoint picked by the RPC pool of the bot instance, without one only the config is known
+			const rpcUrl = (botCache && botCache.rpc.active) || cache.config.rpc[0];
+			const rpcStats =
+				botCache &&
+				botCache.rpc.endpoints.find((endpoint) => endpoint.url === rpcUrl);
+			const rpcHealth = rpcStats
+				? chalk[rpcStats.healthy ? cache.ui.defaultColor : "redBright"](
+						` ${rpcStats.healthy ? "OK" : "DOWN"} ${Math.round(
+							rpcStats.latency
+						)}ms`
+				  )
+				: "";
+
 			// refresh console before print
 			console.clear();
 			ui.resetOutput();
@@ -108,12 +130,9 @@ function printToConsole({
 				{
 					text: `RPC: ${chalk[cache.ui.defaultColor](
 						cache.ui.hideRpc
-							? `${cache.config.rpc[0].slice(
-									0,
-									5
-							  )}...${cache.config.rpc[0].slice(-5)}`
-							: cache.config.rpc[0]
-					)}`,
+							? `${rpcUrl.slice(0, 5)}...${rpcUrl.slice(-5)}`
+							: rpcUrl
+					)}${rpcHealth}`,
 				},
 			);
 
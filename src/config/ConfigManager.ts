@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { ConfigError } from '../errors';
 import { TradingConfig } from '../types';
 
 /**
@@ -19,7 +20,7 @@ export class ConfigManager {
   loadConfig(): TradingConfig {
     try {
       if (!fs.existsSync(this.configPath)) {
-        throw new Error(`Configuration file does not exist: ${this.configPath}`);
+        throw new ConfigError(`Configuration file does not exist: ${this.configPath}`);
       }
 
       const configData = fs.readFileSync(this.configPath, 'utf8');
@@ -0,0 +1,14 @@
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Mint of wrapped SOL
+ */
+export const NATIVE_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+/**
+ * Size of an SPL token account without extensions (bytes)
+ */
+export const TOKEN_ACCOUNT_SIZE = 165;
@@ -1,35 +1,65 @@
-import { PublicKey, Connection, Keypair } from '@solana/web3.js';
+import { Connection, Keypair } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { ControlApi } from '../api/ControlApi';
 import { ConfigManager } from '../config/ConfigManager';
 import { DatabaseService } from '../database/DatabaseService';
+import { ConfigError, RpcError } from '../errors';
 import { PluginLoader } from '../plugins/PluginLoader';
-import { BotCache, Plugin, PluginContext, Token, TradingConfig } from '../types';
+import { PluginSettingsStore } from '../plugins/PluginSettingsStore';
+import { BotEvents, QuoteProvider, TradeEntry, TradingConfig } from '../types';
+import { JupiterQuoteProvider } from '../quotes/JupiterQuoteProvider';
+import { RpcPool } from '../rpc/RpcPool';
+import { BalanceBudget } from '../trading/BalanceBudget';
 import { BaseStrategy } from '../strategies/BaseStrategy';
-import { PingPongStrategy } from '../strategies/PingPongStrategy';
-// Import other strategies as needed
+import { getStrategiesDir, StrategyFactory, StrategyRegistry } from '../strategies/StrategyRegistry';
+import { BotInstance } from './BotInstance';
+import { EventEmitter } from './EventEmitter';
+
+/**
+ * Id of the instance running the top level config when no instances are configured
+ */
+const DEFAULT_INSTANCE_ID = 'default';
+
+/**
+ * Settings the running instances pick up without a restart
+ */
+const RUNTIME_SETTINGS = ['minPercProfit', 'slippage'] as const;
+
+/**
+ * Highest slippage accepted by the quote API, in BPS
+ */
+const MAX_SLIPPAGE_BPS = 10000;
+
+/**
+ * Changes accepted while the bot runs, tradingEnabled switches every instance
+ */
+export type ConfigChanges = Partial<Pick<TradingConfig, (typeof RUNTIME_SETTINGS)[number]>> & {
+  tradingEnabled?: boolean;
+};
 
 /**
  * BotCore is the main class that coordinates all bot functionality
+ * It owns the wallet, RPC pool, databases and plugins shared by the bot
+ * instances, each trading its own pair and strategy
  */
 export class BotCore {
   private configManager: ConfigManager;
   private dbService: DatabaseService;
   private pluginLoader: PluginLoader;
+  private events: EventEmitter<BotEvents> = new EventEmitter<BotEvents>();
+  private rpcPool: RpcPool | null = null;
   private connection: Connection | null = null;
   private wallet: Keypair | null = null;
-  private jupiter: any = null; // Will be typed better later
-  private strategies: Map<string, BaseStrategy> = new Map();
-  private cache: BotCache | null = null;
+  private jupiter: QuoteProvider | null = null;
+  private strategies: StrategyRegistry = new StrategyRegistry();
+  private instances: Map<string, BotInstance> = new Map();
   private config: TradingConfig | null = null;
-  private isRunning = false;
+  private controlApi: ControlApi | null = null;
 
   constructor() {
     this.configManager = new ConfigManager();
     this.dbService = new DatabaseService();
-    this.pluginLoader = new PluginLoader();
-    
-    // Register built-in strategies
-    this.registerStrategy(new PingPongStrategy());
+    this.pluginLoader = new PluginLoader(undefined, new PluginSettingsStore(this.dbService));
     
     // Setup event listeners
     process.on('SIGINT', this.shutdown.bind(this));
@@ -43,10 +73,19 @@ export class BotCore {
     try {
       // Load configuration
       this.config = this.configManager.loadConfig();
+      if (process.env.BOT_MODE === 'paper') {
+        this.config.paperTrading = true;
+      }
       
-      // Create and initialize the cache
-      this.initializeCache();
-      
+      // Resolve the config of every instance, strategy config sections are validated here
+      await this.strategies.loadStrategies(getStrategiesDir(this.config));
+      const instanceConfigs = this.resolveInstanceConfigs(this.config);
+      const strategies = new Map<string, BaseStrategy>();
+      for (const [id, config] of instanceConfigs) {
+        strategies.set(id, this.strategies.create(config));
+        console.log(`Instance ${id}: ${config.tradingStrategy} on ${config.tokens.tokenA.symbol}/${config.tokens.tokenB.symbol}`);
+      }
+
       // Setup database connections
       await this.setupDatabases();
       
@@ -55,11 +94,40 @@ export class BotCore {
       
       // Load plugins
       await this.pluginLoader.loadPlugins();
-      await this.pluginLoader.initializePlugins();
+      await this.pluginLoader.initializePlugins(this.events);
+      if (this.config.watchPlugins) {
+        this.pluginLoader.watchPlugins();
+      }
       
       // Setup Jupiter SDK
       await this.setupJupiter();
       
+      // Setup the instances, they share the wallet balances through the budget
+      const budget = new BalanceBudget(this.config.budget);
+      for (const [id, config] of instanceConfigs) {
+        const instance = new BotInstance(id, config, strategies.get(id)!, {
+          rpcPool: this.rpcPool!,
+          wallet: this.wallet!,
+          jupiter: this.jupiter!,
+          dbService: this.dbService,
+          pluginLoader: this.pluginLoader,
+          budget,
+          events: this.events,
+        });
+        await instance.initialize();
+        this.instances.set(id, instance);
+      }
+
+      // The control API only runs with a token to check requests against
+      if (process.env.API_TOKEN) {
+        this.controlApi = new ControlApi(this, {
+          token: process.env.API_TOKEN,
+          port: process.env.API_PORT ? parseInt(process.env.API_PORT) : undefined,
+          host: process.env.API_HOST,
+        });
+        await this.controlApi.start();
+      }
+      
       console.log('Bot initialized successfully');
     } catch (err) {
       console.error('Error initializing bot:', err);
@@ -68,86 +136,188 @@ export class BotCore {
   }
 
   /**
-   * Start the bot
+   * Start every instance
    */
   async start(): Promise<void> {
-    if (this.isRunning) {
-      console.log('Bot is already running');
-      return;
-    }
-    
-    if (!this.config || !this.connection || !this.wallet || !this.jupiter) {
+    if (!this.config || !this.connection || !this.wallet || !this.jupiter || this.instances.size === 0) {
       console.error('Bot is not properly initialized');
       return;
     }
-    
-    try {
-      this.isRunning = true;
-      console.log('Bot started');
-      
-      // Get the active strategy
-      const strategy = this.strategies.get(this.config.tradingStrategy);
-      if (!strategy) {
-        throw new Error(`Strategy ${this.config.tradingStrategy} not found`);
-      }
-      
-      // Initialize strategy
-      await strategy.initialize();
-      
-      // Get tokens from configuration
-      const tokenA = this.config.tokens.tokenA;
-      const tokenB = this.config.tokens.tokenB;
-      
-      // Main trading loop would start here
-      // This would typically involve a continuous loop with delay logic
-      // But for now we'll just simulate a single strategy execution
-      
-      // Create strategy context
-      const strategyContext = {
-        jupiter: this.jupiter,
-        tokenA,
-        tokenB,
-        config: this.config,
-        cache: this.cache!,
-        wallet: this.wallet,
-      };
-      
-      // Execute strategy
-      await strategy.execute(strategyContext);
-      
-      // In a real implementation, you would set up a loop here
-      
-    } catch (err) {
-      console.error('Error starting bot:', err);
-      this.isRunning = false;
+
+    for (const id of this.instances.keys()) {
+      await this.startInstance(id);
     }
+    console.log('Bot started');
   }
 
   /**
-   * Stop the bot
+   * Stop every instance
    */
   async stop(): Promise<void> {
-    if (!this.isRunning) {
+    if (!this.isRunning()) {
       console.log('Bot is not running');
       return;
     }
     
-    this.isRunning = false;
+    // Pause the trading loops, the process keeps running so they can be resumed
+    for (const id of this.instances.keys()) {
+      this.stopInstance(id);
+    }
     console.log('Bot stopped');
   }
 
+  /**
+   * Start or resume a single instance
+   * @throws ConfigError when the instance does not exist
+   */
+  async startInstance(id: string): Promise<void> {
+    try {
+      await this.getInstance(id).start();
+    } catch (err) {
+      if (err instanceof ConfigError) {
+        throw err;
+      }
+      console.error(`Error starting instance ${id}:`, err);
+    }
+  }
+
+  /**
+   * Pause a single instance
+   * @throws ConfigError when the instance does not exist
+   */
+  stopInstance(id: string): void {
+    this.getInstance(id).stop();
+  }
+
+  /**
+   * Get every instance of the bot
+   */
+  getInstances(): BotInstance[] {
+    return Array.from(this.instances.values());
+  }
+
+  /**
+   * Check if any instance is trading
+   */
+  isRunning(): boolean {
+    return this.getInstances().some((instance) => instance.isRunning());
+  }
+
+  /**
+   * Turn trading on or off for every instance, or a single one
+   * @throws ConfigError when the instance does not exist
+   */
+  setTradingEnabled(enabled: boolean, id?: string): void {
+    const instances = id ? [this.getInstance(id)] : this.getInstances();
+    for (const instance of instances) {
+      instance.setTradingEnabled(enabled, enabled ? undefined : 'disabled through the control API');
+    }
+  }
+
+  /**
+   * Engage or lift the kill switch of the risk manager of every instance, or a single one
+   * @throws ConfigError when the instance does not exist
+   */
+  setKillSwitch(active: boolean, id?: string): void {
+    const instances = id ? [this.getInstance(id)] : this.getInstances();
+    for (const instance of instances) {
+      if (active) {
+        instance.risk.kill('killed through the control API');
+      } else {
+        instance.risk.resume();
+      }
+    }
+  }
+
+  /**
+   * Get recent trades, from the database or the history of the instances without PostgreSQL
+   */
+  async getTradeHistory(limit: number): Promise<TradeEntry[]> {
+    if (this.dbService.isPgConnected()) {
+      return this.dbService.getTradeHistory(limit);
+    }
+
+    return this.getInstances()
+      .flatMap((instance) => instance.cache.tradeHistory)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, limit);
+  }
+
+  /**
+   * Get the stored configuration
+   */
+  getConfig(): TradingConfig {
+    return this.configManager.loadConfig();
+  }
+
+  /**
+   * Change top level settings of the stored configuration and the running instances
+   * Only minPercProfit, slippage and tradingEnabled can be changed, other settings
+   * need a restart and are refused
+   * @returns The new configuration
+   * @throws ConfigError when a setting needs a restart or is out of range, or the new configuration is invalid
+   */
+  updateConfig(changes: ConfigChanges): TradingConfig {
+    const { tradingEnabled, ...settings } = changes;
+    const refused = Object.keys(settings).filter(
+      (key) => !(RUNTIME_SETTINGS as readonly string[]).includes(key)
+    );
+
+    if (refused.length > 0) {
+      throw new ConfigError(`${refused.join(', ')} cannot be changed while the bot runs, edit config.json and restart`);
+    }
+    if (tradingEnabled !== undefined && typeof tradingEnabled !== 'boolean') {
+      throw new ConfigError('tradingEnabled must be a boolean');
+    }
+    this.validateRuntimeSettings(settings);
+
+    const config = { ...this.configManager.loadConfig(), ...settings };
+    if (Object.keys(settings).length > 0) {
+      if (!this.configManager.validateConfig(config)) {
+        throw new ConfigError('Invalid configuration, see the bot logs');
+      }
+
+      // Instances overriding a setting keep their own value
+      const instanceConfigs = this.resolveInstanceConfigs(config);
+      this.configManager.saveConfig(config);
+      for (const instance of this.getInstances()) {
+        const instanceConfig = instanceConfigs.get(instance.id);
+        if (!instanceConfig) {
+          continue;
+        }
+
+        instance.updateSettings({ minPercProfit: instanceConfig.minPercProfit, slippage: instanceConfig.slippage });
+      }
+    }
+
+    if (tradingEnabled !== undefined) {
+      this.setTradingEnabled(tradingEnabled);
+    }
+
+    console.log(`Configuration updated: ${Object.keys(changes).join(', ')}`);
+    return config;
+  }
+
+  getPluginLoader(): PluginLoader {
+    return this.pluginLoader;
+  }
+
   /**
    * Shutdown the bot and clean up
    */
   async shutdown(): Promise<void> {
     console.log('Shutting down...');
+    await this.controlApi?.stop();
     
-    // Stop the bot if running
-    if (this.isRunning) {
-      await this.stop();
-    }
+    // Stop the instances, letting their listeners finish before plugins are cleaned up
+    await Promise.all(this.getInstances().map((instance) => instance.shutdown()));
+    await this.events.emitAsync('bot:stopped', { reason: 'shutdown' });
+
+    // Stop RPC health checks
+    this.rpcPool?.stopHealthChecks();
     
     // Clean up plugins
+    await this.pluginLoader.unwatchPlugins();
     await this.pluginLoader.cleanupPlugins();
     
     // Close database connections
@@ -157,6 +327,58 @@ export class BotCore {
     process.exit(0);
   }
 
+  /**
+   * Check the type and range of changed runtime settings, the body comes straight from the control API
+   * @throws ConfigError when a setting is out of range
+   */
+  private validateRuntimeSettings({ minPercProfit, slippage }: ConfigChanges): void {
+    if (
+      minPercProfit !== undefined &&
+      (typeof minPercProfit !== 'number' || !Number.isFinite(minPercProfit) || minPercProfit < 0)
+    ) {
+      throw new ConfigError('minPercProfit must be a number of at least 0');
+    }
+    if (slippage !== undefined && (!Number.isInteger(slippage) || slippage < 0 || slippage > MAX_SLIPPAGE_BPS)) {
+      throw new ConfigError(`slippage must be an integer from 0 to ${MAX_SLIPPAGE_BPS} BPS`);
+    }
+  }
+
+  /**
+   * Merge the config of every instance over the top level config
+   * The top level config runs as a single instance when no instances are configured
+   * @throws ConfigError when instance ids are missing or duplicated
+   */
+  private resolveInstanceConfigs(config: TradingConfig): Map<string, TradingConfig> {
+    const { instances, ...base } = config;
+    const configs = new Map<string, TradingConfig>();
+
+    if (!instances || instances.length === 0) {
+      configs.set(DEFAULT_INSTANCE_ID, base);
+      return configs;
+    }
+
+    for (const { id, ...overrides } of instances) {
+      if (!id) {
+        throw new ConfigError('Every instance needs an id');
+      }
+      if (configs.has(id)) {
+        throw new ConfigError(`Duplicate instance id: ${id}`);
+      }
+
+      configs.set(id, { ...base, ...overrides, rpc: base.rpc });
+    }
+
+    return configs;
+  }
+
+  private getInstance(id: string): BotInstance {
+    const instance = this.instances.get(id);
+    if (!instance) {
+      throw new ConfigError(`Instance not found: ${id}`);
+    }
+    return instance;
+  }
+
   /**
    * Setup wallet and connection
    */
@@ -168,20 +390,29 @@ export class BotCore {
     try {
       // Setup wallet from private key
       const privateKey = process.env.SOLANA_WALLET_PRIVATE_KEY;
-      if (!privateKey) {
-        throw new Error('Wallet private key not found in environment variables');
+      if (privateKey) {
+        this.wallet = Keypair.fromSecretKey(bs58.decode(privateKey));
+      } else if (this.config.paperTrading) {
+        // Paper trading never signs, a throwaway wallet is enough
+        this.wallet = Keypair.generate();
+      } else {
+        throw new ConfigError('Wallet private key not found in environment variables');
       }
       
-      this.wallet = Keypair.fromSecretKey(bs58.decode(privateKey));
       console.log(`Wallet enabled: ${this.wallet.publicKey.toString()}`);
       
-      // Setup connection using first RPC from config
-      this.connection = new Connection(this.config.rpc[0]);
-      console.log(`Connected to RPC: ${this.config.rpc[0]}`);
+      // Setup the RPC pool and pick the best endpoint, instances expose its stats in their cache
+      this.rpcPool = new RpcPool(this.config.rpc);
+      await this.rpcPool.probe();
+      this.rpcPool.startHealthChecks();
       
-      // Test connection
-      const blockHeight = await this.connection.getBlockHeight();
-      console.log(`Current block height: ${blockHeight}`);
+      this.connection = this.rpcPool.getConnection();
+      const best = this.rpcPool.getStats().find((stats) => stats.url === this.connection?.rpcEndpoint);
+      if (!best?.healthy) {
+        throw new RpcError('No healthy RPC endpoint available');
+      }
+      console.log(`Connected to RPC: ${best.url}`);
+      console.log(`Current block height: ${best.blockHeight}`);
     } catch (err) {
       console.error('Error setting up wallet and connection:', err);
       throw err;
@@ -189,13 +420,13 @@ export class BotCore {
   }
 
   /**
-   * Setup Jupiter SDK
+   * Setup Jupiter quote provider
    */
   private async setupJupiter(): Promise<void> {
-    // This would normally load the Jupiter SDK with the proper parameters
-    // Actual implementation depends on the version of Jupiter SDK being used
-    console.log('Jupiter SDK setup would happen here');
-    this.jupiter = {}; // Placeholder
+    this.jupiter = new JupiterQuoteProvider({
+      baseUrl: process.env.JUPITER_API_URL,
+    });
+    console.log(`Jupiter API: ${process.env.JUPITER_API_URL || 'default endpoint'}`);
   }
 
   /**
@@ -221,103 +452,10 @@ export class BotCore {
   }
 
   /**
-   * Register a strategy with the bot
-   */
-  registerStrategy(strategy: BaseStrategy): void {
-    this.strategies.set(strategy.name, strategy);
-    console.log(`Strategy registered: ${strategy.name}`);
-  }
-
-  /**
-   * Initialize the cache with default values
+   * Register a strategy with the bot, call before initialize
    */
-  private initializeCache(): void {
-    if (!this.config) {
-      throw new Error('Config not loaded');
-    }
-    
-    this.cache = {
-      startTime: new Date(),
-      queue: {},
-      queueThrottle: 1,
-      sideBuy: true,
-      iteration: 0,
-      walletpubkey: '',
-      walletpubkeyfull: '',
-      iterationPerMinute: {
-        start: performance.now(),
-        value: 0,
-        counter: 0,
-      },
-      initialBalance: {
-        tokenA: 0,
-        tokenB: 0,
-      },
-      currentBalance: {
-        tokenA: 0,
-        tokenB: 0,
-      },
-      currentProfit: {
-        tokenA: 0,
-        tokenB: 0,
-      },
-      lastBalance: {
-        tokenA: 0,
-        tokenB: 0,
-      },
-      profit: {
-        tokenA: 0,
-        tokenB: 0,
-      },
-      maxProfitSpotted: {
-        buy: 0,
-        sell: 0,
-      },
-      tradeCounter: {
-        buy: { success: 0, fail: 0 },
-        sell: { success: 0, fail: 0 },
-        failedbalancecheck: 0,
-        errorcount: 0,
-      },
-      ui: {
-        defaultColor: process.env.UI_COLOR ?? 'cyan',
-        showPerformanceOfRouteCompChart: false,
-        showProfitChart: false,
-        showTradeHistory: false,
-        hideRpc: false,
-        showHelp: false,
-        allowClear: true,
-      },
-      chart: {
-        spottedMax: {
-          buy: new Array(120).fill(0),
-          sell: new Array(120).fill(0),
-        },
-        performanceOfRouteComp: new Array(120).fill(0),
-      },
-      hotkeys: {
-        e: false,
-        r: false,
-      },
-      tradingEnabled:
-        process.env.TRADING_ENABLED === undefined
-          ? true
-          : process.env.TRADING_ENABLED === 'true',
-      wrapUnwrapSOL:
-        process.env.WRAP_UNWRAP_SOL === undefined
-          ? true
-          : process.env.WRAP_UNWRAP_SOL === 'true',
-      swappingRightNow: false,
-      fetchingResultsFromSolscan: false,
-      fetchingResultsFromSolscanStart: 0,
-      tradeHistory: [],
-      performanceOfTxStart: 0,
-      availableRoutes: {
-        buy: 0,
-        sell: 0,
-      },
-      isSetupDone: false,
-      config: this.config,
-    };
+  registerStrategy(create: StrategyFactory): void {
+    const { name } = this.strategies.register(create);
+    console.log(`Strategy registered: ${name}`);
   }
 }
\ No newline at end of file
@@ -0,0 +1,320 @@
+import { Keypair } from '@solana/web3.js';
+import { DatabaseService } from '../database/DatabaseService';
+import { PluginLoader } from '../plugins/PluginLoader';
+import { PluginTradeExecutor } from '../plugins/PluginTradeExecutor';
+import { RpcPool } from '../rpc/RpcPool';
+import { BaseStrategy } from '../strategies/BaseStrategy';
+import { StrategyStateStore } from '../strategies/StrategyStateStore';
+import { BalanceBudget } from '../trading/BalanceBudget';
+import { BalanceService } from '../trading/BalanceService';
+import { CircuitBreaker } from '../trading/CircuitBreaker';
+import { CircuitBreakerTradeExecutor } from '../trading/CircuitBreakerTradeExecutor';
+import { ConfirmationTracker } from '../trading/ConfirmationTracker';
+import { PriorityFeeManager } from '../trading/PriorityFeeManager';
+import { RiskManager, RiskStatus } from '../trading/RiskManager';
+import { RiskTradeExecutor } from '../trading/RiskTradeExecutor';
+import { SlippageController } from '../trading/SlippageController';
+import { TokenAccountManager } from '../trading/TokenAccountManager';
+import { BotCache, BotEvents, PluginContext, QuoteProvider, RouteInfo, StrategyContext, TradingConfig } from '../types';
+import { toDecimal } from '../utils';
+import { createCache } from './cache';
+import { BotEventBus, EventEmitter } from './EventEmitter';
+import { PaperSwapExecutor, setupVirtualBalances } from './PaperSwapExecutor';
+import { SwapExecutor } from './SwapExecutor';
+import { TradingLoop } from './TradingLoop';
+
+/**
+ * Services shared by every bot instance of the process
+ */
+export interface SharedServices {
+  rpcPool: RpcPool;
+  wallet: Keypair;
+  jupiter: QuoteProvider;
+  dbService: DatabaseService;
+  pluginLoader: PluginLoader;
+  budget: BalanceBudget;
+  // Bus of the bot, every instance forwards its events to it
+  events: BotEventBus;
+}
+
+/**
+ * Summary of the state of an instance
+ */
+export interface InstanceStatus {
+  id: string;
+  strategy: string;
+  pair: string;
+  running: boolean;
+  paperTrading: boolean;
+  tradingEnabled: boolean;
+  tradingDisabledReason?: string;
+  startTime: Date;
+  iteration: number;
+  iterationsPerMinute: number;
+  balances: Pick<BotCache, 'initialBalance' | 'currentBalance' | 'walletBalance'>;
+  profit: BotCache['currentProfit'];
+  tradeCounter: BotCache['tradeCounter'];
+  circuitBreaker: BotCache['circuitBreaker'];
+  risk: RiskStatus;
+}
+
+/**
+ * BotInstance trades one pair with one strategy
+ * Each instance has its own config, cache, event bus and trading loop and
+ * shares the wallet, RPC pool, databases, plugins and balance budget
+ */
+export class BotInstance {
+  readonly id: string;
+  readonly config: TradingConfig;
+  readonly cache: BotCache;
+  readonly events: BotEventBus = new EventEmitter<BotEvents>();
+  readonly risk: RiskManager;
+  readonly circuitBreaker: CircuitBreaker;
+  private strategy: BaseStrategy;
+  private services: SharedServices;
+  private balanceService: BalanceService | null = null;
+  private tokenAccounts: TokenAccountManager | null = null;
+  private tradingLoop: TradingLoop | null = null;
+  private slippage: SlippageController | null = null;
+
+  constructor(id: string, config: TradingConfig, strategy: BaseStrategy, services: SharedServices) {
+    this.id = id;
+    this.config = config;
+    this.strategy = strategy;
+    this.services = services;
+    this.cache = createCache(config);
+    this.risk = new RiskManager(config, this.cache, this.events);
+    this.circuitBreaker = new CircuitBreaker(config, this.cache, this.events);
+
+    // The bot bus reports shutdown once for the whole process
+    this.events.onAny((event, payload) => {
+      const stopped = payload as Partial<BotEvents['bot:stopped']>;
+      if (event === 'bot:stopped' && stopped.reason === 'shutdown') {
+        return;
+      }
+      return services.events.emitAsync(event, payload);
+    });
+
+    // Recorded quotes are replayed by backtests run with --data db
+    if (config.recordQuotes) {
+      this.events.on('route:computed', ({ routes }) => this.recordQuotes(routes));
+    }
+  }
+
+  /**
+   * Setup the token accounts and the traded position, reserving it in the balance budget
+   */
+  async initialize(): Promise<void> {
+    const { rpcPool, wallet, jupiter, budget } = this.services;
+    const { tokenA } = this.config.tokens;
+
+    rpcPool.addCache(this.cache);
+
+    if (this.config.paperTrading) {
+      await setupVirtualBalances(this.cache, jupiter);
+      budget.reserve(this.id, tokenA.address, this.cache.initialBalance.tokenA, Infinity, tokenA.decimals);
+      console.log(
+        `[${this.id}] Paper trading enabled with ${toDecimal(this.cache.walletBalance.tokenA, tokenA.decimals)} ${tokenA.symbol}`
+      );
+      return;
+    }
+
+    this.balanceService = new BalanceService(rpcPool, wallet.publicKey, this.cache, this.events);
+    this.tokenAccounts = new TokenAccountManager(rpcPool, wallet, this.cache);
+
+    await this.tokenAccounts.ensureTokenAccounts();
+    await this.balanceService.initialize(jupiter);
+    budget.reserve(
+      this.id,
+      tokenA.address,
+      this.cache.initialBalance.tokenA,
+      this.cache.walletBalance.tokenA,
+      tokenA.decimals
+    );
+    console.log(`[${this.id}] Trade size: ${this.cache.initialBalance.tokenA} (raw ${tokenA.symbol})`);
+  }
+
+  /**
+   * Start the instance, or resume it after a stop
+   */
+  async start(): Promise<void> {
+    if (this.isRunning()) {
+      console.log(`[${this.id}] Already running`);
+      return;
+    }
+
+    if (this.tradingLoop) {
+      this.tradingLoop.start();
+      console.log(`[${this.id}] Resumed`);
+      return;
+    }
+
+    await this.strategy.initialize();
+    this.tradingLoop = new TradingLoop(this.strategy, this.createStrategyContext());
+    this.tradingLoop.start();
+    console.log(`[${this.id}] Started ${this.strategy.name} on ${this.getPair()}`);
+  }
+
+  /**
+   * Pause the trading loop, the instance can be started again
+   */
+  stop(): void {
+    if (!this.isRunning()) {
+      return;
+    }
+
+    this.tradingLoop?.stop();
+    this.events.emit('bot:stopped', { reason: 'stopped' });
+    console.log(`[${this.id}] Stopped`);
+  }
+
+  /**
+   * Stop the instance for good, letting the listeners of its bus finish
+   */
+  async shutdown(): Promise<void> {
+    this.stop();
+    await this.events.emitAsync('bot:stopped', { reason: 'shutdown' });
+    await this.strategy.cleanup();
+    this.services.budget.release(this.id);
+  }
+
+  isRunning(): boolean {
+    return this.tradingLoop?.isRunning() ?? false;
+  }
+
+  /**
+   * Turn trading on or off, the loop keeps computing routes while trading is off
+   * Enabling trading also lifts the kill switch of the risk manager
+   */
+  setTradingEnabled(enabled: boolean, reason?: string): void {
+    if (enabled) {
+      this.risk.resume();
+      return;
+    }
+
+    this.cache.tradingEnabled = false;
+    this.cache.tradingDisabledReason = reason;
+    console.log(`[${this.id}] Trading disabled${reason ? `: ${reason}` : ''}`);
+  }
+
+  /**
+   * Apply settings changed while the instance runs
+   * A new slippage restarts the adaptive slippage from it
+   */
+  updateSettings(settings: Partial<Pick<TradingConfig, 'minPercProfit' | 'slippage'>>): void {
+    const slippageChanged = settings.slippage !== undefined && settings.slippage !== this.config.slippage;
+
+    Object.assign(this.config, settings);
+    if (slippageChanged) {
+      this.slippage?.reset();
+    }
+  }
+
+  getStatus(): InstanceStatus {
+    const { cache } = this;
+
+    return {
+      id: this.id,
+      strategy: this.strategy.name,
+      pair: this.getPair(),
+      running: this.isRunning(),
+      paperTrading: !!this.config.paperTrading,
+      tradingEnabled: cache.tradingEnabled,
+      tradingDisabledReason: cache.tradingDisabledReason,
+      startTime: cache.startTime,
+      iteration: cache.iteration,
+      iterationsPerMinute: cache.iterationPerMinute.value,
+      balances: {
+        initialBalance: cache.initialBalance,
+        currentBalance: cache.currentBalance,
+        walletBalance: cache.walletBalance,
+      },
+      profit: cache.currentProfit,
+      tradeCounter: cache.tradeCounter,
+      circuitBreaker: cache.circuitBreaker,
+      risk: this.risk.getStatus(),
+    };
+  }
+
+  getStrategyName(): string {
+    return this.strategy.name;
+  }
+
+  getPair(): string {
+    return `${this.config.tokens.tokenA.symbol}/${this.config.tokens.tokenB.symbol}`;
+  }
+
+  /**
+   * Store computed routes as quote snapshots
+   */
+  private async recordQuotes(routes: RouteInfo[]): Promise<void> {
+    const { dbService } = this.services;
+    if (!dbService.isPgConnected()) {
+      return;
+    }
+
+    const timestamp = Date.now();
+    for (const route of routes) {
+      await dbService.saveQuoteSnapshot({
+        timestamp,
+        inputMint: route.inputMint,
+        outputMint: route.outputMint,
+        inAmount: route.amount.toString(),
+        outAmount: route.outAmount.toString(),
+        priceImpactPct: route.priceImpactPct,
+        routePlan: route.routePlan,
+      });
+    }
+  }
+
+  /**
+   * Build the strategy context, plugin hooks follow the events of the instance
+   */
+  private createStrategyContext(): StrategyContext {
+    const { rpcPool, wallet, jupiter, dbService, pluginLoader } = this.services;
+    const { tokenA, tokenB } = this.config.tokens;
+
+    const pluginContext: PluginContext = {
+      config: this.config,
+      jupiter,
+      wallet: wallet.publicKey,
+      tokens: { tokenA, tokenB },
+      cache: this.cache,
+      events: this.events,
+    };
+    pluginLoader.attach(pluginContext);
+
+    const executor = this.config.paperTrading
+      ? new PaperSwapExecutor(this.cache, this.events, dbService)
+      : new SwapExecutor(
+          rpcPool,
+          jupiter,
+          wallet,
+          this.cache,
+          this.events,
+          dbService,
+          new PriorityFeeManager(rpcPool, this.cache),
+          this.balanceService!,
+          this.tokenAccounts!,
+          new ConfirmationTracker(rpcPool, wallet.publicKey, this.cache, dbService)
+        );
+
+    this.slippage = new SlippageController(this.config);
+
+    // Plugins may veto or resize every trade, the risk limits and the circuit breaker apply to the final size
+    const guarded = new RiskTradeExecutor(new CircuitBreakerTradeExecutor(executor, this.circuitBreaker), this.risk);
+
+    return {
+      jupiter,
+      tokenA,
+      tokenB,
+      config: this.config,
+      cache: this.cache,
+      wallet: wallet.publicKey,
+      executor: new PluginTradeExecutor(guarded, pluginLoader, pluginContext),
+      slippage: this.slippage,
+      events: this.events,
+      state: new StrategyStateStore(dbService, this.id),
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { BotError } from '../errors';
+import { ErrorAction, ErrorPolicyConfig } from '../types';
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 500;
+const DEFAULT_MAX_CONSECUTIVE_ERRORS = 100;
+
+/**
+ * Default action per error code, errors without an entry are retried when
+ * retryable and skipped otherwise
+ */
+const DEFAULT_ACTIONS: Record<string, ErrorAction> = {
+  NO_ROUTES: 'skip',
+  INSUFFICIENT_BALANCE: 'pause',
+  CONFIG_ERROR: 'pause',
+};
+
+/**
+ * ErrorPolicy decides what the trading loop does with a failed iteration
+ *
+ * - retry: run the iteration again after a delay, up to maxRetries times
+ * - skip: give up on the iteration and carry on with the next one
+ * - pause: stop the loop until the bot is started again
+ *
+ * Errors the policy cannot recover from (retries exhausted, non-retryable or
+ * unknown errors) are counted and the loop pauses after maxConsecutiveErrors
+ * of them in a row.
+ */
+export class ErrorPolicy {
+  private config: ErrorPolicyConfig;
+  private consecutiveErrors = 0;
+
+  constructor(config: ErrorPolicyConfig = {}) {
+    this.config = config;
+  }
+
+  /**
+   * Get the action for an error
+   * @param err The error thrown by the iteration
+   * @param attempt Number of retries already made for the iteration
+   */
+  resolve(err: unknown, attempt: number): ErrorAction {
+    const action = this.getAction(err);
+    const retryable = err instanceof BotError && err.retryable;
+
+    if (action === 'retry' && attempt < (this.config.maxRetries ?? DEFAULT_MAX_RETRIES)) {
+      return 'retry';
+    }
+
+    if (action === 'pause') {
+      return 'pause';
+    }
+
+    // Expected errors such as missing routes are skipped without counting
+    if (action === 'skip' && retryable) {
+      return 'skip';
+    }
+
+    this.consecutiveErrors++;
+    if (this.consecutiveErrors >= (this.config.maxConsecutiveErrors ?? DEFAULT_MAX_CONSECUTIVE_ERRORS)) {
+      return 'pause';
+    }
+
+    return 'skip';
+  }
+
+  /**
+   * Reset the error count after a successful iteration
+   */
+  recordSuccess(): void {
+    this.consecutiveErrors = 0;
+  }
+
+  /**
+   * Get the delay before a retry (ms)
+   */
+  getRetryDelay(attempt: number): number {
+    return (this.config.retryDelay ?? DEFAULT_RETRY_DELAY) * 2 ** attempt;
+  }
+
+  private getAction(err: unknown): ErrorAction {
+    if (!(err instanceof BotError)) {
+      return 'skip';
+    }
+
+    const action = this.config.actions?.[err.code] ?? DEFAULT_ACTIONS[err.code];
+    return action ?? (err.retryable ? 'retry' : 'skip');
+  }
+}
@@ -1,54 +1,77 @@
-type EventCallback = (...args: any[]) => void;
+import { BotEvents } from '../types';
+
+type EventCallback<T> = (payload: T) => void | Promise<void>;
+
+type AnyEventCallback<Events> = <K extends keyof Events>(event: K, payload: Events[K]) => void | Promise<void>;
 
 /**
  * Simple event emitter implementation for the bot's event-driven architecture
+ * Listeners may be async, errors thrown or rejected by a listener are logged
+ * and never reach the emitter or the other listeners
  */
-export class EventEmitter {
-  private events: Map<string, EventCallback[]> = new Map();
-  
+export class EventEmitter<Events extends object = Record<string, unknown>> {
+  // Listeners of every event, getListeners types them by their event
+  private events: Map<keyof Events, EventCallback<never>[]> = new Map();
+  private anyListeners: AnyEventCallback<Events>[] = [];
+
   /**
    * Register an event listener
    * @param event The event name
    * @param callback The callback function
+   * @returns A function removing the listener
    */
-  on(event: string, callback: EventCallback): void {
+  on<K extends keyof Events>(event: K, callback: EventCallback<Events[K]>): () => void {
     if (!this.events.has(event)) {
       this.events.set(event, []);
     }
-    
+
     this.events.get(event)!.push(callback);
+    return () => this.off(event, callback);
+  }
+
+  /**
+   * Register a listener called for every event, used to forward events to another bus
+   * @param callback The callback function, receiving the event name and payload
+   * @returns A function removing the listener
+   */
+  onAny(callback: AnyEventCallback<Events>): () => void {
+    this.anyListeners.push(callback);
+    return () => {
+      this.anyListeners = this.anyListeners.filter((listener) => listener !== callback);
+    };
   }
-  
+
   /**
    * Register a one-time event listener
    * @param event The event name
    * @param callback The callback function
+   * @returns A function removing the listener
    */
-  once(event: string, callback: EventCallback): void {
-    const onceCallback = (...args: any[]) => {
+  once<K extends keyof Events>(event: K, callback: EventCallback<Events[K]>): () => void {
+    const onceCallback = (payload: Events[K]) => {
       this.off(event, onceCallback);
-      callback(...args);
+      return callback(payload);
     };
-    
-    this.on(event, onceCallback);
+
+    return this.on(event, onceCallback);
   }
-  
+
   /**
    * Remove an event listener
    * @param event The event name
    * @param callback The callback function to remove
    */
-  off(event: string, callback: EventCallback): void {
+  off<K extends keyof Events>(event: K, callback: EventCallback<Events[K]>): void {
     if (!this.events.has(event)) {
       return;
     }
-    
+
     const callbacks = this.events.get(event)!;
     const index = callbacks.indexOf(callback);
-    
+
     if (index !== -1) {
       callbacks.splice(index, 1);
-      
+
       if (callbacks.length === 0) {
         this.events.delete(event);
       } else {
@@ -56,56 +79,80 @@ export class EventEmitter {
       }
     }
   }
-  
+
   /**
-   * Emit an event
+   * Emit an event without waiting for async listeners
    * @param event The event name
-   * @param args Arguments to pass to the event listeners
+   * @param payload Payload passed to the event listeners
    */
-  emit(event: string, ...args: any[]): void {
-    if (!this.events.has(event)) {
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    void this.emitAsync(event, payload);
+  }
+
+  /**
+   * Emit an event and wait for every listener to settle
+   * @param event The event name
+   * @param payload Payload passed to the event listeners
+   */
+  async emitAsync<K extends keyof Events>(event: K, payload: Events[K]): Promise<void> {
+    const callbacks: EventCallback<Events[K]>[] = [
+      ...this.getListeners(event),
+      ...this.anyListeners.map((listener) => (value: Events[K]) => listener(event, value)),
+    ];
+
+    if (callbacks.length === 0) {
       return;
     }
-    
-    const callbacks = [...this.events.get(event)!];
-    
-    for (const callback of callbacks) {
-      try {
-        callback(...args);
-      } catch (err) {
-        console.error(`Error in event listener for "${event}":`, err);
-      }
-    }
+
+    await Promise.all(
+      callbacks.map(async (callback) => {
+        try {
+          await callback(payload);
+        } catch (err) {
+          console.error(`Error in event listener for "${String(event)}":`, err);
+        }
+      })
+    );
   }
-  
+
   /**
    * Remove all listeners for an event
    * @param event The event name (optional, if not provided, removes all listeners for all events)
    */
-  removeAllListeners(event?: string): void {
+  removeAllListeners(event?: keyof Events): void {
     if (event) {
       this.events.delete(event);
     } else {
       this.events.clear();
+      this.anyListeners = [];
     }
   }
-  
+
   /**
    * Get the number of listeners for an event
    * @param event The event name
    */
-  listenerCount(event: string): number {
+  listenerCount(event: keyof Events): number {
     if (!this.events.has(event)) {
       return 0;
     }
-    
+
     return this.events.get(event)!.length;
   }
-  
+
   /**
    * Get all registered event names
    */
-  eventNames(): string[] {
+  eventNames(): (keyof Events)[] {
     return Array.from(this.events.keys());
   }
-}
\ No newline at end of file
+
+  private getListeners<K extends keyof Events>(event: K): EventCallback<Events[K]>[] {
+    return (this.events.get(event) ?? []) as EventCallback<Events[K]>[];
+  }
+}
+
+/**
+ * Event bus shared by the bot core, strategies, executors and plugins
+ */
+export type BotEventBus = EventEmitter<BotEvents>;
@@ -0,0 +1,135 @@
+import { DatabaseService } from '../database/DatabaseService';
+import { BotEventBus } from './EventEmitter';
+import { ConfigError, InsufficientBalanceError } from '../errors';
+import { getPositionSize, initializePositionBalances } from '../trading/BalanceService';
+import { BotCache, QuoteProvider, SwapRequest, TradeEntry, TradeExecutor } from '../types';
+import { createTradeEntry, fromDecimal, toDecimal } from '../utils';
+
+/**
+ * Setup the virtual wallet from paperBalance and the position from the trade size strategy
+ * Without paperBalance the wallet holds the fixed trade size
+ * @throws ConfigError when paperBalance is missing with the percentage trade size
+ */
+export const setupVirtualBalances = async (
+  cache: BotCache,
+  quoteProvider: QuoteProvider
+): Promise<void> => {
+  const { tokens, tradeSize, paperBalance } = cache.config;
+
+  if (paperBalance === undefined && tradeSize.strategy === 'percentage') {
+    throw new ConfigError('Set paperBalance to paper trade with the percentage trade size');
+  }
+
+  const balance = fromDecimal(paperBalance ?? tradeSize.value, tokens.tokenA.decimals);
+  cache.walletBalance = { sol: 0, tokenA: balance, tokenB: 0 };
+  await initializePositionBalances(cache, quoteProvider, getPositionSize(cache));
+};
+
+/**
+ * PaperSwapExecutor simulates fills for paper trading
+ * No transaction is sent, the output amount is the quoted amount reduced by
+ * a random slippage within the route's slippage tolerance. Swaps spending
+ * more than the virtual balance of the input mint fail.
+ */
+export class PaperSwapExecutor implements TradeExecutor {
+  private cache: BotCache;
+  private events: BotEventBus;
+  private dbService: DatabaseService | null;
+  private random: () => number;
+  // Virtual balances keyed by mint (raw), tokenA and tokenB are mirrored in cache.walletBalance
+  private balances: Map<string, number> = new Map();
+
+  constructor(
+    cache: BotCache,
+    events: BotEventBus,
+    dbService: DatabaseService | null,
+    random: () => number = Math.random
+  ) {
+    this.cache = cache;
+    this.events = events;
+    this.dbService = dbService;
+    this.random = random;
+  }
+
+  /**
+   * Simulate a swap for the given route
+   * @param request The route and trade details
+   * @returns The recorded simulated trade entry
+   */
+  async executeSwap(request: SwapRequest): Promise<TradeEntry> {
+    const { route, inputToken, outputToken, buy, expectedProfit } = request;
+    const tradeEntry = createTradeEntry(request);
+
+    const balance = this.getBalance(inputToken.address);
+    if (Number(route.amount.toString()) > balance) {
+      const error = new InsufficientBalanceError(
+        `Insufficient ${inputToken.symbol} balance: ${toDecimal(balance, inputToken.decimals)} < ${tradeEntry.inAmount}`
+      );
+      tradeEntry.txStatus = 'failed';
+      tradeEntry.error = error.message;
+      tradeEntry.simulated = true;
+      this.cache.tradeCounter.failedbalancecheck++;
+      console.log(`Simulated swap ${inputToken.symbol} -> ${outputToken.symbol} failed: ${error.message}`);
+      this.events.emit('trade:failed', { trade: tradeEntry, error: error.message });
+      return tradeEntry;
+    }
+
+    // Draw the realized slippage from the quote's tolerance
+    const slippageBps = this.random() * route.slippageBps;
+    const slippageFactor = 1 - slippageBps / 10000;
+    const actualOutAmount = Math.floor(Number(route.outAmount.toString()) * slippageFactor);
+
+    tradeEntry.actualOutAmount = toDecimal(actualOutAmount, outputToken.decimals);
+    tradeEntry.actualProfit = ((1 + expectedProfit / 100) * slippageFactor - 1) * 100;
+    tradeEntry.txStatus = 'confirmed';
+    tradeEntry.simulated = true;
+
+    this.updateWalletBalance(request, actualOutAmount);
+    this.cache.tradeCounter[buy ? 'buy' : 'sell'].success++;
+    this.cache.tradeHistory.push(tradeEntry);
+    await this.dbService?.saveTradeEntry(tradeEntry);
+    this.events.emit('trade:confirmed', { trade: tradeEntry });
+
+    return tradeEntry;
+  }
+
+  /**
+   * Get the virtual balance of a mint (raw)
+   * tokenA and tokenB start from cache.walletBalance, other mints from zero
+   */
+  getBalance(mint: string): number {
+    const balance = this.balances.get(mint);
+    if (balance !== undefined) {
+      return balance;
+    }
+
+    const { tokenA, tokenB } = this.cache.config.tokens;
+    if (mint === tokenA.address) {
+      return this.cache.walletBalance.tokenA;
+    }
+    if (mint === tokenB.address) {
+      return this.cache.walletBalance.tokenB;
+    }
+    return 0;
+  }
+
+  /**
+   * Move the traded amounts between the virtual balances of the input and output mints
+   */
+  private updateWalletBalance(request: SwapRequest, outAmount: number): void {
+    const { tokenA, tokenB } = this.cache.config.tokens;
+    const input = request.inputToken.address;
+    const output = request.outputToken.address;
+    const previous = { ...this.cache.walletBalance };
+
+    this.balances.set(input, this.getBalance(input) - Number(request.route.amount.toString()));
+    this.balances.set(output, this.getBalance(output) + outAmount);
+
+    this.cache.walletBalance = {
+      ...previous,
+      tokenA: this.getBalance(tokenA.address),
+      tokenB: this.getBalance(tokenB.address),
+    };
+    this.events.emit('balance:changed', { previous, current: { ...this.cache.walletBalance } });
+  }
+}
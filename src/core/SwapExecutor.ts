@@ -0,0 +1,166 @@
+import { Keypair } from '@solana/web3.js';
+import { DatabaseService } from '../database/DatabaseService';
+import { RpcPool } from '../rpc/RpcPool';
+import { BalanceService } from '../trading/BalanceService';
+import { ConfirmationTracker } from '../trading/ConfirmationTracker';
+import { PriorityFeeManager } from '../trading/PriorityFeeManager';
+import { TokenAccountManager } from '../trading/TokenAccountManager';
+import {
+  BotCache,
+  SwapRequest,
+  SwapTransactionBuilder,
+  TradeEntry,
+  TradeExecutor,
+} from '../types';
+import { createTradeEntry } from '../utils';
+import { BotEventBus } from './EventEmitter';
+
+/**
+ * SwapExecutor builds, signs, sends and confirms swap transactions
+ * and records every attempt in the cache and the database
+ */
+export class SwapExecutor implements TradeExecutor {
+  private rpcPool: RpcPool;
+  private builder: SwapTransactionBuilder;
+  private wallet: Keypair;
+  private cache: BotCache;
+  private events: BotEventBus;
+  private dbService: DatabaseService;
+  private feeManager: PriorityFeeManager;
+  private balanceService: BalanceService;
+  private tokenAccounts: TokenAccountManager;
+  private confirmations: ConfirmationTracker;
+
+  constructor(
+    rpcPool: RpcPool,
+    builder: SwapTransactionBuilder,
+    wallet: Keypair,
+    cache: BotCache,
+    events: BotEventBus,
+    dbService: DatabaseService,
+    feeManager: PriorityFeeManager,
+    balanceService: BalanceService,
+    tokenAccounts: TokenAccountManager,
+    confirmations: ConfirmationTracker
+  ) {
+    this.rpcPool = rpcPool;
+    this.builder = builder;
+    this.wallet = wallet;
+    this.cache = cache;
+    this.events = events;
+    this.dbService = dbService;
+    this.feeManager = feeManager;
+    this.balanceService = balanceService;
+    this.tokenAccounts = tokenAccounts;
+    this.confirmations = confirmations;
+  }
+
+  /**
+   * Execute a swap for the given route
+   * @param request The route and trade details
+   * @returns The recorded trade entry
+   */
+  async executeSwap(request: SwapRequest): Promise<TradeEntry> {
+    const { route, inputToken, outputToken, buy } = request;
+    const side = buy ? 'buy' : 'sell';
+    const tradeEntry = createTradeEntry(request);
+
+    // Never dip into the SOL kept for fees
+    if (!this.tokenAccounts.hasSolReserve(request)) {
+      tradeEntry.txStatus = 'failed';
+      tradeEntry.error = 'Insufficient SOL left for fees';
+      this.cache.tradeCounter.failedbalancecheck++;
+      console.log(`Swap ${inputToken.symbol} -> ${outputToken.symbol} skipped: ${tradeEntry.error}`);
+      this.events.emit('trade:failed', { trade: tradeEntry, error: tradeEntry.error });
+      return tradeEntry;
+    }
+
+    this.cache.swappingRightNow = true;
+    this.cache.performanceOfTxStart = performance.now();
+
+    try {
+      const computeUnitPrice = await this.feeManager.getComputeUnitPrice(route);
+      const { transaction, lastValidBlockHeight, prioritizationFeeLamports } =
+        await this.builder.buildSwapTransaction(route, this.wallet.publicKey, {
+          computeUnitPriceMicroLamports: computeUnitPrice,
+          wrapAndUnwrapSol: this.cache.wrapUnwrapSOL,
+        });
+      transaction.sign([this.wallet]);
+      tradeEntry.priorityFee =
+        prioritizationFeeLamports ?? this.feeManager.estimateFeeLamports(computeUnitPrice);
+
+      const txid = await this.rpcPool.execute((connection) =>
+        connection.sendRawTransaction(transaction.serialize(), {
+          skipPreflight: true,
+          maxRetries: 2,
+        })
+      );
+      tradeEntry.txid = txid;
+      this.events.emit('trade:submitted', { request, txid });
+
+      const confirmation = await this.confirmations.confirm(txid, lastValidBlockHeight);
+      if (confirmation.status !== 'confirmed') {
+        tradeEntry.txStatus = confirmation.status;
+        throw new Error(confirmation.error);
+      }
+
+      tradeEntry.txStatus = 'confirmed';
+      this.cache.tradeCounter[side].success++;
+      this.feeManager.recordResult(true);
+    } catch (err) {
+      // Expired and unknown transactions keep their status
+      const unknown = tradeEntry.txStatus === 'unknown';
+      tradeEntry.txStatus = unknown || tradeEntry.txStatus === 'expired' ? tradeEntry.txStatus : 'failed';
+      tradeEntry.error = err instanceof Error ? err.message : String(err);
+      this.cache.tradeCounter[side].fail++;
+      if (unknown) {
+        // The transaction may have landed, it says nothing about the priority fee
+        console.error(
+          `Swap ${inputToken.symbol} -> ${outputToken.symbol} outcome unknown, check ${tradeEntry.txid} manually:`,
+          err
+        );
+      } else {
+        this.feeManager.recordResult(false);
+        console.error(`Swap ${inputToken.symbol} -> ${outputToken.symbol} failed:`, err);
+      }
+    } finally {
+      this.cache.swappingRightNow = false;
+    }
+
+    await this.recordTrade(tradeEntry);
+    if (tradeEntry.txStatus === 'confirmed') {
+      await this.confirmations.updateResult(tradeEntry, request);
+      this.events.emit('trade:confirmed', { trade: tradeEntry });
+    } else {
+      this.events.emit('trade:failed', { trade: tradeEntry, error: tradeEntry.error ?? 'Unknown error' });
+    }
+    await this.refreshBalances();
+
+    return tradeEntry;
+  }
+
+  /**
+   * Store the trade in history, failed trades only if configured
+   * Trades of unknown outcome are always stored so they can be checked
+   */
+  private async recordTrade(tradeEntry: TradeEntry): Promise<void> {
+    const stored = tradeEntry.txStatus === 'confirmed' || tradeEntry.txStatus === 'unknown';
+    if (!stored && !this.cache.config.storeFailedTxInHistory) {
+      return;
+    }
+
+    this.cache.tradeHistory.push(tradeEntry);
+    await this.dbService.saveTradeEntry(tradeEntry);
+  }
+
+  /**
+   * Reload the wallet balances after a trade
+   */
+  private async refreshBalances(): Promise<void> {
+    try {
+      await this.balanceService.refresh();
+    } catch (err) {
+      console.error('Error refreshing balances after swap:', err);
+    }
+  }
+}
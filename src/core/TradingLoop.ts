@@ -0,0 +1,138 @@
+import { BotError } from '../errors';
+import { BotCache, ErrorAction, StrategyContext } from '../types';
+import { BaseStrategy } from '../strategies/BaseStrategy';
+import { updateIterationsPerMin } from '../utils';
+import { ErrorPolicy } from './ErrorPolicy';
+
+/**
+ * Default delay between iterations when the config does not provide one (ms)
+ */
+const DEFAULT_MIN_INTERVAL = 100;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * TradingLoop repeatedly executes a strategy on a fixed interval
+ * Iterations are skipped while a swap is in progress or while the number of
+ * in-flight route computations has reached the cache queue throttle.
+ * Failed iterations are retried, skipped or pause the loop following the error policy.
+ */
+export class TradingLoop {
+  private strategy: BaseStrategy;
+  private context: StrategyContext;
+  private errorPolicy: ErrorPolicy;
+  private timer: NodeJS.Timeout | null = null;
+  private retrying = false;
+
+  constructor(strategy: BaseStrategy, context: StrategyContext) {
+    this.strategy = strategy;
+    this.context = context;
+    this.errorPolicy = new ErrorPolicy(context.config.errorPolicy);
+  }
+
+  /**
+   * Start (or resume) the loop
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const interval = this.context.config.minInterval || DEFAULT_MIN_INTERVAL;
+    this.timer = setInterval(() => this.tick(), interval);
+  }
+
+  /**
+   * Pause the loop, in-flight iterations are allowed to finish
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check if the loop is currently scheduled
+   */
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Run a single iteration if the queue allows it
+   */
+  async tick(): Promise<void> {
+    const { cache } = this.context;
+
+    if (!this.canExecute(cache)) {
+      return;
+    }
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        updateIterationsPerMin(cache);
+
+        try {
+          await this.strategy.execute(this.context);
+          this.errorPolicy.recordSuccess();
+          this.emitIterationEnd(true);
+          return;
+        } catch (err) {
+          const action = this.errorPolicy.resolve(err, attempt);
+          if (action !== 'retry') {
+            this.handleFailure(err, action);
+            this.emitIterationEnd(false);
+            return;
+          }
+
+          // Hold new iterations back while retrying
+          this.retrying = true;
+          await sleep(this.errorPolicy.getRetryDelay(attempt));
+          if (!this.isRunning()) {
+            return;
+          }
+        }
+      }
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  /**
+   * Report a failed iteration and pause the loop if the policy says so
+   */
+  private handleFailure(err: unknown, action: ErrorAction): void {
+    const message = err instanceof Error ? err.message : String(err);
+    this.context.events.emit('iteration:failed', { strategy: this.strategy.name, error: err, action });
+
+    if (action === 'pause') {
+      console.error(`${this.strategy.name} paused, start the bot again to resume:`, err);
+      this.stop();
+      this.context.events.emit('bot:stopped', { reason: 'paused', error: message });
+    } else if (err instanceof BotError) {
+      console.log(`${this.strategy.name} iteration skipped [${err.code}]: ${message}`);
+    } else {
+      console.error(`Error in ${this.strategy.name} iteration:`, err);
+    }
+  }
+
+  private emitIterationEnd(success: boolean): void {
+    this.context.events.emit('iteration:end', {
+      strategy: this.strategy.name,
+      iteration: this.context.cache.iteration,
+      success,
+    });
+  }
+
+  /**
+   * Check if a new iteration may be started
+   */
+  private canExecute(cache: BotCache): boolean {
+    return (
+      !this.retrying &&
+      !cache.swappingRightNow &&
+      Object.keys(cache.queue).length < cache.queueThrottle
+    );
+  }
+}
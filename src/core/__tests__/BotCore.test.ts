@@ -0,0 +1,52 @@
+import { ConfigError } from '../../errors';
+import { TradingConfig } from '../../types';
+import { BotCore } from '../BotCore';
+
+describe('BotCore', () => {
+  describe('updateConfig', () => {
+    let bot: BotCore;
+    let configManager: { loadConfig: jest.Mock; validateConfig: jest.Mock; saveConfig: jest.Mock };
+    let instance: { id: string; updateSettings: jest.Mock };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      // Keep the shutdown handlers off the test process
+      jest.spyOn(process, 'on').mockImplementation(() => process);
+
+      configManager = {
+        loadConfig: jest.fn(() => ({ minPercProfit: 1, slippage: 50 }) as TradingConfig),
+        validateConfig: jest.fn(() => true),
+        saveConfig: jest.fn(),
+      };
+      instance = { id: 'default', updateSettings: jest.fn() };
+
+      bot = new BotCore();
+      Object.assign(bot, { configManager, instances: new Map([[instance.id, instance]]) });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('saves the settings and applies them to the running instances', () => {
+      const config = bot.updateConfig({ slippage: 30 });
+
+      expect(config).toEqual({ minPercProfit: 1, slippage: 30 });
+      expect(configManager.saveConfig).toHaveBeenCalledWith(config);
+      expect(instance.updateSettings).toHaveBeenCalledWith({ minPercProfit: 1, slippage: 30 });
+    });
+
+    it.each([
+      [{ minPercProfit: '1' }, 'minPercProfit must be a number of at least 0'],
+      [{ minPercProfit: -0.5 }, 'minPercProfit must be a number of at least 0'],
+      [{ slippage: 12.5 }, 'slippage must be an integer from 0 to 10000 BPS'],
+      [{ slippage: 20000 }, 'slippage must be an integer from 0 to 10000 BPS'],
+      [{ slippage: null }, 'slippage must be an integer from 0 to 10000 BPS'],
+      [{ rpc: [] }, 'rpc cannot be changed while the bot runs, edit config.json and restart'],
+    ])('refuses %j', (changes, error) => {
+      expect(() => bot.updateConfig(changes as never)).toThrow(new ConfigError(error));
+      expect(configManager.saveConfig).not.toHaveBeenCalled();
+      expect(instance.updateSettings).not.toHaveBeenCalled();
+    });
+  });
+});
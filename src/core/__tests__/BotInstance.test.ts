@@ -0,0 +1,139 @@
+import { Keypair } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { DatabaseService } from '../../database/DatabaseService';
+import { InsufficientBalanceError } from '../../errors';
+import { PluginLoader } from '../../plugins/PluginLoader';
+import { RpcPool } from '../../rpc/RpcPool';
+import { BaseStrategy } from '../../strategies/BaseStrategy';
+import { BalanceBudget } from '../../trading/BalanceBudget';
+import { BotEvents, QuoteProvider, StrategyContext, Token, TradeEntry, TradingConfig } from '../../types';
+import { BotInstance, SharedServices } from '../BotInstance';
+import { EventEmitter } from '../EventEmitter';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+class TestStrategy extends BaseStrategy {
+  execute = jest.fn(async (_context: StrategyContext): Promise<void> => undefined);
+  cleanup = jest.fn(async (): Promise<void> => undefined);
+
+  constructor() {
+    super('pingpong', 'Test strategy');
+  }
+}
+
+const createConfig = (paperBalance: number): TradingConfig =>
+  ({
+    tokens: { tokenA: USDC, tokenB: SOL },
+    tradingStrategy: 'pingpong',
+    tradeSize: { strategy: 'fixed', value: 100 },
+    paperTrading: true,
+    paperBalance,
+    slippage: 50,
+    minInterval: 1000,
+  }) as TradingConfig;
+
+describe('BotInstance', () => {
+  let services: SharedServices;
+  let strategy: TestStrategy;
+
+  const createInstance = (id: string, paperBalance = 1000) =>
+    new BotInstance(id, createConfig(paperBalance), strategy, services);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    strategy = new TestStrategy();
+    // 100 USDC for 1 SOL
+    const jupiter = {
+      getQuote: jest.fn(async ({ amount }) => ({ outAmount: JSBI.multiply(amount, JSBI.BigInt(10)) })),
+    } as unknown as QuoteProvider;
+    services = {
+      rpcPool: { addCache: jest.fn() } as unknown as RpcPool,
+      wallet: Keypair.generate(),
+      jupiter,
+      dbService: { isPgConnected: () => false } as unknown as DatabaseService,
+      pluginLoader: { attach: jest.fn() } as unknown as PluginLoader,
+      budget: new BalanceBudget({ [USDC.address]: 150 }),
+      events: new EventEmitter<BotEvents>(),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('sets up the paper balances and reserves the position in the budget', async () => {
+    const instance = createInstance('sol');
+
+    await instance.initialize();
+
+    expect(services.rpcPool.addCache).toHaveBeenCalledWith(instance.cache);
+    expect(instance.cache.initialBalance).toEqual({ tokenA: 100e6, tokenB: 1e9 });
+    expect(services.budget.getReserved(USDC.address)).toBe(100e6);
+  });
+
+  it('refuses a position the other instances left no budget for', async () => {
+    await createInstance('a').initialize();
+
+    await expect(createInstance('b').initialize()).rejects.toThrow(InsufficientBalanceError);
+  });
+
+  it('runs the strategy with its own cache and bus until stopped', async () => {
+    jest.useFakeTimers();
+    const instance = createInstance('sol');
+    await instance.initialize();
+
+    await instance.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    instance.stop();
+
+    expect(strategy.execute).toHaveBeenCalledTimes(1);
+    const [context] = strategy.execute.mock.calls[0];
+    expect(context.cache).toBe(instance.cache);
+    expect(context.events).toBe(instance.events);
+    expect(services.pluginLoader.attach).toHaveBeenCalledWith(expect.objectContaining({ cache: instance.cache }));
+    expect(instance.getStatus()).toMatchObject({ id: 'sol', strategy: 'pingpong', pair: 'USDC/SOL', running: false });
+  });
+
+  it('forwards its events to the bot bus, except the shutdown', async () => {
+    const forwarded = jest.fn();
+    services.events.onAny(forwarded);
+    const instance = createInstance('sol');
+    await instance.initialize();
+    await instance.start();
+
+    await instance.shutdown();
+
+    expect(forwarded.mock.calls).toEqual([['bot:stopped', { reason: 'stopped' }]]);
+    expect(strategy.cleanup).toHaveBeenCalled();
+    expect(services.budget.getReserved(USDC.address)).toBe(0);
+  });
+
+  it('applies changed settings to the running strategy', async () => {
+    jest.useFakeTimers();
+    const instance = createInstance('sol');
+    instance.config.adaptiveSlippage = 1;
+    await instance.initialize();
+    await instance.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    instance.stop();
+    const [{ slippage }] = strategy.execute.mock.calls[0];
+    slippage.recordTrade({ txStatus: 'failed', error: 'Slippage tolerance exceeded' } as TradeEntry);
+
+    instance.updateSettings({ minPercProfit: 2, slippage: 30 });
+
+    expect(instance.cache.config).toMatchObject({ minPercProfit: 2, slippage: 30 });
+    expect(slippage.getSlippageBps()).toBe(30);
+  });
+
+  it('turns trading off and on', () => {
+    const instance = createInstance('sol');
+
+    instance.setTradingEnabled(false, 'maintenance');
+    expect(instance.getStatus()).toMatchObject({ tradingEnabled: false, tradingDisabledReason: 'maintenance' });
+
+    instance.setTradingEnabled(true);
+    expect(instance.getStatus()).toMatchObject({ tradingEnabled: true, tradingDisabledReason: undefined });
+  });
+});
@@ -0,0 +1,60 @@
+import { ConfigError, InsufficientBalanceError, NoRoutesError, QuoteError, RpcError } from '../../errors';
+import { ErrorPolicy } from '../ErrorPolicy';
+
+describe('ErrorPolicy', () => {
+  it('retries retryable errors until the retries run out', () => {
+    const policy = new ErrorPolicy({ maxRetries: 2 });
+    const err = new RpcError('timeout');
+
+    expect(policy.resolve(err, 0)).toBe('retry');
+    expect(policy.resolve(err, 1)).toBe('retry');
+    expect(policy.resolve(err, 2)).toBe('skip');
+  });
+
+  it('skips missing routes without counting them', () => {
+    const policy = new ErrorPolicy({ maxConsecutiveErrors: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      expect(policy.resolve(new NoRoutesError(), 0)).toBe('skip');
+    }
+  });
+
+  it('pauses on errors that need attention', () => {
+    const policy = new ErrorPolicy();
+
+    expect(policy.resolve(new InsufficientBalanceError('not enough USDC'), 0)).toBe('pause');
+    expect(policy.resolve(new ConfigError('no tokens'), 0)).toBe('pause');
+  });
+
+  it('pauses after too many unrecovered errors in a row', () => {
+    const policy = new ErrorPolicy({ maxConsecutiveErrors: 3 });
+    const err = new Error('unexpected');
+
+    expect(policy.resolve(err, 0)).toBe('skip');
+    expect(policy.resolve(err, 0)).toBe('skip');
+    expect(policy.resolve(err, 0)).toBe('pause');
+  });
+
+  it('resets the error count after a success', () => {
+    const policy = new ErrorPolicy({ maxConsecutiveErrors: 2 });
+    const err = new Error('unexpected');
+
+    expect(policy.resolve(err, 0)).toBe('skip');
+    policy.recordSuccess();
+    expect(policy.resolve(err, 0)).toBe('skip');
+  });
+
+  it('uses the configured action of an error code', () => {
+    const policy = new ErrorPolicy({ actions: { QUOTE_ERROR: 'pause', NO_ROUTES: 'retry' } });
+
+    expect(policy.resolve(new QuoteError('bad response'), 0)).toBe('pause');
+    expect(policy.resolve(new NoRoutesError(), 0)).toBe('retry');
+  });
+
+  it('doubles the retry delay with every attempt', () => {
+    const policy = new ErrorPolicy({ retryDelay: 100 });
+
+    expect(policy.getRetryDelay(0)).toBe(100);
+    expect(policy.getRetryDelay(2)).toBe(400);
+  });
+});
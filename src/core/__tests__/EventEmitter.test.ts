@@ -0,0 +1,113 @@
+import { EventEmitter } from '../EventEmitter';
+
+interface TestEvents {
+  tick: { count: number };
+  done: { ok: boolean };
+}
+
+describe('EventEmitter', () => {
+  let events: EventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    events = new EventEmitter<TestEvents>();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('calls the listeners of an event with its payload', () => {
+    const tick = jest.fn();
+    const done = jest.fn();
+    events.on('tick', tick);
+    events.on('done', done);
+
+    events.emit('tick', { count: 1 });
+
+    expect(tick).toHaveBeenCalledWith({ count: 1 });
+    expect(done).not.toHaveBeenCalled();
+  });
+
+  it('removes a listener with the returned function or off', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const removeFirst = events.on('tick', first);
+    events.on('tick', second);
+
+    removeFirst();
+    events.off('tick', second);
+    events.emit('tick', { count: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(events.listenerCount('tick')).toBe(0);
+    expect(events.eventNames()).toEqual([]);
+  });
+
+  it('calls a once listener a single time', () => {
+    const tick = jest.fn();
+    events.once('tick', tick);
+
+    events.emit('tick', { count: 1 });
+    events.emit('tick', { count: 2 });
+
+    expect(tick).toHaveBeenCalledTimes(1);
+    expect(tick).toHaveBeenCalledWith({ count: 1 });
+  });
+
+  it('waits for async listeners with emitAsync', async () => {
+    const calls: string[] = [];
+    events.on('done', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push('slow');
+    });
+
+    await events.emitAsync('done', { ok: true });
+
+    expect(calls).toEqual(['slow']);
+  });
+
+  it('keeps errors of a listener away from the emitter and the other listeners', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const other = jest.fn();
+    events.on('tick', () => {
+      throw new Error('listener failed');
+    });
+    events.on('tick', async () => {
+      throw new Error('async listener failed');
+    });
+    events.on('tick', other);
+
+    await expect(events.emitAsync('tick', { count: 1 })).resolves.toBeUndefined();
+
+    expect(other).toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledTimes(2);
+  });
+
+  it('forwards every event to onAny listeners until removed', () => {
+    const any = jest.fn();
+    const remove = events.onAny(any);
+
+    events.emit('tick', { count: 1 });
+    events.emit('done', { ok: true });
+    remove();
+    events.emit('tick', { count: 2 });
+
+    expect(any.mock.calls).toEqual([
+      ['tick', { count: 1 }],
+      ['done', { ok: true }],
+    ]);
+  });
+
+  it('removes the listeners of one or every event', () => {
+    events.on('tick', jest.fn());
+    events.on('done', jest.fn());
+    events.onAny(jest.fn());
+
+    events.removeAllListeners('tick');
+    expect(events.eventNames()).toEqual(['done']);
+
+    events.removeAllListeners();
+    expect(events.eventNames()).toEqual([]);
+  });
+});
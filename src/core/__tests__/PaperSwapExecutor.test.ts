@@ -0,0 +1,141 @@
+import JSBI from 'jsbi';
+import { ConfigError, InsufficientBalanceError } from '../../errors';
+import { BotEvents, QuoteProvider, SwapRequest, Token, TradingConfig } from '../../types';
+import { createCache } from '../cache';
+import { EventEmitter } from '../EventEmitter';
+import { PaperSwapExecutor, setupVirtualBalances } from '../PaperSwapExecutor';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+const BONK: Token = { symbol: 'BONK', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 };
+
+const tokens = { tokenA: USDC, tokenB: SOL };
+
+// Swap of raw amounts with a 0.5% slippage tolerance
+const request = (inputToken: Token, outputToken: Token, amount: number, outAmount: number): SwapRequest => ({
+  route: {
+    inputMint: inputToken.address,
+    outputMint: outputToken.address,
+    amount: JSBI.BigInt(amount),
+    outAmount: JSBI.BigInt(outAmount),
+    otherAmountThreshold: JSBI.BigInt(Math.floor(outAmount * 0.995)),
+    swapMode: 'ExactIn',
+    priceImpactPct: 0,
+    routePlan: [],
+    slippageBps: 50,
+  },
+  inputToken,
+  outputToken,
+  buy: inputToken === USDC,
+  expectedProfit: 1,
+});
+
+// Quotes 100 USDC for 1 SOL
+const quoteProvider = {
+  getQuote: jest.fn(async ({ amount }) => {
+    const raw = Number(amount.toString());
+    return request(USDC, SOL, raw, raw * 10).route;
+  }),
+} as unknown as QuoteProvider;
+
+const setup = async (tradeSize: TradingConfig['tradeSize'], paperBalance?: number) => {
+  const cache = createCache({ tokens, tradeSize, slippage: 50, paperBalance } as TradingConfig);
+  await setupVirtualBalances(cache, quoteProvider);
+  return cache;
+};
+
+const createPaperCache = () => {
+  const cache = createCache({ tokens } as TradingConfig);
+  cache.walletBalance = { sol: 0, tokenA: 1000e6, tokenB: 0 };
+  return cache;
+};
+
+describe('setupVirtualBalances', () => {
+  it('holds the fixed trade size without paperBalance', async () => {
+    const cache = await setup({ strategy: 'fixed', value: 100 });
+
+    expect(cache.walletBalance).toEqual({ sol: 0, tokenA: 100e6, tokenB: 0 });
+    expect(cache.initialBalance).toEqual({ tokenA: 100e6, tokenB: 1e9 });
+    expect(cache.currentBalance.tokenA).toBe(100e6);
+  });
+
+  it('takes the position as a percentage of paperBalance', async () => {
+    const cache = await setup({ strategy: 'percentage', value: 25 }, 1000);
+
+    expect(cache.walletBalance.tokenA).toBe(1000e6);
+    expect(cache.initialBalance.tokenA).toBe(250e6);
+  });
+
+  it('takes a fixed position out of paperBalance', async () => {
+    const cache = await setup({ strategy: 'fixed', value: 100 }, 1000);
+
+    expect(cache.walletBalance.tokenA).toBe(1000e6);
+    expect(cache.initialBalance.tokenA).toBe(100e6);
+  });
+
+  it('needs paperBalance with the percentage trade size', async () => {
+    await expect(setup({ strategy: 'percentage', value: 25 })).rejects.toThrow(ConfigError);
+  });
+
+  it('refuses a position above paperBalance', async () => {
+    await expect(setup({ strategy: 'fixed', value: 100 }, 50)).rejects.toThrow(InsufficientBalanceError);
+  });
+});
+
+describe('PaperSwapExecutor', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('fills at the quote minus the drawn slippage', async () => {
+    const cache = createPaperCache();
+    const executor = new PaperSwapExecutor(cache, new EventEmitter<BotEvents>(), null, () => 0.5);
+
+    const trade = await executor.executeSwap(request(USDC, SOL, 100e6, 1e9));
+
+    expect(trade).toMatchObject({ txStatus: 'confirmed', simulated: true, actualOutAmount: 0.9975 });
+    expect(cache.walletBalance).toEqual({ sol: 0, tokenA: 900e6, tokenB: 0.9975e9 });
+    expect(cache.tradeHistory).toEqual([trade]);
+    expect(cache.tradeCounter.buy.success).toBe(1);
+  });
+
+  it('credits the legs of a cycle to their own mints', async () => {
+    const cache = createPaperCache();
+    const events = new EventEmitter<BotEvents>();
+    const changes: BotEvents['balance:changed'][] = [];
+    events.on('balance:changed', (change) => {
+      changes.push(change);
+    });
+    const executor = new PaperSwapExecutor(cache, events, null, () => 0);
+
+    await executor.executeSwap(request(USDC, BONK, 100e6, 500_000e5));
+    expect(executor.getBalance(BONK.address)).toBe(500_000e5);
+    expect(cache.walletBalance).toEqual({ sol: 0, tokenA: 900e6, tokenB: 0 });
+
+    await executor.executeSwap(request(BONK, SOL, 500_000e5, 1e9));
+    expect(executor.getBalance(BONK.address)).toBe(0);
+    expect(cache.walletBalance.tokenB).toBe(1e9);
+
+    await executor.executeSwap(request(SOL, USDC, 1e9, 101e6));
+    expect(cache.walletBalance).toEqual({ sol: 0, tokenA: 1001e6, tokenB: 0 });
+    expect(changes).toHaveLength(3);
+    expect(changes[0].previous.tokenA).toBe(1000e6);
+  });
+
+  it('fails swaps above the virtual balance of the input mint', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const cache = createPaperCache();
+    const events = new EventEmitter<BotEvents>();
+    const failed = jest.fn();
+    events.on('trade:failed', failed);
+    const executor = new PaperSwapExecutor(cache, events, null, () => 0);
+
+    const trade = await executor.executeSwap(request(SOL, USDC, 1e9, 100e6));
+
+    expect(trade).toMatchObject({ txStatus: 'failed', error: 'Insufficient SOL balance: 0 < 1', simulated: true });
+    expect(failed).toHaveBeenCalledWith({ trade, error: trade.error });
+    expect(cache.walletBalance).toEqual({ sol: 0, tokenA: 1000e6, tokenB: 0 });
+    expect(cache.tradeCounter.failedbalancecheck).toBe(1);
+    expect(cache.tradeHistory).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { DatabaseService } from '../../database/DatabaseService';
+import { RpcPool } from '../../rpc/RpcPool';
+import { BalanceService } from '../../trading/BalanceService';
+import { ConfirmationTracker } from '../../trading/ConfirmationTracker';
+import { PriorityFeeManager } from '../../trading/PriorityFeeManager';
+import { TokenAccountManager } from '../../trading/TokenAccountManager';
+import { BotCache, BotEvents, SwapRequest, SwapTransactionBuilder, Token, TradingConfig } from '../../types';
+import { createCache } from '../cache';
+import { EventEmitter } from '../EventEmitter';
+import { SwapExecutor } from '../SwapExecutor';
+
+const TXID = '5j7s6NiJS3JAkvgkoc18WVAsiSaci2pxB2A6ueCJP4tprA2TFg9wSyTLeYouxPBJEMzJinENTkpA52YStRW5Dia7';
+const LAST_VALID_BLOCK_HEIGHT = 1000;
+const FEE = 5000;
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+// 100 USDC for 1 SOL, the wallet receives native SOL
+const request = (): SwapRequest => ({
+  route: {
+    inputMint: USDC.address,
+    outputMint: SOL.address,
+    amount: JSBI.BigInt(100e6),
+    outAmount: JSBI.BigInt(1e9),
+    otherAmountThreshold: JSBI.BigInt(0.995e9),
+    swapMode: 'ExactIn',
+    priceImpactPct: 0,
+    routePlan: [],
+    slippageBps: 50,
+  },
+  inputToken: USDC,
+  outputToken: SOL,
+  buy: true,
+  expectedProfit: 1,
+});
+
+describe('SwapExecutor', () => {
+  let cache: BotCache;
+  let events: EventEmitter<BotEvents>;
+  let wallet: Keypair;
+  let connection: {
+    sendRawTransaction: jest.Mock;
+    getSignatureStatuses: jest.Mock;
+    getBlockHeight: jest.Mock;
+    getTransaction: jest.Mock;
+  };
+  let builder: { buildSwapTransaction: jest.Mock };
+  let transaction: { sign: jest.Mock; serialize: jest.Mock };
+  let dbService: { saveTradeEntry: jest.Mock; updateTradeResult: jest.Mock };
+  let feeManager: { getComputeUnitPrice: jest.Mock; estimateFeeLamports: jest.Mock; recordResult: jest.Mock };
+  let balanceService: { refresh: jest.Mock };
+  let executor: SwapExecutor;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const config = { tokens: { tokenA: USDC, tokenB: SOL }, slippage: 50, solReserve: 0.05 } as TradingConfig;
+    cache = createCache(config);
+    cache.wrapUnwrapSOL = true;
+    cache.walletBalance = { sol: 1e9, tokenA: 1000e6, tokenB: 0 };
+    events = new EventEmitter<BotEvents>();
+    wallet = Keypair.generate();
+
+    connection = {
+      sendRawTransaction: jest.fn().mockResolvedValue(TXID),
+      getSignatureStatuses: jest.fn().mockResolvedValue({ value: [{ confirmationStatus: 'confirmed', err: null }] }),
+      getBlockHeight: jest.fn().mockResolvedValue(LAST_VALID_BLOCK_HEIGHT - 10),
+      getTransaction: jest.fn().mockResolvedValue({
+        // Received 0.99 SOL and paid the fee
+        meta: { fee: FEE, preBalances: [1e9], postBalances: [1e9 + 0.99e9 - FEE], preTokenBalances: [], postTokenBalances: [] },
+      }),
+    };
+    const rpcPool = {
+      execute: <T>(send: (connection: Connection) => Promise<T>) => send(connection as unknown as Connection),
+    } as unknown as RpcPool;
+
+    transaction = { sign: jest.fn(), serialize: jest.fn().mockReturnValue(new Uint8Array([1, 2, 3])) };
+    builder = {
+      buildSwapTransaction: jest.fn().mockResolvedValue({
+        transaction: transaction as unknown as VersionedTransaction,
+        lastValidBlockHeight: LAST_VALID_BLOCK_HEIGHT,
+        prioritizationFeeLamports: 1234,
+      }),
+    };
+    dbService = { saveTradeEntry: jest.fn(), updateTradeResult: jest.fn() };
+    feeManager = {
+      getComputeUnitPrice: jest.fn().mockResolvedValue(10000),
+      estimateFeeLamports: jest.fn().mockReturnValue(2000),
+      recordResult: jest.fn(),
+    };
+    balanceService = { refresh: jest.fn() };
+
+    executor = new SwapExecutor(
+      rpcPool,
+      builder as SwapTransactionBuilder,
+      wallet,
+      cache,
+      events,
+      dbService as unknown as DatabaseService,
+      feeManager as unknown as PriorityFeeManager,
+      balanceService as unknown as BalanceService,
+      new TokenAccountManager(rpcPool, wallet, cache),
+      new ConfirmationTracker(rpcPool, wallet.publicKey, cache, dbService as unknown as DatabaseService, 0)
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends, confirms and records a swap', async () => {
+    const submitted = jest.fn();
+    const confirmed = jest.fn();
+    events.on('trade:submitted', submitted);
+    events.on('trade:confirmed', confirmed);
+
+    const trade = await executor.executeSwap(request());
+
+    expect(builder.buildSwapTransaction).toHaveBeenCalledWith(expect.anything(), wallet.publicKey, {
+      computeUnitPriceMicroLamports: 10000,
+      wrapAndUnwrapSol: true,
+    });
+    expect(transaction.sign).toHaveBeenCalledWith([wallet]);
+    expect(connection.sendRawTransaction).toHaveBeenCalledWith(new Uint8Array([1, 2, 3]), {
+      skipPreflight: true,
+      maxRetries: 2,
+    });
+
+    expect(trade).toMatchObject({ txid: TXID, txStatus: 'confirmed', priorityFee: 1234, inAmount: 100, expectedOutAmount: 1 });
+    expect(trade.actualOutAmount).toBeCloseTo(0.99);
+    expect(trade.actualProfit).toBeCloseTo((1.01 * 0.99 - 1) * 100);
+
+    expect(cache.tradeCounter.buy.success).toBe(1);
+    expect(cache.tradeHistory).toEqual([trade]);
+    expect(cache.swappingRightNow).toBe(false);
+    expect(dbService.saveTradeEntry).toHaveBeenCalledWith(trade);
+    expect(dbService.updateTradeResult).toHaveBeenCalledWith(TXID, trade);
+    expect(feeManager.recordResult).toHaveBeenCalledWith(true);
+    expect(balanceService.refresh).toHaveBeenCalled();
+    expect(submitted).toHaveBeenCalledWith({ request: expect.anything(), txid: TXID });
+    expect(confirmed).toHaveBeenCalledWith({ trade });
+  });
+
+  it('marks a swap failed on chain as failed', async () => {
+    connection.getSignatureStatuses.mockResolvedValue({
+      value: [{ confirmationStatus: 'processed', err: { InstructionError: [3, { Custom: 6001 }] } }],
+    });
+    const failed = jest.fn();
+    events.on('trade:failed', failed);
+
+    const trade = await executor.executeSwap(request());
+
+    expect(trade.txStatus).toBe('failed');
+    expect(trade.error).toMatch(/Transaction failed: .*6001/);
+    expect(trade.actualOutAmount).toBeUndefined();
+    expect(cache.tradeCounter.buy.fail).toBe(1);
+    expect(cache.tradeHistory).toEqual([]);
+    expect(dbService.saveTradeEntry).not.toHaveBeenCalled();
+    expect(connection.getTransaction).not.toHaveBeenCalled();
+    expect(feeManager.recordResult).toHaveBeenCalledWith(false);
+    expect(balanceService.refresh).toHaveBeenCalled();
+    expect(failed).toHaveBeenCalledWith({ trade, error: trade.error });
+  });
+
+  it('marks a swap not confirmed before its blockhash expired as expired', async () => {
+    connection.getSignatureStatuses.mockResolvedValue({ value: [null] });
+    connection.getBlockHeight.mockResolvedValue(LAST_VALID_BLOCK_HEIGHT + 1);
+
+    const trade = await executor.executeSwap(request());
+
+    expect(trade.txStatus).toBe('expired');
+    expect(trade.error).toMatch(/Blockhash expired/);
+    expect(cache.tradeCounter.buy.fail).toBe(1);
+  });
+
+  it('marks a swap whose status could not be polled as unknown', async () => {
+    connection.getSignatureStatuses.mockRejectedValue(new Error('503 Service Unavailable'));
+
+    const trade = await executor.executeSwap(request());
+
+    expect(trade).toMatchObject({ txid: TXID, txStatus: 'unknown' });
+    expect(trade.error).toMatch(/Could not confirm transaction .*503 Service Unavailable/);
+    expect(cache.tradeHistory).toEqual([trade]);
+    expect(dbService.saveTradeEntry).toHaveBeenCalledWith(trade);
+    expect(feeManager.recordResult).not.toHaveBeenCalled();
+  });
+
+  it('records a swap that could not be sent when failed trades are stored', async () => {
+    cache.config.storeFailedTxInHistory = true;
+    connection.sendRawTransaction.mockRejectedValue(new Error('429 Too Many Requests'));
+
+    const trade = await executor.executeSwap({ ...request(), buy: false });
+
+    expect(trade).toMatchObject({ txStatus: 'failed', error: '429 Too Many Requests' });
+    expect(trade.txid).toBeUndefined();
+    expect(cache.tradeCounter.sell.fail).toBe(1);
+    expect(cache.tradeHistory).toEqual([trade]);
+    expect(dbService.saveTradeEntry).toHaveBeenCalledWith(trade);
+    expect(cache.swappingRightNow).toBe(false);
+  });
+
+  it('skips a swap that would spend the SOL kept for fees', async () => {
+    cache.walletBalance.sol = 0.01e9;
+    const failed = jest.fn();
+    events.on('trade:failed', failed);
+
+    const trade = await executor.executeSwap(request());
+
+    expect(trade).toMatchObject({ txStatus: 'failed', error: 'Insufficient SOL left for fees' });
+    expect(cache.tradeCounter.failedbalancecheck).toBe(1);
+    expect(builder.buildSwapTransaction).not.toHaveBeenCalled();
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+    expect(failed).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { InsufficientBalanceError, RpcError } from '../../errors';
+import { BaseStrategy } from '../../strategies/BaseStrategy';
+import { BotEvents, StrategyContext, TradingConfig } from '../../types';
+import { createCache } from '../cache';
+import { EventEmitter } from '../EventEmitter';
+import { TradingLoop } from '../TradingLoop';
+
+class TestStrategy extends BaseStrategy {
+  execute = jest.fn(async (_context: StrategyContext): Promise<void> => undefined);
+
+  constructor() {
+    super('pingpong', 'Test strategy');
+  }
+}
+
+describe('TradingLoop', () => {
+  let strategy: TestStrategy;
+  let context: StrategyContext;
+  let ends: BotEvents['iteration:end'][];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const config = { minInterval: 1000, errorPolicy: { retryDelay: 0 } } as TradingConfig;
+    const events = new EventEmitter<BotEvents>();
+    context = { config, cache: createCache(config), events } as StrategyContext;
+    strategy = new TestStrategy();
+
+    ends = [];
+    events.on('iteration:end', (payload) => {
+      ends.push(payload);
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('executes the strategy on every interval until stopped', async () => {
+    jest.useFakeTimers();
+    const loop = new TradingLoop(strategy, context);
+
+    loop.start();
+    loop.start();
+    expect(loop.isRunning()).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(strategy.execute).toHaveBeenCalledTimes(3);
+    expect(strategy.execute).toHaveBeenCalledWith(context);
+
+    loop.stop();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(strategy.execute).toHaveBeenCalledTimes(3);
+    expect(loop.isRunning()).toBe(false);
+  });
+
+  it('reports the end of every iteration', async () => {
+    const loop = new TradingLoop(strategy, context);
+    context.cache.iteration = 7;
+
+    await loop.tick();
+
+    expect(ends).toEqual([{ strategy: 'pingpong', iteration: 7, success: true }]);
+  });
+
+  it('skips iterations while a swap is in progress or the queue is full', async () => {
+    const loop = new TradingLoop(strategy, context);
+
+    context.cache.swappingRightNow = true;
+    await loop.tick();
+
+    context.cache.swappingRightNow = false;
+    context.cache.queue[1] = -1;
+    await loop.tick();
+
+    expect(strategy.execute).not.toHaveBeenCalled();
+    expect(ends).toEqual([]);
+  });
+
+  it('retries an iteration failing with a retryable error', async () => {
+    const loop = new TradingLoop(strategy, context);
+    loop.start();
+    strategy.execute.mockRejectedValueOnce(new RpcError('timeout'));
+
+    await loop.tick();
+    loop.stop();
+
+    expect(strategy.execute).toHaveBeenCalledTimes(2);
+    expect(ends).toEqual([expect.objectContaining({ success: true })]);
+  });
+
+  it('skips an iteration failing with an unexpected error', async () => {
+    const loop = new TradingLoop(strategy, context);
+    const failed = jest.fn();
+    context.events.on('iteration:failed', failed);
+    const error = new Error('unexpected');
+    strategy.execute.mockRejectedValueOnce(error);
+
+    await loop.tick();
+
+    expect(strategy.execute).toHaveBeenCalledTimes(1);
+    expect(failed).toHaveBeenCalledWith({ strategy: 'pingpong', error, action: 'skip' });
+    expect(ends).toEqual([expect.objectContaining({ success: false })]);
+  });
+
+  it('pauses the loop on errors that need attention', async () => {
+    const loop = new TradingLoop(strategy, context);
+    const stopped = jest.fn();
+    context.events.on('bot:stopped', stopped);
+    strategy.execute.mockRejectedValueOnce(new InsufficientBalanceError('not enough USDC'));
+
+    loop.start();
+    await loop.tick();
+
+    expect(loop.isRunning()).toBe(false);
+    expect(stopped).toHaveBeenCalledWith({ reason: 'paused', error: 'not enough USDC' });
+  });
+});
@@ -1,6 +1,6 @@
 import { Pool, PoolClient } from 'pg';
 import { createClient } from 'redis';
-import { TradeEntry } from '../types';
+import { Plugin, PluginSettings, QuoteSnapshot, TradeEntry } from '../types';
 
 /**
  * DatabaseService provides database access functionality for the bot
@@ -138,8 +138,9 @@ export class DatabaseService {
         `INSERT INTO trades (
           date, buy, input_token, output_token, in_amount, 
           expected_out_amount, actual_out_amount, expected_profit, 
-          actual_profit, slippage, txid, tx_status, error
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+          actual_profit, slippage, txid, tx_status, error, simulated,
+          priority_fee
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
         [
           trade.date, 
           trade.buy, 
@@ -153,7 +154,9 @@ export class DatabaseService {
           trade.slippage, 
           trade.txid || null, 
           trade.txStatus || null,
-          trade.error || null
+          trade.error || null,
+          trade.simulated || false,
+          trade.priorityFee ?? null
         ]
       );
     } catch (err) {
@@ -163,6 +166,36 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Update the status and realized output of a stored trade by txid
+   */
+  async updateTradeResult(txid: string, trade: TradeEntry): Promise<void> {
+    if (!this.pgPool) {
+      return;
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return;
+    
+    try {
+      await client.query(
+        `UPDATE trades SET actual_out_amount = $2, actual_profit = $3, tx_status = $4, error = $5
+         WHERE txid = $1`,
+        [
+          txid,
+          trade.actualOutAmount ?? null,
+          trade.actualProfit ?? null,
+          trade.txStatus || null,
+          trade.error || null
+        ]
+      );
+    } catch (err) {
+      console.error('Error updating trade result in database:', err);
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Get recent trade history from the database
    */
@@ -194,7 +227,9 @@ export class DatabaseService {
         slippage: parseFloat(row.slippage),
         txid: row.txid,
         txStatus: row.tx_status,
-        error: row.error
+        error: row.error,
+        simulated: row.simulated,
+        priorityFee: row.priority_fee ? parseInt(row.priority_fee) : undefined
       }));
     } catch (err) {
       console.error('Error getting trade history from database:', err);
@@ -203,4 +238,192 @@ export class DatabaseService {
       client.release();
     }
   }
+
+  /**
+   * Save a recorded quote snapshot to the database
+   */
+  async saveQuoteSnapshot(snapshot: QuoteSnapshot): Promise<void> {
+    if (!this.pgPool) {
+      console.warn('PostgreSQL not connected, skipping save operation');
+      return;
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return;
+    
+    try {
+      await client.query(
+        `INSERT INTO quote_snapshots (
+          recorded_at, input_mint, output_mint, in_amount, out_amount,
+          price_impact_pct, route_plan
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          new Date(snapshot.timestamp),
+          snapshot.inputMint,
+          snapshot.outputMint,
+          snapshot.inAmount,
+          snapshot.outAmount,
+          snapshot.priceImpactPct ?? null,
+          snapshot.routePlan ? JSON.stringify(snapshot.routePlan) : null
+        ]
+      );
+    } catch (err) {
+      console.error('Error saving quote snapshot to database:', err);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get recorded quote snapshots within a time range
+   */
+  async getQuoteSnapshots(from: Date, to: Date): Promise<QuoteSnapshot[]> {
+    if (!this.pgPool) {
+      console.warn('PostgreSQL not connected, returning no snapshots');
+      return [];
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return [];
+    
+    try {
+      const result = await client.query(
+        `SELECT * FROM quote_snapshots
+         WHERE recorded_at BETWEEN $1 AND $2
+         ORDER BY recorded_at ASC`,
+        [from, to]
+      );
+      
+      return result.rows.map(row => ({
+        timestamp: new Date(row.recorded_at).getTime(),
+        inputMint: row.input_mint,
+        outputMint: row.output_mint,
+        inAmount: row.in_amount,
+        outAmount: row.out_amount,
+        priceImpactPct: row.price_impact_pct ? parseFloat(row.price_impact_pct) : undefined,
+        routePlan: row.route_plan || undefined
+      }));
+    } catch (err) {
+      console.error('Error getting quote snapshots from database:', err);
+      return [];
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the stored enabled state and config of every plugin, keyed by plugin id
+   */
+  async getPluginSettings(): Promise<Record<string, PluginSettings>> {
+    if (!this.pgPool) {
+      console.warn('PostgreSQL not connected, returning no plugin settings');
+      return {};
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return {};
+    
+    try {
+      const result = await client.query('SELECT id, enabled, config FROM plugins');
+      
+      return Object.fromEntries(
+        result.rows.map(row => [row.id, { enabled: row.enabled ?? true, config: row.config || {} }])
+      );
+    } catch (err) {
+      console.error('Error getting plugin settings from database:', err);
+      return {};
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store a plugin with its enabled state and config
+   */
+  async savePluginSettings(plugin: Plugin): Promise<void> {
+    if (!this.pgPool) {
+      console.warn('PostgreSQL not connected, skipping save operation');
+      return;
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return;
+    
+    try {
+      await client.query(
+        `INSERT INTO plugins (id, name, version, description, enabled, config)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (id) DO UPDATE SET
+           name = EXCLUDED.name,
+           version = EXCLUDED.version,
+           description = EXCLUDED.description,
+           enabled = EXCLUDED.enabled,
+           config = EXCLUDED.config,
+           updated_at = NOW()`,
+        [
+          plugin.id,
+          plugin.name,
+          plugin.version,
+          plugin.description,
+          plugin.enabled,
+          JSON.stringify(plugin.config ?? {})
+        ]
+      );
+    } catch (err) {
+      console.error('Error saving plugin settings to database:', err);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the stored state of a strategy
+   */
+  async getStrategyState<T>(id: string): Promise<T | null> {
+    if (!this.pgPool) {
+      console.warn('PostgreSQL not connected, returning no strategy state');
+      return null;
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return null;
+    
+    try {
+      const result = await client.query('SELECT state FROM strategy_state WHERE id = $1', [id]);
+      return result.rows.length > 0 ? (result.rows[0].state as T) : null;
+    } catch (err) {
+      console.error('Error getting strategy state from database:', err);
+      return null;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store the state of a strategy
+   */
+  async saveStrategyState(id: string, state: unknown): Promise<void> {
+    if (!this.pgPool) {
+      console.warn('PostgreSQL not connected, skipping save operation');
+      return;
+    }
+    
+    const client = await this.getPgClient();
+    if (!client) return;
+    
+    try {
+      await client.query(
+        `INSERT INTO strategy_state (id, state)
+         VALUES ($1, $2)
+         ON CONFLICT (id) DO UPDATE SET
+           state = EXCLUDED.state,
+           updated_at = NOW()`,
+        [id, JSON.stringify(state)]
+      );
+    } catch (err) {
+      console.error('Error saving strategy state to database:', err);
+    } finally {
+      client.release();
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Flag trades that were simulated in paper trading mode
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS simulated BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Create index on simulated to separate paper and live trades
+CREATE INDEX IF NOT EXISTS idx_trades_simulated ON trades(simulated);
@@ -0,0 +1,15 @@
+-- Recorded quotes used to replay market conditions in backtests
+
+CREATE TABLE IF NOT EXISTS quote_snapshots (
+  id SERIAL PRIMARY KEY,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  input_mint VARCHAR(44) NOT NULL,
+  output_mint VARCHAR(44) NOT NULL,
+  in_amount NUMERIC(40, 0) NOT NULL,
+  out_amount NUMERIC(40, 0) NOT NULL,
+  price_impact_pct NUMERIC(15, 6),
+  route_plan JSONB
+);
+
+-- Create index on pair and time for replay queries
+CREATE INDEX IF NOT EXISTS idx_quote_snapshots_pair_time ON quote_snapshots(input_mint, output_mint, recorded_at);
@@ -0,0 +1,3 @@
+-- Record the priority fee paid per trade (lamports)
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS priority_fee BIGINT;
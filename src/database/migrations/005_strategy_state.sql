@@ -0,0 +1,7 @@
+-- State kept by strategies between restarts, e.g. the filled levels of a grid
+
+CREATE TABLE IF NOT EXISTS strategy_state (
+  id VARCHAR(150) PRIMARY KEY,
+  state JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
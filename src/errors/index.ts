@@ -0,0 +1,86 @@
+/**
+ * Base class of the errors raised by the bot
+ * Retryable errors are expected to go away on their own (rate limits, timeouts, empty quotes)
+ */
+export class BotError extends Error {
+  readonly code: string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(code: string, message: string, retryable: boolean, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = retryable;
+    this.cause = cause;
+  }
+}
+
+/**
+ * No route was found for a swap, usually an illiquid pair or amount
+ */
+export class NoRoutesError extends BotError {
+  constructor(message = 'No routes found', cause?: unknown) {
+    super('NO_ROUTES', message, true, cause);
+  }
+}
+
+/**
+ * The quote API returned an invalid response or an error
+ */
+export class QuoteError extends BotError {
+  constructor(message: string, cause?: unknown) {
+    super('QUOTE_ERROR', message, true, cause);
+  }
+}
+
+/**
+ * The quote API did not answer in time
+ */
+export class QuoteTimeoutError extends BotError {
+  constructor(message = 'Quote request timed out', cause?: unknown) {
+    super('QUOTE_TIMEOUT', message, true, cause);
+  }
+}
+
+/**
+ * Every RPC endpoint failed for a request
+ */
+export class RpcError extends BotError {
+  constructor(message: string, cause?: unknown) {
+    super('RPC_ERROR', message, true, cause);
+  }
+}
+
+/**
+ * The wallet cannot cover a trade or its fees
+ */
+export class InsufficientBalanceError extends BotError {
+  constructor(message: string) {
+    super('INSUFFICIENT_BALANCE', message, false);
+  }
+}
+
+/**
+ * The configuration is missing or invalid
+ */
+export class ConfigError extends BotError {
+  constructor(message: string, cause?: unknown) {
+    super('CONFIG_ERROR', message, false, cause);
+  }
+}
+
+/**
+ * A plugin hook did not settle in time
+ */
+export class PluginTimeoutError extends BotError {
+  constructor(message: string) {
+    super('PLUGIN_TIMEOUT', message, true);
+  }
+}
+
+/**
+ * Get the error code of any thrown value
+ */
+export const getErrorCode = (err: unknown): string =>
+  err instanceof BotError ? err.code : 'UNKNOWN';
@@ -17,14 +17,14 @@ const runApp = async () => {
     const { render } = await import('ink');
     const App = wizardModule.default;
     render(App());
-  } else if (mode === 'bot') {
+  } else if (mode === 'bot' || mode === 'paper') {
     const botModule = await import('./bot');
     const BotCore = botModule.default;
     const bot = new BotCore();
     await bot.initialize();
     await bot.start();
   } else {
-    console.error(`Invalid BOT_MODE: ${mode}. Must be 'wizard' or 'bot'`);
+    console.error(`Invalid BOT_MODE: ${mode}. Must be 'wizard', 'bot' or 'paper'`);
     process.exit(1);
   }
 };
@@ -1,16 +1,69 @@
-import { Plugin, PluginContext } from '../types';
+import { BotEventBus, EventEmitter } from '../core/EventEmitter';
+import { ConfigError, PluginTimeoutError } from '../errors';
+import { BotEvents, Plugin, PluginContext, PluginStats, SwapRequest, TradeDecision } from '../types';
 import * as fs from 'fs';
 import * as path from 'path';
+import { checkCompatibility } from './compatibility';
+import { resolvePluginConfig } from './pluginConfig';
+import { PluginSettingsStore } from './PluginSettingsStore';
+
+/**
+ * Options for the plugin loader
+ */
+export interface PluginLoaderOptions {
+  // Max duration of a hook call for plugins without a timeout (ms)
+  defaultTimeout?: number;
+  // Failures in a row after which a plugin is disabled
+  maxConsecutiveFailures?: number;
+}
+
+const DEFAULT_OPTIONS: Required<PluginLoaderOptions> = {
+  defaultTimeout: 5000,
+  maxConsecutiveFailures: 5,
+};
+
+const DEFAULT_PRIORITY = 100;
+
+// Editors write a file in several steps, wait for the writes to settle (ms)
+const RELOAD_DEBOUNCE = 200;
+
+type HookName = 'onRouteComputed' | 'afterTrade' | 'onError' | 'onShutdown';
+
+type InvokeResult<T> = { ok: true; value: T } | { ok: false; error: unknown };
 
 /**
  * PluginLoader handles loading, initializing, and executing plugins
+ * The enabled state and config of each plugin are merged from the settings
+ * store and can be changed at runtime. Plugins run by priority after their
+ * dependencies, every hook call is bounded by a timeout and plugins failing
+ * repeatedly are disabled.
  */
 export class PluginLoader {
   private plugins: Map<string, Plugin> = new Map();
   private pluginsDir: string;
+  private settingsStore: PluginSettingsStore | null;
+  private options: Required<PluginLoaderOptions>;
+  private events: BotEventBus | null = null;
+  // Plugin ids in execution order
+  private order: string[] = [];
+  private stats: Map<string, PluginStats> = new Map();
+  // Functions removing the event listeners of each plugin
+  private subscriptions: Map<string, Array<() => void>> = new Map();
+  // Plugin id loaded from each file of the plugins directory
+  private files: Map<string, string> = new Map();
+  private watcher: fs.FSWatcher | null = null;
+  private reloadTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Reloads run one at a time
+  private reloading: Promise<void> = Promise.resolve();
   
-  constructor(pluginsDir: string = path.join(__dirname, 'plugins')) {
+  constructor(
+    pluginsDir: string = path.join(__dirname, 'plugins'),
+    settingsStore: PluginSettingsStore | null = null,
+    options: PluginLoaderOptions = {}
+  ) {
     this.pluginsDir = pluginsDir;
+    this.settingsStore = settingsStore;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   /**
@@ -25,26 +78,20 @@ export class PluginLoader {
       }
 
       // Read directory for plugin files
-      const files = fs.readdirSync(this.pluginsDir)
-        .filter(file => file.endsWith('.js') || file.endsWith('.ts'));
+      const files = fs.readdirSync(this.pluginsDir).filter((file) => this.isPluginFile(file));
 
       // Load each plugin
       for (const file of files) {
-        try {
-          const pluginPath = path.join(this.pluginsDir, file);
-          const pluginModule = require(pluginPath);
-          
-          // Check if the module exports a plugin
-          if (pluginModule.default && this.isValidPlugin(pluginModule.default)) {
-            const plugin = pluginModule.default as Plugin;
-            this.plugins.set(plugin.id, plugin);
-            console.log(`Plugin loaded: ${plugin.name} (${plugin.id})`);
-          }
-        } catch (err) {
-          console.error(`Failed to load plugin from file ${file}:`, err);
+        const plugin = this.loadPluginFile(file);
+        if (plugin) {
+          this.plugins.set(plugin.id, plugin);
+          this.files.set(file, plugin.id);
+          console.log(`Plugin loaded: ${plugin.name} (${plugin.id})`);
         }
       }
       
+      await this.applySettings(Array.from(this.plugins.values()));
+      this.resolveDependencies();
       console.log(`Loaded ${this.plugins.size} plugins`);
     } catch (err) {
       console.error('Error loading plugins:', err);
@@ -52,49 +99,569 @@ export class PluginLoader {
   }
 
   /**
-   * Initialize all enabled plugins
+   * Load the plugin exported by a file of the plugins directory
+   * The file is read again from disk, modules it imports stay cached
+   * @returns The plugin, null when the file does not export a compatible plugin
+   */
+  private loadPluginFile(file: string): Plugin | null {
+    try {
+      const pluginPath = require.resolve(path.join(this.pluginsDir, file));
+      delete require.cache[pluginPath];
+      const pluginModule = require(pluginPath);
+
+      // Check if the module exports a plugin
+      if (!pluginModule.default || !this.isValidPlugin(pluginModule.default)) {
+        console.error(`File ${file} does not export a valid plugin`);
+        return null;
+      }
+
+      const plugin = pluginModule.default as Plugin;
+      const incompatibility = checkCompatibility(plugin);
+      if (incompatibility) {
+        console.error(`Plugin ${plugin.name} (${plugin.id}) not loaded: ${incompatibility}`);
+        return null;
+      }
+
+      return plugin;
+    } catch (err) {
+      console.error(`Failed to load plugin from file ${file}:`, err);
+      return null;
+    }
+  }
+
+  private isPluginFile(file: string): boolean {
+    return (file.endsWith('.js') || file.endsWith('.ts')) && !file.endsWith('.d.ts');
+  }
+
+  /**
+   * Watch the plugins directory and reload plugin files when they are added, changed or removed
+   * A file that fails to load is reported and the running version of its plugin is kept
+   */
+  watchPlugins(): void {
+    if (this.watcher || !fs.existsSync(this.pluginsDir)) {
+      return;
+    }
+
+    this.watcher = fs.watch(this.pluginsDir, (_, file) => {
+      if (!file || !this.isPluginFile(file.toString())) {
+        return;
+      }
+
+      const name = file.toString();
+      clearTimeout(this.reloadTimers.get(name));
+      this.reloadTimers.set(
+        name,
+        setTimeout(() => {
+          this.reloadTimers.delete(name);
+          this.reloading = this.reloading.then(() => this.reloadFile(name));
+        }, RELOAD_DEBOUNCE)
+      );
+    });
+    this.watcher.on('error', (err) => console.error('Error watching plugins directory:', err));
+
+    console.log(`Watching plugins in ${this.pluginsDir}`);
+  }
+
+  /**
+   * Stop watching the plugins directory and wait for a running reload
+   */
+  async unwatchPlugins(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+    this.reloadTimers.forEach((timer) => clearTimeout(timer));
+    this.reloadTimers.clear();
+    await this.reloading;
+  }
+
+  /**
+   * Replace the plugin of a file with its current version on disk
    */
-  async initializePlugins(): Promise<void> {
-    const initPromises: Promise<void>[] = [];
-    
-    for (const [id, plugin] of this.plugins.entries()) {
+  private async reloadFile(file: string): Promise<void> {
+    try {
+      const previousId = this.files.get(file);
+
+      if (!fs.existsSync(path.join(this.pluginsDir, file))) {
+        if (previousId) {
+          this.files.delete(file);
+          await this.removePlugin(previousId, true);
+          console.log(`Plugin ${previousId} removed`);
+        }
+        return;
+      }
+
+      const plugin = this.loadPluginFile(file);
+      if (!plugin) {
+        console.error(`Reload of ${file} failed, keeping the running version`);
+        return;
+      }
+
+      const owner = Array.from(this.files.entries()).find(([other, id]) => id === plugin.id && other !== file);
+      if (owner) {
+        console.error(`Reload of ${file} failed, plugin id ${plugin.id} is already used by ${owner[0]}`);
+        return;
+      }
+
+      await this.applySettings([plugin]);
+
+      // The new version starts before the running one stops, which is kept when the start fails
+      let started = false;
+      if (plugin.enabled && (plugin.dependencies ?? []).every((id) => this.plugins.get(id)?.enabled)) {
+        const result = await this.invoke(plugin, 'initialize', () => plugin.initialize());
+        if (!result.ok && previousId) {
+          console.error(`Reload of ${file} failed, ${plugin.name} did not initialize, keeping the running version`);
+          return;
+        }
+        if (!result.ok) {
+          console.error(`Plugin ${plugin.name} disabled, initialization failed`);
+          plugin.enabled = false;
+        }
+        started = result.ok;
+      }
+
+      if (previousId) {
+        await this.removePlugin(previousId, previousId !== plugin.id);
+      }
+
+      this.plugins.set(plugin.id, plugin);
+      this.files.set(file, plugin.id);
+      this.getStats(plugin.id).consecutiveFailures = 0;
+
+      // New dependencies can close a cycle with running plugins
+      const running = this.getEnabledPlugins().filter((other) => other !== plugin);
+      this.resolveDependencies();
+      for (const other of running.filter((other) => !other.enabled)) {
+        this.unsubscribePlugin(other.id);
+        await this.invoke(other, 'cleanup', () => other.cleanup());
+      }
+
       if (plugin.enabled) {
-        console.log(`Initializing plugin: ${plugin.name}`);
-        initPromises.push(plugin.initialize());
+        this.subscribePlugin(plugin);
+      } else {
+        if (started) {
+          await this.invoke(plugin, 'cleanup', () => plugin.cleanup());
+        }
+        // Dependents cannot run without the new version
+        await this.disableDependents(plugin.id);
+      }
+
+      console.log(`Plugin reloaded: ${plugin.name} (${plugin.id}) from ${file}`);
+    } catch (err) {
+      console.error(`Error reloading plugin file ${file}:`, err);
+    }
+  }
+
+  /**
+   * Clean up a plugin and forget it
+   * Dependents keep running when the plugin is replaced by a new version with the same id
+   */
+  private async removePlugin(id: string, disableDependents: boolean): Promise<void> {
+    const plugin = this.plugins.get(id);
+    if (!plugin) {
+      return;
+    }
+
+    this.unsubscribePlugin(id);
+    if (plugin.enabled) {
+      plugin.enabled = false;
+      await this.invoke(plugin, 'cleanup', () => plugin.cleanup());
+    }
+
+    this.plugins.delete(id);
+    this.order = this.order.filter((other) => other !== id);
+
+    if (disableDependents) {
+      await this.disableDependents(id);
+    }
+  }
+
+  private async disableDependents(id: string, persist = false): Promise<void> {
+    for (const dependent of this.getEnabledPlugins()) {
+      if (dependent.dependencies?.includes(id)) {
+        await this.setPluginEnabled(dependent.id, false, persist);
+      }
+    }
+  }
+
+  /**
+   * Initialize all enabled plugins and let them subscribe to the event bus
+   */
+  async initializePlugins(events?: BotEventBus): Promise<void> {
+    // Dependencies come first in the execution order
+    for (const plugin of this.getEnabledPlugins()) {
+      if (plugin.dependencies?.some((id) => !this.plugins.get(id)?.enabled)) {
+        console.error(`Plugin ${plugin.name} disabled, a dependency failed to initialize`);
+        plugin.enabled = false;
+        continue;
+      }
+
+      console.log(`Initializing plugin: ${plugin.name}`);
+      const result = await this.invoke(plugin, 'initialize', () => plugin.initialize());
+      if (!result.ok) {
+        console.error(`Plugin ${plugin.name} disabled, initialization failed`);
+        plugin.enabled = false;
+      }
+    }
+
+    if (events) {
+      this.events = events;
+      this.getEnabledPlugins().forEach((plugin) => this.subscribePlugin(plugin));
+    }
+  }
+
+  /**
+   * Enable or disable a plugin at runtime and store the new state
+   * Disabling a plugin also disables the plugins depending on it
+   * @throws ConfigError when a dependency is disabled or the plugin fails to initialize
+   */
+  async setPluginEnabled(id: string, enabled: boolean, persist = true): Promise<void> {
+    const plugin = this.getRequiredPlugin(id);
+    if (plugin.enabled === enabled) {
+      return;
+    }
+
+    if (enabled) {
+      const disabled = (plugin.dependencies ?? []).filter((dependency) => !this.plugins.get(dependency)?.enabled);
+      if (disabled.length > 0) {
+        throw new ConfigError(`Plugin ${plugin.name} depends on disabled plugins: ${disabled.join(', ')}`);
+      }
+
+      const result = await this.invoke(plugin, 'initialize', () => plugin.initialize());
+      if (!result.ok) {
+        throw new ConfigError(`Plugin ${plugin.name} failed to initialize`, result.error);
+      }
+
+      plugin.enabled = true;
+      this.getStats(plugin.id).consecutiveFailures = 0;
+      this.subscribePlugin(plugin);
+    } else {
+      await this.disableDependents(plugin.id, persist);
+
+      plugin.enabled = false;
+      this.unsubscribePlugin(plugin.id);
+      await this.invoke(plugin, 'cleanup', () => plugin.cleanup());
+    }
+
+    if (persist) {
+      await this.settingsStore?.save(plugin);
+    }
+    console.log(`Plugin ${plugin.name} ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Change the config of a plugin at runtime and store it
+   * @param changes Options to change, merged into the current config
+   * @returns The new config
+   * @throws ConfigError when the resulting config is invalid
+   */
+  async updatePluginConfig(
+    id: string,
+    changes: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const plugin = this.getRequiredPlugin(id);
+    const { config, errors } = resolvePluginConfig(plugin.configSchema, plugin.config, changes);
+
+    if (errors.length > 0) {
+      throw new ConfigError(`Invalid config for plugin ${plugin.name}: ${errors.join('; ')}`);
+    }
+
+    plugin.config = config;
+    const onConfigChange = plugin.onConfigChange;
+    if (plugin.enabled && onConfigChange) {
+      await this.invoke(plugin, 'onConfigChange', () => onConfigChange(config));
+    }
+
+    await this.settingsStore?.save(plugin);
+    console.log(`Plugin ${plugin.name} reconfigured`);
+    return config;
+  }
+
+  /**
+   * Merge the stored enabled state and config into loaded plugins
+   * Plugins seen for the first time are stored with their defaults
+   */
+  private async applySettings(plugins: Plugin[]): Promise<void> {
+    const settings = this.settingsStore ? await this.settingsStore.load() : {};
+
+    for (const plugin of plugins) {
+      const stored = settings[plugin.id];
+      let { config, errors } = resolvePluginConfig(plugin.configSchema, plugin.config, stored?.config);
+
+      if (errors.length > 0 && stored) {
+        console.error(`Invalid stored config for plugin ${plugin.name}, using defaults: ${errors.join('; ')}`);
+        ({ config, errors } = resolvePluginConfig(plugin.configSchema, plugin.config));
+      }
+
+      plugin.config = config;
+      plugin.enabled = stored?.enabled ?? plugin.enabled;
+
+      if (errors.length > 0) {
+        console.error(`Plugin ${plugin.name} disabled, invalid config: ${errors.join('; ')}`);
+        plugin.enabled = false;
+      }
+
+      if (!stored) {
+        await this.settingsStore?.save(plugin);
+      }
+    }
+  }
+
+  /**
+   * Order the plugins by priority after their dependencies
+   * Plugins with missing, disabled or circular dependencies are disabled
+   */
+  private resolveDependencies(): void {
+    // Disabling a plugin can leave its dependents without dependency, repeat until stable
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const plugin of this.plugins.values()) {
+        const missing = (plugin.dependencies ?? []).filter((id) => !this.plugins.get(id)?.enabled);
+        if (plugin.enabled && missing.length > 0) {
+          console.error(`Plugin ${plugin.name} disabled, missing dependencies: ${missing.join(', ')}`);
+          plugin.enabled = false;
+          changed = true;
+        }
+      }
+    }
+
+    const order: string[] = [];
+    const remaining = new Set(this.plugins.keys());
+
+    while (remaining.size > 0) {
+      const ready = Array.from(remaining)
+        .map((id) => this.plugins.get(id)!)
+        .filter((plugin) => (plugin.dependencies ?? []).every((id) => !remaining.has(id)));
+
+      // Whatever is left depends on a cycle
+      if (ready.length === 0) {
+        for (const id of remaining) {
+          const plugin = this.plugins.get(id)!;
+          if (plugin.enabled) {
+            console.error(`Plugin ${plugin.name} disabled, circular dependencies`);
+            plugin.enabled = false;
+          }
+          order.push(id);
+        }
+        break;
       }
+
+      ready.sort(
+        (a, b) => (a.priority ?? DEFAULT_PRIORITY) - (b.priority ?? DEFAULT_PRIORITY) || a.id.localeCompare(b.id)
+      );
+      order.push(ready[0].id);
+      remaining.delete(ready[0].id);
     }
-    
-    await Promise.all(initPromises);
+
+    this.order = order;
+  }
+
+  /**
+   * Call a plugin hook within the plugin's timeout and record its stats
+   * The hook keeps running in the background after a timeout, its result is ignored
+   */
+  private async invoke<T>(plugin: Plugin, name: string, call: () => Promise<T> | T): Promise<InvokeResult<T>> {
+    const stats = this.getStats(plugin.id);
+    const timeout = plugin.timeout ?? this.options.defaultTimeout;
+    const start = performance.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    stats.calls++;
+
+    try {
+      const value = await Promise.race([
+        Promise.resolve().then(call),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new PluginTimeoutError(`${name} of plugin ${plugin.name} timed out after ${timeout} ms`)),
+            timeout
+          );
+        }),
+      ]);
+
+      stats.consecutiveFailures = 0;
+      return { ok: true, value };
+    } catch (err) {
+      stats.failures++;
+      stats.consecutiveFailures++;
+      stats.lastError = err instanceof Error ? err.message : String(err);
+      if (err instanceof PluginTimeoutError) {
+        stats.timeouts++;
+      }
+      console.error(`Error in ${name} of plugin ${plugin.name}:`, err);
+
+      // Auto disabling is not stored, the plugin is enabled again on restart
+      // A reloaded version is not registered until it started, the running version keeps its state
+      const registered = this.plugins.get(plugin.id) === plugin;
+      if (registered && plugin.enabled && stats.consecutiveFailures >= this.options.maxConsecutiveFailures) {
+        console.error(`Plugin ${plugin.name} disabled after ${stats.consecutiveFailures} failures in a row`);
+        await this.setPluginEnabled(plugin.id, false, false);
+      }
+
+      return { ok: false, error: err };
+    } finally {
+      clearTimeout(timer);
+      const elapsed = performance.now() - start;
+      stats.totalTime += elapsed;
+      stats.maxTime = Math.max(stats.maxTime, elapsed);
+    }
+  }
+
+  private getStats(id: string): PluginStats {
+    let stats = this.stats.get(id);
+    if (!stats) {
+      stats = { calls: 0, failures: 0, timeouts: 0, consecutiveFailures: 0, totalTime: 0, maxTime: 0 };
+      this.stats.set(id, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Register the event listeners of a plugin
+   * Listeners go to a bus of their own so they can be removed when the plugin is disabled
+   */
+  private subscribePlugin(plugin: Plugin): void {
+    const events = this.events;
+    if (!plugin.subscribe || !events) {
+      return;
+    }
+
+    const pluginEvents = new EventEmitter<BotEvents>();
+    try {
+      plugin.subscribe(pluginEvents);
+    } catch (err) {
+      console.error(`Error subscribing plugin ${plugin.name} to events:`, err);
+      return;
+    }
+
+    const forward = <K extends keyof BotEvents>(event: K) =>
+      events.on(event, (payload) => pluginEvents.emitAsync(event, payload));
+
+    this.subscriptions.set(plugin.id, pluginEvents.eventNames().map(forward));
+  }
+
+  private unsubscribePlugin(id: string): void {
+    this.subscriptions.get(id)?.forEach((unsubscribe) => unsubscribe());
+    this.subscriptions.delete(id);
+  }
+
+  private getRequiredPlugin(id: string): Plugin {
+    const plugin = this.plugins.get(id);
+    if (!plugin) {
+      throw new ConfigError(`Plugin not found: ${id}`);
+    }
+    return plugin;
   }
 
   /**
    * Execute all enabled plugins with the given context
    */
   async executePlugins(context: PluginContext): Promise<void> {
-    for (const [id, plugin] of this.plugins.entries()) {
-      if (plugin.enabled) {
-        try {
-          await plugin.execute(context);
-        } catch (err) {
-          console.error(`Error executing plugin ${plugin.name}:`, err);
-        }
+    for (const plugin of this.getEnabledPlugins()) {
+      await this.invoke(plugin, 'execute', () => plugin.execute(context));
+    }
+  }
+
+  /**
+   * Invoke the lifecycle hooks of the enabled plugins from the bot events
+   * executePlugins runs after every iteration of the trading loop, iterations
+   * ending while the previous run is still going are skipped
+   */
+  attach(context: PluginContext): void {
+    const { events } = context;
+    let executing = false;
+
+    events.on('iteration:end', async () => {
+      if (executing) {
+        return;
+      }
+
+      executing = true;
+      try {
+        await this.executePlugins(context);
+      } finally {
+        executing = false;
+      }
+    });
+    events.on('route:computed', (event) =>
+      this.runHook('onRouteComputed', (plugin) => plugin.onRouteComputed!(context, event))
+    );
+    events.on('trade:confirmed', ({ trade }) =>
+      this.runHook('afterTrade', (plugin) => plugin.afterTrade!(context, trade))
+    );
+    events.on('trade:failed', ({ trade }) =>
+      this.runHook('afterTrade', (plugin) => plugin.afterTrade!(context, trade))
+    );
+    events.on('iteration:failed', ({ error }) =>
+      this.runHook('onError', (plugin) => plugin.onError!(context, error))
+    );
+    events.on('bot:stopped', ({ reason }) =>
+      reason === 'shutdown'
+        ? this.runHook('onShutdown', (plugin) => plugin.onShutdown!(context))
+        : undefined
+    );
+  }
+
+  /**
+   * Ask the enabled plugins whether a trade may go ahead
+   * The first veto wins, the smallest amount proposed replaces the trade size.
+   * A plugin failing in beforeTrade vetoes the trade so a broken risk check never lets trades through.
+   */
+  async beforeTrade(context: PluginContext, request: SwapRequest): Promise<TradeDecision> {
+    let amount: number | undefined;
+
+    for (const plugin of this.getEnabledPlugins()) {
+      if (!plugin.beforeTrade) {
+        continue;
+      }
+
+      const beforeTrade = plugin.beforeTrade;
+      const result = await this.invoke(plugin, 'beforeTrade', () => beforeTrade(context, request));
+      if (!result.ok) {
+        const { error } = result;
+        return { veto: true, reason: `${plugin.name} failed: ${error instanceof Error ? error.message : error}` };
+      }
+
+      const decision = result.value;
+
+      if (decision?.veto) {
+        return { veto: true, reason: `${plugin.name}: ${decision.reason ?? 'vetoed'}` };
+      }
+
+      if (decision?.amount !== undefined) {
+        amount = amount === undefined ? decision.amount : Math.min(amount, decision.amount);
+      }
+    }
+
+    return { amount };
+  }
+
+  /**
+   * Run a hook on every enabled plugin implementing it, errors are logged per plugin
+   */
+  private async runHook(name: HookName, hook: (plugin: Plugin) => Promise<void>): Promise<void> {
+    for (const plugin of this.getEnabledPlugins()) {
+      if (plugin[name]) {
+        await this.invoke(plugin, name, () => hook(plugin));
       }
     }
   }
 
   /**
-   * Clean up all enabled plugins
+   * Clean up all enabled plugins, dependents first
    */
   async cleanupPlugins(): Promise<void> {
-    const cleanupPromises: Promise<void>[] = [];
-    
-    for (const [id, plugin] of this.plugins.entries()) {
-      if (plugin.enabled) {
-        cleanupPromises.push(plugin.cleanup());
-      }
+    for (const plugin of this.getEnabledPlugins().reverse()) {
+      await this.invoke(plugin, 'cleanup', () => plugin.cleanup());
     }
-    
-    await Promise.all(cleanupPromises);
+  }
+
+  /**
+   * Get the execution statistics of every plugin, keyed by plugin id
+   */
+  getPluginStats(): Record<string, PluginStats> {
+    return Object.fromEntries(
+      Array.from(this.stats.entries()).map(([id, stats]) => [id, { ...stats }])
+    );
   }
 
   /**
@@ -112,10 +679,12 @@ export class PluginLoader {
   }
 
   /**
-   * Get all enabled plugins
+   * Get all enabled plugins in execution order
    */
   getEnabledPlugins(): Plugin[] {
-    return Array.from(this.plugins.values()).filter(plugin => plugin.enabled);
+    return this.order
+      .map((id) => this.plugins.get(id))
+      .filter((plugin): plugin is Plugin => !!plugin && plugin.enabled);
   }
 
   /**
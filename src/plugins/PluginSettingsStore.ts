@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService } from '../database/DatabaseService';
+import { Plugin, PluginSettings } from '../types';
+
+/**
+ * PluginSettingsStore persists the enabled state and config of plugins
+ * Settings live in the plugins table, or in a local JSON file when
+ * PostgreSQL is not connected
+ */
+export class PluginSettingsStore {
+  private dbService: DatabaseService | null;
+  private filePath: string;
+
+  constructor(dbService: DatabaseService | null, filePath?: string) {
+    this.dbService = dbService;
+    this.filePath = filePath || path.join(process.cwd(), 'plugins.json');
+  }
+
+  /**
+   * Load the settings of every stored plugin, keyed by plugin id
+   */
+  async load(): Promise<Record<string, PluginSettings>> {
+    if (this.dbService?.isPgConnected()) {
+      return this.dbService.getPluginSettings();
+    }
+
+    return this.readFile();
+  }
+
+  /**
+   * Store the enabled state and config of a plugin
+   */
+  async save(plugin: Plugin): Promise<void> {
+    if (this.dbService?.isPgConnected()) {
+      await this.dbService.savePluginSettings(plugin);
+      return;
+    }
+
+    try {
+      const settings = this.readFile();
+      settings[plugin.id] = { enabled: plugin.enabled, config: plugin.config ?? {} };
+      fs.writeFileSync(this.filePath, JSON.stringify(settings, null, 2));
+    } catch (err) {
+      console.error(`Error saving plugin settings to ${this.filePath}:`, err);
+    }
+  }
+
+  private readFile(): Record<string, PluginSettings> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (err) {
+      console.error(`Error reading plugin settings from ${this.filePath}:`, err);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { PluginContext, SwapRequest, TradeEntry, TradeExecutor } from '../types';
+import { createTradeEntry } from '../utils';
+import { PluginLoader } from './PluginLoader';
+
+/**
+ * PluginTradeExecutor runs the plugins' beforeTrade hooks ahead of every swap
+ * Vetoed trades are returned with the 'vetoed' status without being executed,
+ * a resized trade is quoted again for the new amount
+ */
+export class PluginTradeExecutor implements TradeExecutor {
+  private executor: TradeExecutor;
+  private pluginLoader: PluginLoader;
+  private context: PluginContext;
+
+  constructor(executor: TradeExecutor, pluginLoader: PluginLoader, context: PluginContext) {
+    this.executor = executor;
+    this.pluginLoader = pluginLoader;
+    this.context = context;
+  }
+
+  /**
+   * Execute a swap unless a plugin vetoes it
+   * @param request The route and trade details
+   * @returns The trade entry from the wrapped executor, or the vetoed entry
+   */
+  async executeSwap(request: SwapRequest): Promise<TradeEntry> {
+    const { route, inputToken, outputToken } = request;
+    const decision = await this.pluginLoader.beforeTrade(this.context, request);
+
+    if (decision.veto || (decision.amount !== undefined && decision.amount <= 0)) {
+      return this.veto(request, decision.reason ?? 'plugins: trade size reduced to zero');
+    }
+
+    if (decision.amount !== undefined && decision.amount !== Number(route.amount.toString())) {
+      console.log(
+        `Trade ${inputToken.symbol} -> ${outputToken.symbol} resized by plugins: ${route.amount.toString()} -> ${decision.amount}`
+      );
+      const resized = await this.context.jupiter.getQuote({
+        inputMint: new PublicKey(route.inputMint),
+        outputMint: new PublicKey(route.outputMint),
+        amount: JSBI.BigInt(Math.floor(decision.amount)),
+        slippageBps: route.slippageBps,
+        swapMode: route.swapMode,
+      });
+
+      return this.executor.executeSwap({ ...request, route: resized });
+    }
+
+    return this.executor.executeSwap(request);
+  }
+
+  private veto(request: SwapRequest, reason: string): TradeEntry {
+    const tradeEntry = createTradeEntry(request);
+    tradeEntry.txStatus = 'vetoed';
+    tradeEntry.error = `Vetoed by ${reason}`;
+
+    console.log(`Trade ${request.inputToken.symbol} -> ${request.outputToken.symbol} vetoed: ${reason}`);
+    return tradeEntry;
+  }
+}
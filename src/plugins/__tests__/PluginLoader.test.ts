@@ -0,0 +1,495 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from '../../core/EventEmitter';
+import { ConfigError, PluginTimeoutError } from '../../errors';
+import { BotEvents, Plugin, PluginContext, SwapRequest, TradeEntry } from '../../types';
+import { PluginLoader, PluginLoaderOptions } from '../PluginLoader';
+import { PluginSettingsStore } from '../PluginSettingsStore';
+
+const createPlugin = (id: string, fields: Partial<Plugin> = {}): Plugin => ({
+  id,
+  name: id,
+  description: `Plugin ${id}`,
+  version: '1.0.0',
+  enabled: true,
+  initialize: jest.fn(async () => undefined),
+  execute: jest.fn(async () => undefined),
+  cleanup: jest.fn(async () => undefined),
+  ...fields,
+});
+
+describe('PluginLoader', () => {
+  let dir: string;
+  let events: EventEmitter<BotEvents>;
+  let context: PluginContext;
+  let settingsStore: PluginSettingsStore | null;
+
+  /**
+   * Put a plugin file in the plugins directory, the module exports the given plugin
+   */
+  const writePlugin = (file: string, plugin: Plugin) => {
+    const pluginPath = path.join(dir, file);
+    fs.writeFileSync(pluginPath, '');
+    jest.doMock(pluginPath, () => ({ default: plugin }));
+  };
+
+  const load = async (...plugins: Plugin[]) => loadWith({}, ...plugins);
+
+  const loadWith = async (options: PluginLoaderOptions, ...plugins: Plugin[]) => {
+    plugins.forEach((plugin) => writePlugin(`${plugin.id}.js`, plugin));
+    const loader = new PluginLoader(dir, settingsStore, options);
+    await loader.loadPlugins();
+    await loader.initializePlugins(events);
+    return loader;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+    events = new EventEmitter<BotEvents>();
+    context = { events } as unknown as PluginContext;
+    settingsStore = null;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.resetModules();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('beforeTrade', () => {
+    const request = {} as SwapRequest;
+
+    it('lets the trade through when no plugin objects', async () => {
+      const loader = await load(createPlugin('a', { beforeTrade: async () => undefined }), createPlugin('b'));
+
+      expect(await loader.beforeTrade(context, request)).toEqual({ amount: undefined });
+    });
+
+    it('takes the smallest amount proposed by the plugins', async () => {
+      const loader = await load(
+        createPlugin('a', { beforeTrade: async () => ({ amount: 50 }) }),
+        createPlugin('b', { beforeTrade: async () => ({ amount: 20 }) })
+      );
+
+      expect(await loader.beforeTrade(context, request)).toEqual({ amount: 20 });
+    });
+
+    it('stops at the first veto', async () => {
+      const last = jest.fn(async () => undefined);
+      const loader = await load(
+        createPlugin('a', { beforeTrade: async () => ({ veto: true, reason: 'too risky' }) }),
+        createPlugin('b', { beforeTrade: last })
+      );
+
+      expect(await loader.beforeTrade(context, request)).toEqual({ veto: true, reason: 'a: too risky' });
+      expect(last).not.toHaveBeenCalled();
+    });
+
+    it('vetoes the trade when a plugin fails', async () => {
+      const loader = await load(
+        createPlugin('a', {
+          beforeTrade: async () => {
+            throw new Error('risk service down');
+          },
+        })
+      );
+
+      expect(await loader.beforeTrade(context, request)).toEqual({
+        veto: true,
+        reason: 'a failed: risk service down',
+      });
+    });
+
+    it('skips disabled plugins', async () => {
+      const beforeTrade = jest.fn(async () => ({ veto: true }));
+      const loader = await load(createPlugin('a', { enabled: false, beforeTrade }));
+
+      expect(await loader.beforeTrade(context, request)).toEqual({ amount: undefined });
+      expect(beforeTrade).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attach', () => {
+    it('runs the plugins after every iteration', async () => {
+      const plugin = createPlugin('a');
+      const loader = await load(plugin);
+      loader.attach(context);
+
+      await events.emitAsync('iteration:end', { strategy: 'pingpong', iteration: 1, success: true });
+
+      expect(plugin.execute).toHaveBeenCalledWith(context);
+    });
+
+    it('skips iterations ending while the plugins still run', async () => {
+      let finish = () => undefined as void;
+      const finished = new Promise<void>((resolve) => (finish = resolve));
+      const plugin = createPlugin('a', { execute: jest.fn(() => finished) });
+      const loader = await load(plugin);
+      loader.attach(context);
+      const iteration = { strategy: 'pingpong', iteration: 1, success: true };
+
+      const running = events.emitAsync('iteration:end', iteration);
+      await events.emitAsync('iteration:end', iteration);
+      finish();
+      await running;
+      expect(plugin.execute).toHaveBeenCalledTimes(1);
+
+      await events.emitAsync('iteration:end', iteration);
+      expect(plugin.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('invokes the lifecycle hooks from the bot events', async () => {
+      const trade = { txStatus: 'confirmed' } as TradeEntry;
+      const error = new Error('iteration failed');
+      const plugin = createPlugin('a', {
+        onRouteComputed: jest.fn(async () => undefined),
+        afterTrade: jest.fn(async () => undefined),
+        onError: jest.fn(async () => undefined),
+        onShutdown: jest.fn(async () => undefined),
+      });
+      const loader = await load(plugin, createPlugin('b'));
+      loader.attach(context);
+      const computed = {
+        strategy: 'pingpong',
+        iteration: 1,
+        routes: [],
+        computeTime: 10,
+      } as unknown as BotEvents['route:computed'];
+
+      await events.emitAsync('route:computed', computed);
+      await events.emitAsync('trade:confirmed', { trade });
+      await events.emitAsync('trade:failed', { trade, error: 'slippage' });
+      await events.emitAsync('iteration:failed', { strategy: 'pingpong', error, action: 'skip' });
+      await events.emitAsync('bot:stopped', { reason: 'shutdown' });
+
+      expect(plugin.onRouteComputed).toHaveBeenCalledWith(context, computed);
+      expect(plugin.afterTrade).toHaveBeenCalledTimes(2);
+      expect(plugin.afterTrade).toHaveBeenCalledWith(context, trade);
+      expect(plugin.onError).toHaveBeenCalledWith(context, error);
+      expect(plugin.onShutdown).toHaveBeenCalledWith(context);
+    });
+
+    it('only calls onShutdown when the bot shuts down', async () => {
+      const onShutdown = jest.fn(async () => undefined);
+      const loader = await load(createPlugin('a', { onShutdown }));
+      loader.attach(context);
+
+      await events.emitAsync('bot:stopped', { reason: 'paused' });
+
+      expect(onShutdown).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settings', () => {
+    const configSchema = {
+      threshold: { type: 'number' as const, default: 1, min: 0 },
+    };
+    let settingsPath: string;
+
+    const readSettings = () => JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+
+    beforeEach(() => {
+      settingsPath = path.join(dir, 'plugins.json');
+      settingsStore = new PluginSettingsStore(null, settingsPath);
+    });
+
+    it('stores plugins seen for the first time with their defaults', async () => {
+      const loader = await load(createPlugin('a', { configSchema }));
+
+      expect(loader.getPlugin('a')!.config).toEqual({ threshold: 1 });
+      expect(readSettings()).toEqual({ a: { enabled: true, config: { threshold: 1 } } });
+    });
+
+    it('merges the stored enabled state and config into the plugins', async () => {
+      fs.writeFileSync(settingsPath, JSON.stringify({ a: { enabled: false, config: { threshold: 3 } } }));
+      const plugin = createPlugin('a', { configSchema });
+
+      const loader = await load(plugin);
+
+      expect(plugin).toMatchObject({ enabled: false, config: { threshold: 3 } });
+      expect(plugin.initialize).not.toHaveBeenCalled();
+      expect(loader.getEnabledPlugins()).toEqual([]);
+    });
+
+    it('falls back to the defaults when the stored config is invalid', async () => {
+      fs.writeFileSync(settingsPath, JSON.stringify({ a: { enabled: true, config: { threshold: -1 } } }));
+      const plugin = createPlugin('a', { configSchema });
+
+      await load(plugin);
+
+      expect(plugin).toMatchObject({ enabled: true, config: { threshold: 1 } });
+    });
+
+    it('disables plugins whose default config is invalid', async () => {
+      const plugin = createPlugin('a', { configSchema: { url: { type: 'string', required: true } } });
+
+      await load(plugin);
+
+      expect(plugin.enabled).toBe(false);
+    });
+
+    it('enables and disables plugins at runtime and stores the state', async () => {
+      const plugin = createPlugin('a');
+      const loader = await load(plugin);
+
+      await loader.setPluginEnabled('a', false);
+      expect(plugin.cleanup).toHaveBeenCalled();
+      expect(readSettings().a.enabled).toBe(false);
+
+      await loader.setPluginEnabled('a', true);
+      expect(plugin.initialize).toHaveBeenCalledTimes(2);
+      expect(readSettings().a.enabled).toBe(true);
+    });
+
+    it('keeps a plugin disabled when it fails to initialize', async () => {
+      const plugin = createPlugin('a', { enabled: false });
+      const loader = await load(plugin);
+      plugin.initialize = jest.fn().mockRejectedValue(new Error('no webhook url'));
+
+      await expect(loader.setPluginEnabled('a', true)).rejects.toThrow(ConfigError);
+      expect(plugin.enabled).toBe(false);
+    });
+
+    it('refuses unknown plugins', async () => {
+      const loader = await load();
+
+      await expect(loader.setPluginEnabled('missing', true)).rejects.toThrow(ConfigError);
+    });
+
+    it('reconfigures plugins at runtime and stores the config', async () => {
+      const onConfigChange = jest.fn(async () => undefined);
+      const loader = await load(createPlugin('a', { configSchema, onConfigChange }));
+
+      expect(await loader.updatePluginConfig('a', { threshold: 5 })).toEqual({ threshold: 5 });
+      expect(onConfigChange).toHaveBeenCalledWith({ threshold: 5 });
+      expect(readSettings().a.config).toEqual({ threshold: 5 });
+    });
+
+    it('refuses invalid config changes and keeps the config', async () => {
+      const loader = await load(createPlugin('a', { configSchema }));
+
+      await expect(loader.updatePluginConfig('a', { threshold: -1 })).rejects.toThrow(
+        'Invalid config for plugin a: threshold must be >= 0'
+      );
+      expect(loader.getPlugin('a')!.config).toEqual({ threshold: 1 });
+      expect(readSettings().a.config).toEqual({ threshold: 1 });
+    });
+  });
+
+  describe('guardrails', () => {
+    const ids = (plugins: Plugin[]) => plugins.map((plugin) => plugin.id);
+
+    it('skips files that do not export a compatible plugin', async () => {
+      writePlugin('broken.js', { id: 'broken' } as Plugin);
+      const loader = await load(createPlugin('old', { apiVersion: 0 }), createPlugin('a'));
+
+      expect(ids(loader.getAllPlugins())).toEqual(['a']);
+    });
+
+    it('orders the plugins by priority after their dependencies', async () => {
+      const loader = await load(
+        createPlugin('a', { priority: 10, dependencies: ['c'] }),
+        createPlugin('b', { priority: 20 }),
+        createPlugin('c', { priority: 30 }),
+        createPlugin('d')
+      );
+
+      expect(ids(loader.getEnabledPlugins())).toEqual(['b', 'c', 'a', 'd']);
+    });
+
+    it('disables plugins with missing, disabled or circular dependencies', async () => {
+      const loader = await load(
+        createPlugin('a', { dependencies: ['missing'] }),
+        createPlugin('b', { dependencies: ['a'] }),
+        createPlugin('c', { dependencies: ['d'] }),
+        createPlugin('d', { dependencies: ['c'] }),
+        createPlugin('e')
+      );
+
+      expect(ids(loader.getEnabledPlugins())).toEqual(['e']);
+    });
+
+    it('disables dependents when a dependency fails to initialize', async () => {
+      const dependency = createPlugin('a', { initialize: jest.fn().mockRejectedValue(new Error('failed')) });
+      const dependent = createPlugin('b', { dependencies: ['a'] });
+
+      const loader = await load(dependency, dependent);
+
+      expect(loader.getEnabledPlugins()).toEqual([]);
+      expect(dependent.initialize).not.toHaveBeenCalled();
+    });
+
+    it('disables the dependents of a plugin disabled at runtime', async () => {
+      const loader = await load(createPlugin('a'), createPlugin('b', { dependencies: ['a'] }));
+
+      await loader.setPluginEnabled('a', false);
+
+      expect(loader.getEnabledPlugins()).toEqual([]);
+      await expect(loader.setPluginEnabled('b', true)).rejects.toThrow('Plugin b depends on disabled plugins: a');
+    });
+
+    it('stops waiting for a plugin after its timeout', async () => {
+      const hung = createPlugin('a', { timeout: 20, execute: () => new Promise<void>(() => undefined) });
+      const next = createPlugin('b');
+      const loader = await load(hung, next);
+
+      await loader.executePlugins(context);
+
+      expect(next.execute).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('Error in execute of plugin a:', expect.any(PluginTimeoutError));
+      expect(loader.getPluginStats().a).toMatchObject({
+        calls: 2,
+        failures: 1,
+        timeouts: 1,
+        consecutiveFailures: 1,
+        lastError: 'execute of plugin a timed out after 20 ms',
+      });
+      expect(loader.getPluginStats().a.maxTime).toBeGreaterThanOrEqual(15);
+    });
+
+    it('disables plugins failing repeatedly until they are enabled again', async () => {
+      const plugin = createPlugin('a', { execute: jest.fn().mockRejectedValue(new Error('webhook down')) });
+      const loader = await loadWith({ maxConsecutiveFailures: 2 }, plugin);
+
+      await loader.executePlugins(context);
+      expect(plugin.enabled).toBe(true);
+      await loader.executePlugins(context);
+
+      expect(plugin.enabled).toBe(false);
+      expect(plugin.cleanup).toHaveBeenCalled();
+
+      await loader.setPluginEnabled('a', true);
+      expect(loader.getPluginStats().a.consecutiveFailures).toBe(0);
+    });
+
+    it('cleans up the dependents first', async () => {
+      const cleaned: string[] = [];
+      const cleanup = (id: string) => async () => {
+        cleaned.push(id);
+      };
+      const loader = await load(
+        createPlugin('a', { cleanup: cleanup('a') }),
+        createPlugin('b', { dependencies: ['a'], cleanup: cleanup('b') })
+      );
+
+      await loader.cleanupPlugins();
+
+      expect(cleaned).toEqual(['b', 'a']);
+    });
+  });
+
+  describe('reload', () => {
+    const reload = (loader: PluginLoader, file: string) =>
+      (loader as unknown as { reloadFile: (file: string) => Promise<void> }).reloadFile(file);
+
+    /**
+     * Change the plugin exported by a file, the next require loads it
+     */
+    const rewritePlugin = (file: string, plugin: Plugin) => {
+      jest.resetModules();
+      writePlugin(file, plugin);
+    };
+
+    it('replaces a changed plugin with its new version', async () => {
+      const previous = createPlugin('a', { subscribe: (pluginEvents) => pluginEvents.on('iteration:end', jest.fn()) });
+      const loader = await load(previous);
+      const listener = jest.fn();
+      const next = createPlugin('a', {
+        version: '1.1.0',
+        subscribe: (pluginEvents) => pluginEvents.on('iteration:end', listener),
+      });
+      rewritePlugin('a.js', next);
+
+      await reload(loader, 'a.js');
+
+      // The new version starts before the running one stops
+      expect(jest.mocked(next.initialize).mock.invocationCallOrder[0]).toBeLessThan(
+        jest.mocked(previous.cleanup).mock.invocationCallOrder[0]
+      );
+      expect(loader.getPlugin('a')).toBe(next);
+      expect(events.listenerCount('iteration:end')).toBe(1);
+
+      await events.emitAsync('iteration:end', { strategy: 'pingpong', iteration: 1, success: true });
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('keeps the running version when the new file fails to load', async () => {
+      const previous = createPlugin('a');
+      const loader = await load(previous);
+      rewritePlugin('a.js', { id: 'a' } as Plugin);
+
+      await reload(loader, 'a.js');
+
+      expect(loader.getPlugin('a')).toBe(previous);
+      expect(previous.enabled).toBe(true);
+      expect(previous.cleanup).not.toHaveBeenCalled();
+    });
+
+    it('keeps the running version when the new version fails to initialize', async () => {
+      const listener = jest.fn();
+      const previous = createPlugin('a', { subscribe: (pluginEvents) => pluginEvents.on('iteration:end', listener) });
+      const loader = await load(previous);
+      rewritePlugin('a.js', createPlugin('a', { initialize: jest.fn().mockRejectedValue(new Error('port in use')) }));
+
+      await reload(loader, 'a.js');
+
+      expect(loader.getPlugin('a')).toBe(previous);
+      expect(previous.enabled).toBe(true);
+      expect(previous.cleanup).not.toHaveBeenCalled();
+      await events.emitAsync('iteration:end', { strategy: 'pingpong', iteration: 1, success: true });
+      expect(listener).toHaveBeenCalled();
+    });
+
+    it('refuses a plugin id used by another file', async () => {
+      const loader = await load(createPlugin('a'));
+      writePlugin('copy.js', createPlugin('a'));
+
+      await reload(loader, 'copy.js');
+
+      expect(console.error).toHaveBeenCalledWith('Reload of copy.js failed, plugin id a is already used by a.js');
+    });
+
+    it('loads added files', async () => {
+      const loader = await load();
+      const plugin = createPlugin('a');
+      writePlugin('a.js', plugin);
+
+      await reload(loader, 'a.js');
+
+      expect(loader.getEnabledPlugins()).toEqual([plugin]);
+      expect(plugin.initialize).toHaveBeenCalled();
+    });
+
+    it('removes the plugin of a deleted file and disables its dependents', async () => {
+      const plugin = createPlugin('a');
+      const loader = await load(plugin, createPlugin('b', { dependencies: ['a'] }));
+      fs.unlinkSync(path.join(dir, 'a.js'));
+
+      await reload(loader, 'a.js');
+
+      expect(plugin.cleanup).toHaveBeenCalled();
+      expect(loader.getPlugin('a')).toBeUndefined();
+      expect(loader.getEnabledPlugins()).toEqual([]);
+    });
+
+    it('reloads the files changed in the watched directory', async () => {
+      const loader = await load();
+      loader.watchPlugins();
+      const plugin = createPlugin('a');
+
+      try {
+        writePlugin('a.js', plugin);
+        for (let waited = 0; !loader.getPlugin('a') && waited < 3000; waited += 50) {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+      } finally {
+        await loader.unwatchPlugins();
+      }
+
+      expect(loader.getPlugin('a')).toBe(plugin);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from '../../database/DatabaseService';
+import { Plugin } from '../../types';
+import { PluginSettingsStore } from '../PluginSettingsStore';
+
+describe('PluginSettingsStore', () => {
+  const plugin = { id: 'logger', enabled: false, config: { logDir: 'logs' } } as unknown as Plugin;
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-settings-'));
+    filePath = path.join(dir, 'plugins.json');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores the settings in the local file without PostgreSQL', async () => {
+    const store = new PluginSettingsStore(null, filePath);
+
+    expect(await store.load()).toEqual({});
+
+    await store.save(plugin);
+    await store.save({ id: 'webhook', enabled: true } as Plugin);
+
+    expect(await store.load()).toEqual({
+      logger: { enabled: false, config: { logDir: 'logs' } },
+      webhook: { enabled: true, config: {} },
+    });
+  });
+
+  it('reads an unreadable file as empty', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fs.writeFileSync(filePath, '{ not json');
+
+    expect(await new PluginSettingsStore(null, filePath).load()).toEqual({});
+  });
+
+  it('uses the plugins table when PostgreSQL is connected', async () => {
+    const settings = { logger: { enabled: true, config: {} } };
+    const dbService = {
+      isPgConnected: () => true,
+      getPluginSettings: jest.fn(async () => settings),
+      savePluginSettings: jest.fn(async () => undefined),
+    };
+    const store = new PluginSettingsStore(dbService as unknown as DatabaseService, filePath);
+
+    expect(await store.load()).toBe(settings);
+    await store.save(plugin);
+
+    expect(dbService.savePluginSettings).toHaveBeenCalledWith(plugin);
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { PluginContext, QuoteProvider, RouteInfo, SwapRequest, Token, TradeDecision, TradeEntry } from '../../types';
+import { PluginLoader } from '../PluginLoader';
+import { PluginTradeExecutor } from '../PluginTradeExecutor';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+const route = (amount: number, outAmount: number) =>
+  ({
+    inputMint: USDC.address,
+    outputMint: SOL.address,
+    amount: JSBI.BigInt(amount),
+    outAmount: JSBI.BigInt(outAmount),
+    slippageBps: 50,
+    swapMode: 'ExactIn',
+  }) as RouteInfo;
+
+describe('PluginTradeExecutor', () => {
+  const request: SwapRequest = {
+    route: route(100e6, 1e9),
+    inputToken: USDC,
+    outputToken: SOL,
+    buy: true,
+    expectedProfit: 0.5,
+  };
+  let beforeTrade: jest.Mock<Promise<TradeDecision>>;
+  let executeSwap: jest.Mock<Promise<TradeEntry>, [SwapRequest]>;
+  let getQuote: jest.Mock;
+  let executor: PluginTradeExecutor;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    beforeTrade = jest.fn(async () => ({}));
+    executeSwap = jest.fn(async (_request: SwapRequest) => ({ txStatus: 'confirmed' }) as TradeEntry);
+    getQuote = jest.fn(async ({ amount }) => route(Number(amount.toString()), 0.5e9));
+    const jupiter = { getQuote } as unknown as QuoteProvider;
+    const pluginLoader = { beforeTrade } as unknown as PluginLoader;
+    executor = new PluginTradeExecutor({ executeSwap }, pluginLoader, { jupiter } as PluginContext);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('executes the trade when the plugins allow it', async () => {
+    const trade = await executor.executeSwap(request);
+
+    expect(trade.txStatus).toBe('confirmed');
+    expect(executeSwap).toHaveBeenCalledWith(request);
+    expect(getQuote).not.toHaveBeenCalled();
+  });
+
+  it('returns vetoed trades without executing them', async () => {
+    beforeTrade.mockResolvedValue({ veto: true, reason: 'risk: too risky' });
+
+    const trade = await executor.executeSwap(request);
+
+    expect(trade).toMatchObject({
+      txStatus: 'vetoed',
+      error: 'Vetoed by risk: too risky',
+      inputToken: 'USDC',
+      outputToken: 'SOL',
+      inAmount: 100,
+    });
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+
+  it('vetoes trades resized to zero', async () => {
+    beforeTrade.mockResolvedValue({ amount: 0 });
+
+    const trade = await executor.executeSwap(request);
+
+    expect(trade.txStatus).toBe('vetoed');
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+
+  it('quotes resized trades again for the new amount', async () => {
+    beforeTrade.mockResolvedValue({ amount: 50e6 });
+
+    await executor.executeSwap(request);
+
+    expect(getQuote).toHaveBeenCalledWith({
+      inputMint: new PublicKey(USDC.address),
+      outputMint: new PublicKey(SOL.address),
+      amount: JSBI.BigInt(50e6),
+      slippageBps: 50,
+      swapMode: 'ExactIn',
+    });
+    const [resized] = executeSwap.mock.calls[0];
+    expect(resized.route.amount.toString()).toBe('50000000');
+    expect(resized.route.outAmount.toString()).toBe('500000000');
+  });
+
+  it('keeps the route when the proposed amount is the trade size', async () => {
+    beforeTrade.mockResolvedValue({ amount: 100e6 });
+
+    await executor.executeSwap(request);
+
+    expect(getQuote).not.toHaveBeenCalled();
+    expect(executeSwap).toHaveBeenCalledWith(request);
+  });
+});
@@ -0,0 +1,35 @@
+import { Plugin } from '../../types';
+import { BOT_VERSION, PLUGIN_API_VERSION, checkCompatibility, compareVersions } from '../compatibility';
+
+describe('compareVersions', () => {
+  it('compares versions part by part', () => {
+    expect(compareVersions('1.2.3', '1.2.3')).toBe(0);
+    expect(compareVersions('1.10.0', '1.9.9')).toBeGreaterThan(0);
+    expect(compareVersions('1.2', '1.2.1')).toBeLessThan(0);
+  });
+
+  it('ignores pre-release tags', () => {
+    expect(compareVersions('2.0.0-beta.1', '2.0.0')).toBe(0);
+  });
+});
+
+describe('checkCompatibility', () => {
+  const plugin = (fields: Partial<Plugin>) => ({ id: 'a', name: 'a', ...fields }) as Plugin;
+
+  it('accepts plugins written for this API and bot version', () => {
+    expect(checkCompatibility(plugin({}))).toBeNull();
+    expect(checkCompatibility(plugin({ apiVersion: PLUGIN_API_VERSION, minBotVersion: BOT_VERSION }))).toBeNull();
+  });
+
+  it('refuses plugins written for another API version', () => {
+    expect(checkCompatibility(plugin({ apiVersion: PLUGIN_API_VERSION + 1 }))).toBe(
+      `plugin API version ${PLUGIN_API_VERSION + 1} is not supported (expected ${PLUGIN_API_VERSION})`
+    );
+  });
+
+  it('refuses plugins requiring a newer bot', () => {
+    expect(checkCompatibility(plugin({ minBotVersion: '999.0.0' }))).toBe(
+      `requires bot version 999.0.0 or later (running ${BOT_VERSION})`
+    );
+  });
+});
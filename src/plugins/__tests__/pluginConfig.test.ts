@@ -0,0 +1,56 @@
+import { PluginConfigSchema } from '../../types';
+import { resolvePluginConfig, validatePluginConfig } from '../pluginConfig';
+
+const schema: PluginConfigSchema = {
+  url: { type: 'string', required: true },
+  threshold: { type: 'number', default: 1, min: 0, max: 10 },
+  level: { type: 'string', default: 'info', enum: ['info', 'debug'] },
+  tags: { type: 'array' },
+};
+
+describe('validatePluginConfig', () => {
+  it('accepts any config without a schema', () => {
+    expect(validatePluginConfig(undefined, { anything: true })).toEqual([]);
+  });
+
+  it('accepts a config matching the schema', () => {
+    expect(validatePluginConfig(schema, { url: 'https://example.com', threshold: 5, tags: ['a'] })).toEqual([]);
+  });
+
+  it('reports every invalid option', () => {
+    expect(
+      validatePluginConfig(schema, { threshold: 11, level: 'trace', tags: 'a', extra: 1 })
+    ).toEqual([
+      'extra is not a known option',
+      'url is required',
+      'threshold must be <= 10',
+      'level must be one of info, debug',
+      'tags must be of type array, got string',
+    ]);
+  });
+
+  it('refuses numbers that are not finite', () => {
+    expect(validatePluginConfig(schema, { url: 'x', threshold: NaN })).toEqual(['threshold must be a finite number']);
+  });
+});
+
+describe('resolvePluginConfig', () => {
+  it('merges the config layers over the schema defaults', () => {
+    const { config, errors } = resolvePluginConfig(
+      schema,
+      { url: 'https://a.example.com', threshold: 2 },
+      { threshold: 3 },
+      undefined
+    );
+
+    expect(config).toEqual({ url: 'https://a.example.com', threshold: 3, level: 'info' });
+    expect(errors).toEqual([]);
+  });
+
+  it('returns the errors of the merged config', () => {
+    expect(resolvePluginConfig(schema, { threshold: -1 }).errors).toEqual([
+      'url is required',
+      'threshold must be >= 0',
+    ]);
+  });
+});
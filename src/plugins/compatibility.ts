@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Plugin } from '../types';
+
+/**
+ * Version of the plugin API, bumped on breaking changes to the Plugin interface
+ */
+export const PLUGIN_API_VERSION = 1;
+
+/**
+ * Read the bot version from package.json, relative to both src/ and dist/
+ */
+const readBotVersion = (): string => {
+  try {
+    const packageJson = fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8');
+    return JSON.parse(packageJson).version;
+  } catch (err) {
+    return process.env.npm_package_version || '0.0.0';
+  }
+};
+
+export const BOT_VERSION = readBotVersion();
+
+/**
+ * Compare two x.y.z versions, pre-release tags are ignored
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const parse = (version: string) =>
+    version
+      .split('-')[0]
+      .split('.')
+      .map((part) => parseInt(part, 10) || 0);
+
+  const partsA = parse(a);
+  const partsB = parse(b);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+
+  return 0;
+};
+
+/**
+ * Check if a plugin can run on this bot
+ * @returns The reason the plugin is incompatible, null when it is compatible
+ */
+export const checkCompatibility = (plugin: Plugin): string | null => {
+  const apiVersion = plugin.apiVersion ?? 1;
+  if (apiVersion !== PLUGIN_API_VERSION) {
+    return `plugin API version ${apiVersion} is not supported (expected ${PLUGIN_API_VERSION})`;
+  }
+
+  if (plugin.minBotVersion && compareVersions(BOT_VERSION, plugin.minBotVersion) < 0) {
+    return `requires bot version ${plugin.minBotVersion} or later (running ${BOT_VERSION})`;
+  }
+
+  return null;
+};
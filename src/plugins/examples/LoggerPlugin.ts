@@ -3,6 +3,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as util from 'util';
 
+/**
+ * Get the configured log directory
+ */
+const getLogDir = (): string => path.resolve(process.cwd(), String(LoggerPlugin.config?.logDir ?? 'logs'));
+
 /**
  * Example Logger Plugin for the Solana Jupiter Bot
  * This plugin logs trade information to files for analysis
@@ -13,10 +18,17 @@ const LoggerPlugin: Plugin = {
   description: 'Logs trade information to files for analysis',
   version: '1.0.0',
   enabled: true,
+  configSchema: {
+    logDir: {
+      type: 'string',
+      description: 'Directory the log files are written to, relative to the working directory',
+      default: 'logs',
+    },
+  },
   
   // Initialize the plugin
   initialize: async () => {
-    const logDir = path.join(process.cwd(), 'logs');
+    const logDir = getLogDir();
     
     // Create logs directory if it doesn't exist
     if (!fs.existsSync(logDir)) {
@@ -51,7 +63,7 @@ const LoggerPlugin: Plugin = {
       };
       
       // Write to log file
-      const logPath = path.join(process.cwd(), 'logs', `trades_${new Date().toISOString().split('T')[0]}.log`);
+      const logPath = path.join(getLogDir(), `trades_${new Date().toISOString().split('T')[0]}.log`);
       
       fs.appendFileSync(
         logPath,
@@ -60,6 +72,23 @@ const LoggerPlugin: Plugin = {
     }
   },
   
+  // Log failed trades as they happen
+  subscribe: (events) => {
+    events.on('trade:failed', ({ trade, error }) => {
+      const logPath = path.join(getLogDir(), `failed_trades_${new Date().toISOString().split('T')[0]}.log`);
+      
+      fs.appendFileSync(
+        logPath,
+        util.format('%j\n', { timestamp: new Date().toISOString(), error, trade })
+      );
+    });
+  },
+  
+  // Create the new log directory when it changes
+  onConfigChange: async () => {
+    fs.mkdirSync(getLogDir(), { recursive: true });
+  },
+  
   // Clean up resources when shutting down
   cleanup: async () => {
     console.log('Logger plugin cleanup complete');
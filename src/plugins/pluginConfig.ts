@@ -0,0 +1,83 @@
+import { PluginConfigOption, PluginConfigSchema } from '../types';
+
+/**
+ * Check a single config value against its declared option
+ */
+const validateOption = (key: string, option: PluginConfigOption, value: unknown): string | null => {
+  if (value === undefined || value === null) {
+    return option.required ? `${key} is required` : null;
+  }
+
+  const type = Array.isArray(value) ? 'array' : typeof value;
+  if (type !== option.type) {
+    return `${key} must be of type ${option.type}, got ${type}`;
+  }
+
+  if (option.type === 'number') {
+    const number = value as number;
+    if (!Number.isFinite(number)) {
+      return `${key} must be a finite number`;
+    }
+    if (option.min !== undefined && number < option.min) {
+      return `${key} must be >= ${option.min}`;
+    }
+    if (option.max !== undefined && number > option.max) {
+      return `${key} must be <= ${option.max}`;
+    }
+  }
+
+  if (option.enum && !option.enum.includes(value)) {
+    return `${key} must be one of ${option.enum.join(', ')}`;
+  }
+
+  return null;
+};
+
+/**
+ * Validate a plugin config against its schema
+ * Plugins without a schema accept any config
+ * @returns The list of validation errors, empty when the config is valid
+ */
+export const validatePluginConfig = (
+  schema: PluginConfigSchema | undefined,
+  config: Record<string, unknown>
+): string[] => {
+  if (!schema) {
+    return [];
+  }
+
+  const errors = Object.keys(config)
+    .filter((key) => !(key in schema))
+    .map((key) => `${key} is not a known option`);
+
+  for (const [key, option] of Object.entries(schema)) {
+    const error = validateOption(key, option, config[key]);
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Merge the schema defaults with config layers, later layers win
+ */
+export const resolvePluginConfig = (
+  schema: PluginConfigSchema | undefined,
+  ...layers: Array<Record<string, unknown> | undefined>
+): { config: Record<string, unknown>; errors: string[] } => {
+  const config: Record<string, unknown> = {};
+
+  for (const [key, option] of Object.entries(schema ?? {})) {
+    if (option.default !== undefined) {
+      config[key] = option.default;
+    }
+  }
+
+  for (const layer of layers) {
+    Object.assign(config, layer);
+  }
+
+  return { config, errors: validatePluginConfig(schema, config) };
+};
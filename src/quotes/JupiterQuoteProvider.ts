@@ -0,0 +1,228 @@
+import axios, { AxiosInstance } from 'axios';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { NoRoutesError, QuoteError, QuoteTimeoutError } from '../errors';
+import {
+  ComputeRoutesParams,
+  QuoteParams,
+  QuoteProvider,
+  RouteInfo,
+  RoutePlanStep,
+  RoutesResponse,
+  SwapMode,
+  SwapOptions,
+  SwapTransaction,
+} from '../types';
+
+/**
+ * Default Jupiter v6 API endpoint
+ */
+export const DEFAULT_JUPITER_API_URL = 'https://quote-api.jup.ag/v6';
+
+/**
+ * API error codes meaning no route exists for the requested swap
+ */
+const NO_ROUTE_ERROR_CODES = ['COULD_NOT_FIND_ANY_ROUTE', 'NO_ROUTES_FOUND', 'TOKEN_NOT_TRADABLE'];
+
+/**
+ * Options for the Jupiter quote provider
+ */
+export interface JupiterQuoteProviderOptions {
+  baseUrl?: string;
+  timeout?: number;
+}
+
+/**
+ * Quote response as returned by the Jupiter v6 API
+ */
+interface JupiterQuoteResponse {
+  inputMint: string;
+  inAmount: string;
+  outputMint: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  swapMode: SwapMode;
+  slippageBps: number;
+  platformFee: { amount: string; feeBps: number } | null;
+  priceImpactPct: string;
+  routePlan: RoutePlanStep[];
+  contextSlot?: number;
+  timeTaken?: number;
+}
+
+/**
+ * Swap response as returned by the Jupiter v6 API
+ */
+interface JupiterSwapResponse {
+  swapTransaction: string;
+  lastValidBlockHeight: number;
+  prioritizationFeeLamports?: number;
+}
+
+/**
+ * JupiterQuoteProvider implements the quote provider on top of the Jupiter v6 HTTP API
+ * The base URL can point to any server implementing the same endpoints
+ */
+export class JupiterQuoteProvider implements QuoteProvider {
+  private http: AxiosInstance;
+
+  constructor(options: JupiterQuoteProviderOptions = {}) {
+    this.http = axios.create({
+      baseURL: options.baseUrl || DEFAULT_JUPITER_API_URL,
+      timeout: options.timeout ?? 10000,
+    });
+  }
+
+  /**
+   * Get the best quote for a swap
+   */
+  async getQuote(params: QuoteParams): Promise<RouteInfo> {
+    try {
+      const { data } = await this.http.get<JupiterQuoteResponse>('/quote', {
+        params: {
+          inputMint: params.inputMint.toBase58(),
+          outputMint: params.outputMint.toBase58(),
+          amount: params.amount.toString(),
+          slippageBps: params.slippageBps,
+          swapMode: params.swapMode ?? 'ExactIn',
+          onlyDirectRoutes: params.onlyDirectRoutes ?? false,
+        },
+      });
+
+      return this.toRouteInfo(data);
+    } catch (err) {
+      throw this.toQuoteError(err);
+    }
+  }
+
+  /**
+   * List candidate routes for a swap
+   * The v6 API returns a single best route per request, so alternatives are
+   * collected by also asking for direct routes only
+   */
+  async computeRoutes(params: ComputeRoutesParams): Promise<RoutesResponse> {
+    const limit = params.filterTopNResult ?? 1;
+    const requests = [this.getQuote(params)];
+
+    if (limit > 1 && !params.onlyDirectRoutes) {
+      requests.push(this.getQuote({ ...params, onlyDirectRoutes: true }));
+    }
+
+    const results = await Promise.allSettled(requests);
+    const routes = results
+      .filter((result): result is PromiseFulfilledResult<RouteInfo> => result.status === 'fulfilled')
+      .map((result) => result.value);
+
+    // Surface the error if no request succeeded
+    if (routes.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    const uniqueRoutes = routes.filter(
+      (route, index) =>
+        routes.findIndex((other) => this.routeKey(other) === this.routeKey(route)) === index
+    );
+
+    uniqueRoutes.sort((a, b) => (JSBI.greaterThan(a.outAmount, b.outAmount) ? -1 : 1));
+
+    return { routesInfos: uniqueRoutes.slice(0, limit) };
+  }
+
+  /**
+   * Build an unsigned swap transaction for a route
+   */
+  async buildSwapTransaction(
+    route: RouteInfo,
+    userPublicKey: PublicKey,
+    options: SwapOptions = {}
+  ): Promise<SwapTransaction> {
+    let data: JupiterSwapResponse;
+    try {
+      ({ data } = await this.http.post<JupiterSwapResponse>('/swap', {
+        quoteResponse: this.toQuoteResponse(route),
+        userPublicKey: userPublicKey.toBase58(),
+        wrapAndUnwrapSol: options.wrapAndUnwrapSol ?? true,
+        computeUnitPriceMicroLamports: options.computeUnitPriceMicroLamports,
+        dynamicComputeUnitLimit: true,
+      }));
+    } catch (err) {
+      throw this.toQuoteError(err);
+    }
+
+    return {
+      transaction: VersionedTransaction.deserialize(Buffer.from(data.swapTransaction, 'base64')),
+      lastValidBlockHeight: data.lastValidBlockHeight,
+      prioritizationFeeLamports: data.prioritizationFeeLamports,
+    };
+  }
+
+  /**
+   * Convert an API quote into a route
+   */
+  private toRouteInfo(quote: JupiterQuoteResponse): RouteInfo {
+    return {
+      inputMint: quote.inputMint,
+      outputMint: quote.outputMint,
+      amount: JSBI.BigInt(quote.inAmount),
+      outAmount: JSBI.BigInt(quote.outAmount),
+      otherAmountThreshold: JSBI.BigInt(quote.otherAmountThreshold),
+      swapMode: quote.swapMode,
+      priceImpactPct: parseFloat(quote.priceImpactPct),
+      routePlan: quote.routePlan,
+      slippageBps: quote.slippageBps,
+      contextSlot: quote.contextSlot,
+      quoteResponse: { ...quote },
+    };
+  }
+
+  /**
+   * Get the quote expected by the swap endpoint
+   * Routes from the quote API return the API response unchanged, other routes are converted
+   */
+  private toQuoteResponse(route: RouteInfo): Record<string, unknown> {
+    if (route.quoteResponse) {
+      return route.quoteResponse;
+    }
+
+    return {
+      inputMint: route.inputMint,
+      inAmount: route.amount.toString(),
+      outputMint: route.outputMint,
+      outAmount: route.outAmount.toString(),
+      otherAmountThreshold: route.otherAmountThreshold.toString(),
+      swapMode: route.swapMode,
+      slippageBps: route.slippageBps,
+      platformFee: null,
+      priceImpactPct: route.priceImpactPct.toString(),
+      routePlan: route.routePlan,
+      contextSlot: route.contextSlot,
+    };
+  }
+
+  /**
+   * Convert an HTTP failure into a typed error
+   */
+  private toQuoteError(err: unknown): Error {
+    if (!axios.isAxiosError(err)) {
+      return err instanceof Error ? err : new QuoteError(String(err));
+    }
+
+    if (err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT') {
+      return new QuoteTimeoutError(`Jupiter API timed out: ${err.message}`, err);
+    }
+
+    const data = err.response?.data as { error?: string; errorCode?: string } | undefined;
+    if (data?.errorCode && NO_ROUTE_ERROR_CODES.includes(data.errorCode)) {
+      return new NoRoutesError(data.error, err);
+    }
+
+    return new QuoteError(`Jupiter API error: ${data?.error ?? err.message}`, err);
+  }
+
+  /**
+   * Identify a route by the AMMs it goes through
+   */
+  private routeKey(route: RouteInfo): string {
+    return route.routePlan.map((step) => step.swapInfo.ammKey).join('>');
+  }
+}
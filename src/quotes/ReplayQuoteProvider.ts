@@ -0,0 +1,140 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { NoRoutesError } from '../errors';
+import {
+  Clock,
+  ComputeRoutesParams,
+  QuoteParams,
+  QuoteProvider,
+  QuoteSnapshot,
+  RouteInfo,
+  RoutesResponse,
+  SwapTransaction,
+} from '../types';
+
+/**
+ * ReplayQuoteProvider answers quotes from recorded snapshots
+ * The latest snapshot at or before the clock's current time is used and its
+ * price is scaled to the requested amount. When a pair was only recorded in
+ * one direction the inverse price is used for the other direction.
+ */
+export class ReplayQuoteProvider implements QuoteProvider {
+  private snapshots: Map<string, QuoteSnapshot[]> = new Map();
+  private clock: Clock;
+
+  constructor(snapshots: QuoteSnapshot[], clock: Clock) {
+    this.clock = clock;
+
+    for (const snapshot of snapshots) {
+      const key = this.pairKey(snapshot.inputMint, snapshot.outputMint);
+      if (!this.snapshots.has(key)) {
+        this.snapshots.set(key, []);
+      }
+      this.snapshots.get(key)!.push(snapshot);
+    }
+
+    for (const series of this.snapshots.values()) {
+      series.sort((a, b) => a.timestamp - b.timestamp);
+    }
+  }
+
+  /**
+   * Get a quote from the recorded snapshots
+   */
+  async getQuote(params: QuoteParams): Promise<RouteInfo> {
+    const inputMint = params.inputMint.toBase58();
+    const outputMint = params.outputMint.toBase58();
+    const now = this.clock.now();
+
+    let snapshot = this.findSnapshot(inputMint, outputMint, now);
+    let rate = snapshot ? Number(snapshot.outAmount) / Number(snapshot.inAmount) : 0;
+
+    if (!snapshot) {
+      snapshot = this.findSnapshot(outputMint, inputMint, now);
+      rate = snapshot ? Number(snapshot.inAmount) / Number(snapshot.outAmount) : 0;
+    }
+
+    if (!snapshot) {
+      throw new NoRoutesError(`No recorded quote for ${inputMint} -> ${outputMint} at ${new Date(now).toISOString()}`);
+    }
+
+    const amount = Number(params.amount.toString());
+    const outAmount = Math.floor(amount * rate);
+    const otherAmountThreshold = Math.floor(outAmount * (1 - params.slippageBps / 10000));
+
+    return {
+      inputMint,
+      outputMint,
+      amount: params.amount,
+      outAmount: JSBI.BigInt(outAmount),
+      otherAmountThreshold: JSBI.BigInt(otherAmountThreshold),
+      swapMode: params.swapMode ?? 'ExactIn',
+      priceImpactPct: snapshot.priceImpactPct ?? 0,
+      routePlan: snapshot.routePlan ?? [],
+      slippageBps: params.slippageBps,
+    };
+  }
+
+  /**
+   * Recorded data holds a single route per pair and time
+   */
+  async computeRoutes(params: ComputeRoutesParams): Promise<RoutesResponse> {
+    return { routesInfos: [await this.getQuote(params)] };
+  }
+
+  /**
+   * Replayed routes cannot be executed on chain
+   */
+  async buildSwapTransaction(_route: RouteInfo, _userPublicKey: PublicKey): Promise<SwapTransaction> {
+    throw new Error('Swap transactions are not available when replaying quotes');
+  }
+
+  /**
+   * Get the time range covered by the snapshots
+   */
+  getTimeRange(): { start: number; end: number } | null {
+    let range: { start: number; end: number } | null = null;
+
+    for (const series of this.snapshots.values()) {
+      if (series.length === 0) {
+        continue;
+      }
+
+      const start = series[0].timestamp;
+      const end = series[series.length - 1].timestamp;
+      range = range
+        ? { start: Math.min(range.start, start), end: Math.max(range.end, end) }
+        : { start, end };
+    }
+
+    return range;
+  }
+
+  /**
+   * Find the latest snapshot at or before the given time
+   */
+  private findSnapshot(inputMint: string, outputMint: string, time: number): QuoteSnapshot | null {
+    const series = this.snapshots.get(this.pairKey(inputMint, outputMint));
+    if (!series || series.length === 0 || series[0].timestamp > time) {
+      return null;
+    }
+
+    // Binary search for the last snapshot not after the given time
+    let low = 0;
+    let high = series.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (series[mid].timestamp <= time) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return series[low];
+  }
+
+  private pairKey(inputMint: string, outputMint: string): string {
+    return `${inputMint}:${outputMint}`;
+  }
+}
@@ -0,0 +1,163 @@
+import { Keypair, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import JSBI from 'jsbi';
+import { NoRoutesError, QuoteError, QuoteTimeoutError } from '../../errors';
+import { JupiterQuoteProvider } from '../JupiterQuoteProvider';
+
+const USDC = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+const SOL = new PublicKey('So11111111111111111111111111111111111111112');
+
+// Quote of 100 USDC for 1 SOL through the given AMM
+const quoteResponse = (outAmount: string, ammKey = 'amm-1') => ({
+  inputMint: USDC.toBase58(),
+  inAmount: '100000000',
+  outputMint: SOL.toBase58(),
+  outAmount,
+  otherAmountThreshold: '995000000',
+  swapMode: 'ExactIn',
+  slippageBps: 50,
+  platformFee: null,
+  priceImpactPct: '0.001',
+  routePlan: [{ swapInfo: { ammKey, label: 'Whirlpool' }, percent: 100 }],
+  contextSlot: 42,
+});
+
+type Handler = (url: URL, body: string) => { status?: number; body: unknown } | null;
+
+describe('JupiterQuoteProvider', () => {
+  let server: http.Server;
+  let handler: Handler;
+  let provider: JupiterQuoteProvider;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const reply = handler(new URL(req.url!, 'http://localhost'), body);
+        if (!reply) {
+          // Never answer, the client times out
+          return;
+        }
+        res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    const { port } = server.address() as AddressInfo;
+    provider = new JupiterQuoteProvider({ baseUrl: `http://127.0.0.1:${port}`, timeout: 200 });
+  });
+
+  const params = { inputMint: USDC, outputMint: SOL, amount: JSBI.BigInt(100e6), slippageBps: 50 };
+
+  it('quotes a swap and keeps the API response', async () => {
+    let query: URLSearchParams | undefined;
+    handler = (url) => {
+      query = url.searchParams;
+      return { body: quoteResponse('1000000000') };
+    };
+
+    const route = await provider.getQuote(params);
+
+    expect(Object.fromEntries(query!)).toEqual({
+      inputMint: USDC.toBase58(),
+      outputMint: SOL.toBase58(),
+      amount: '100000000',
+      slippageBps: '50',
+      swapMode: 'ExactIn',
+      onlyDirectRoutes: 'false',
+    });
+    expect(route).toMatchObject({
+      inputMint: USDC.toBase58(),
+      outputMint: SOL.toBase58(),
+      amount: JSBI.BigInt(100e6),
+      outAmount: JSBI.BigInt(1e9),
+      otherAmountThreshold: JSBI.BigInt(0.995e9),
+      priceImpactPct: 0.001,
+      contextSlot: 42,
+      quoteResponse: quoteResponse('1000000000'),
+    });
+  });
+
+  it('throws NoRoutesError when the API finds no route', async () => {
+    handler = () => ({ status: 400, body: { error: 'Could not find any route', errorCode: 'COULD_NOT_FIND_ANY_ROUTE' } });
+
+    await expect(provider.getQuote(params)).rejects.toThrow(NoRoutesError);
+  });
+
+  it('throws QuoteError on other API errors', async () => {
+    handler = () => ({ status: 500, body: { error: 'Internal error' } });
+
+    await expect(provider.getQuote(params)).rejects.toThrow(QuoteError);
+    await expect(provider.getQuote(params)).rejects.toThrow('Jupiter API error: Internal error');
+  });
+
+  it('throws QuoteTimeoutError when the API does not answer in time', async () => {
+    handler = () => null;
+
+    await expect(provider.getQuote(params)).rejects.toThrow(QuoteTimeoutError);
+  });
+
+  it('lists the best and the best direct route, best output first', async () => {
+    handler = (url) =>
+      url.searchParams.get('onlyDirectRoutes') === 'true'
+        ? { body: quoteResponse('1010000000', 'amm-2') }
+        : { body: quoteResponse('1000000000', 'amm-1') };
+
+    const { routesInfos } = await provider.computeRoutes({ ...params, filterTopNResult: 2 });
+
+    expect(routesInfos.map((route) => route.outAmount.toString())).toEqual(['1010000000', '1000000000']);
+  });
+
+  it('lists a route found by both requests once', async () => {
+    handler = () => ({ body: quoteResponse('1000000000') });
+
+    const { routesInfos } = await provider.computeRoutes({ ...params, filterTopNResult: 2 });
+
+    expect(routesInfos).toHaveLength(1);
+  });
+
+  it('sends the quote response back unchanged to build the swap', async () => {
+    const wallet = Keypair.generate();
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [],
+    }).compileToV0Message();
+    const swapTransaction = Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+
+    let request: Record<string, unknown> = {};
+    handler = (url, body) => {
+      if (url.pathname === '/quote') {
+        return { body: quoteResponse('1000000000') };
+      }
+      request = JSON.parse(body);
+      return { body: { swapTransaction, lastValidBlockHeight: 1000, prioritizationFeeLamports: 5000 } };
+    };
+
+    const route = await provider.getQuote(params);
+    const swap = await provider.buildSwapTransaction(route, wallet.publicKey, {
+      computeUnitPriceMicroLamports: 10000,
+      wrapAndUnwrapSol: false,
+    });
+
+    expect(request).toEqual({
+      quoteResponse: quoteResponse('1000000000'),
+      userPublicKey: wallet.publicKey.toBase58(),
+      wrapAndUnwrapSol: false,
+      computeUnitPriceMicroLamports: 10000,
+      dynamicComputeUnitLimit: true,
+    });
+    expect(swap.transaction.message.staticAccountKeys[0].equals(wallet.publicKey)).toBe(true);
+    expect(swap).toMatchObject({ lastValidBlockHeight: 1000, prioritizationFeeLamports: 5000 });
+  });
+});
@@ -0,0 +1,106 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { SimulatedClock } from '../../backtest/SimulatedClock';
+import { NoRoutesError } from '../../errors';
+import { QuoteSnapshot, Token } from '../../types';
+import { ReplayQuoteProvider } from '../ReplayQuoteProvider';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+const BONK: Token = { symbol: 'BONK', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 };
+
+const T0 = 1_700_000_000_000;
+
+// Price of 1 SOL in USDC at a time
+const snapshot = (timestamp: number, price: number): QuoteSnapshot => ({
+  timestamp,
+  inputMint: USDC.address,
+  outputMint: SOL.address,
+  inAmount: String(price * 1e6),
+  outAmount: String(1e9),
+  priceImpactPct: 0.01,
+});
+
+const quote = (provider: ReplayQuoteProvider, inputToken: Token, outputToken: Token, amount: number, slippageBps = 0) =>
+  provider.getQuote({
+    inputMint: new PublicKey(inputToken.address),
+    outputMint: new PublicKey(outputToken.address),
+    amount: JSBI.BigInt(amount),
+    slippageBps,
+  });
+
+describe('ReplayQuoteProvider', () => {
+  let clock: SimulatedClock;
+  let provider: ReplayQuoteProvider;
+
+  beforeEach(() => {
+    clock = new SimulatedClock(T0);
+    // Recorded out of order on purpose
+    provider = new ReplayQuoteProvider([snapshot(T0 + 2000, 120), snapshot(T0, 100), snapshot(T0 + 1000, 110)], clock);
+  });
+
+  it('scales the latest snapshot to the requested amount', async () => {
+    clock.set(T0 + 1500);
+
+    const route = await quote(provider, USDC, SOL, 220e6);
+
+    expect(route.outAmount.toString()).toBe(String(2e9));
+    expect(route.amount.toString()).toBe(String(220e6));
+    expect(route.priceImpactPct).toBe(0.01);
+  });
+
+  it('uses the snapshot recorded at the current time', async () => {
+    clock.set(T0 + 2000);
+
+    const route = await quote(provider, USDC, SOL, 120e6);
+
+    expect(route.outAmount.toString()).toBe(String(1e9));
+  });
+
+  it('prices the other direction with the inverse rate', async () => {
+    clock.set(T0 + 1000);
+
+    const route = await quote(provider, SOL, USDC, 2e9);
+
+    expect(route.inputMint).toBe(SOL.address);
+    expect(route.outAmount.toString()).toBe(String(220e6));
+  });
+
+  it('applies the slippage to the output threshold', async () => {
+    const route = await quote(provider, USDC, SOL, 100e6, 50);
+
+    expect(route.otherAmountThreshold.toString()).toBe(String(0.995e9));
+    expect(route.slippageBps).toBe(50);
+  });
+
+  it('has no route before the first snapshot or for an unknown pair', async () => {
+    clock.set(T0 - 1);
+    await expect(quote(provider, USDC, SOL, 100e6)).rejects.toThrow(NoRoutesError);
+
+    clock.set(T0);
+    await expect(quote(provider, USDC, BONK, 100e6)).rejects.toThrow(NoRoutesError);
+  });
+
+  it('answers route computations with the replayed quote', async () => {
+    const { routesInfos } = await provider.computeRoutes({
+      inputMint: new PublicKey(USDC.address),
+      outputMint: new PublicKey(SOL.address),
+      amount: JSBI.BigInt(100e6),
+      slippageBps: 0,
+    });
+
+    expect(routesInfos).toHaveLength(1);
+    expect(routesInfos[0].outAmount.toString()).toBe(String(1e9));
+  });
+
+  it('refuses to build swap transactions', async () => {
+    const route = await quote(provider, USDC, SOL, 100e6);
+
+    await expect(provider.buildSwapTransaction(route, new PublicKey(USDC.address))).rejects.toThrow(/not available/);
+  });
+
+  it('reports the time range of the snapshots', () => {
+    expect(provider.getTimeRange()).toEqual({ start: T0, end: T0 + 2000 });
+    expect(new ReplayQuoteProvider([], clock).getTimeRange()).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import { Connection } from '@solana/web3.js';
+import { ConfigError, RpcError } from '../errors';
+import { BotCache, RpcEndpointStats } from '../types';
+
+/**
+ * Options for the RPC pool
+ */
+export interface RpcPoolOptions {
+  // Interval between health checks (ms)
+  healthCheckInterval?: number;
+  // Max time to wait for a probe (ms)
+  probeTimeout?: number;
+  // Endpoints further behind the highest block height are ranked last
+  maxBlockLag?: number;
+  // First backoff after a failure (ms), doubled on each consecutive failure
+  baseBackoff?: number;
+  maxBackoff?: number;
+}
+
+interface RpcEndpoint {
+  connection: Connection;
+  stats: RpcEndpointStats;
+}
+
+const DEFAULT_OPTIONS: Required<RpcPoolOptions> = {
+  healthCheckInterval: 30000,
+  probeTimeout: 5000,
+  maxBlockLag: 50,
+  baseBackoff: 500,
+  maxBackoff: 30000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Check if an RPC error is worth retrying on another endpoint
+ */
+export const isRetryableRpcError = (err: unknown): boolean => {
+  const message = err instanceof Error ? err.message : String(err);
+  return /429|too many requests|timeout|timed out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|ENOTFOUND|fetch failed|socket hang up|50[234]/i.test(
+    message
+  );
+};
+
+/**
+ * RpcPool keeps a ranked set of RPC connections
+ * Endpoints are probed for block height and latency, requests go to the best
+ * endpoint and rotate to the next one on rate limits and timeouts
+ */
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+  private options: Required<RpcPoolOptions>;
+  private caches: BotCache[];
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+
+  constructor(urls: string[], cache: BotCache | null = null, options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new ConfigError('No RPC endpoints configured');
+    }
+
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.caches = cache ? [cache] : [];
+    this.endpoints = Array.from(new Set(urls)).map((url) => ({
+      connection: new Connection(url, 'confirmed'),
+      stats: {
+        url,
+        healthy: true,
+        latency: 0,
+        blockHeight: 0,
+        lastChecked: 0,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        backoffUntil: 0,
+      },
+    }));
+  }
+
+  /**
+   * Probe every endpoint for block height and latency
+   */
+  async probe(): Promise<void> {
+    await Promise.all(this.endpoints.map((endpoint) => this.probeEndpoint(endpoint)));
+    this.updateCache();
+  }
+
+  /**
+   * Start periodic health checks
+   */
+  startHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      return;
+    }
+
+    this.healthCheckTimer = setInterval(() => {
+      this.probe().catch((err) => console.error('RPC health check failed:', err));
+    }, this.options.healthCheckInterval);
+  }
+
+  /**
+   * Stop periodic health checks
+   */
+  stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Get the connection of the best ranked endpoint
+   */
+  getConnection(): Connection {
+    return this.rankEndpoints()[0].connection;
+  }
+
+  /**
+   * Run a request against the best endpoint, rotating to the next one on
+   * rate limits and timeouts
+   * @param request The request to run with a connection
+   */
+  async execute<T>(request: (connection: Connection) => Promise<T>): Promise<T> {
+    const maxAttempts = this.endpoints.length * 2;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const endpoint = this.rankEndpoints()[0];
+
+      // Wait for the backoff if every endpoint is backing off
+      const wait = endpoint.stats.backoffUntil - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+
+      endpoint.stats.requests++;
+
+      try {
+        const result = await request(endpoint.connection);
+        this.markSuccess(endpoint);
+        return result;
+      } catch (err) {
+        if (!isRetryableRpcError(err)) {
+          throw err;
+        }
+
+        lastError = err;
+        this.markFailure(endpoint);
+        console.warn(`RPC ${endpoint.stats.url} failed, rotating: ${err instanceof Error ? err.message : err}`);
+      } finally {
+        this.updateCache();
+      }
+    }
+
+    throw new RpcError(
+      `All RPC endpoints failed: ${lastError instanceof Error ? lastError.message : lastError}`,
+      lastError
+    );
+  }
+
+  /**
+   * Get statistics for every endpoint
+   */
+  getStats(): RpcEndpointStats[] {
+    return this.endpoints.map((endpoint) => ({ ...endpoint.stats }));
+  }
+
+  /**
+   * Probe a single endpoint
+   */
+  private async probeEndpoint(endpoint: RpcEndpoint): Promise<void> {
+    const start = performance.now();
+
+    try {
+      const blockHeight = await Promise.race([
+        endpoint.connection.getBlockHeight(),
+        sleep(this.options.probeTimeout).then(() => {
+          throw new Error('Probe timed out');
+        }),
+      ]);
+
+      endpoint.stats.blockHeight = blockHeight;
+      endpoint.stats.latency = performance.now() - start;
+      endpoint.stats.healthy = true;
+      endpoint.stats.consecutiveFailures = 0;
+    } catch (err) {
+      endpoint.stats.healthy = false;
+      endpoint.stats.failures++;
+      endpoint.stats.consecutiveFailures++;
+    } finally {
+      endpoint.stats.lastChecked = Date.now();
+    }
+  }
+
+  /**
+   * Order endpoints from best to worst
+   * Healthy endpoints that are not backing off and keep up with the highest
+   * block height come first, ordered by latency
+   */
+  private rankEndpoints(): RpcEndpoint[] {
+    const now = Date.now();
+    const maxBlockHeight = Math.max(...this.endpoints.map((endpoint) => endpoint.stats.blockHeight));
+
+    const score = (endpoint: RpcEndpoint): number => {
+      const { stats } = endpoint;
+      let penalty = 0;
+      if (stats.backoffUntil > now) penalty += 4;
+      if (!stats.healthy) penalty += 2;
+      if (maxBlockHeight - stats.blockHeight > this.options.maxBlockLag) penalty += 1;
+      return penalty;
+    };
+
+    return [...this.endpoints].sort(
+      (a, b) =>
+        score(a) - score(b) ||
+        Math.max(a.stats.backoffUntil - now, 0) - Math.max(b.stats.backoffUntil - now, 0) ||
+        a.stats.latency - b.stats.latency
+    );
+  }
+
+  private markSuccess(endpoint: RpcEndpoint): void {
+    endpoint.stats.healthy = true;
+    endpoint.stats.consecutiveFailures = 0;
+    endpoint.stats.backoffUntil = 0;
+  }
+
+  private markFailure(endpoint: RpcEndpoint): void {
+    const { stats } = endpoint;
+    stats.failures++;
+    stats.consecutiveFailures++;
+
+    const backoff = Math.min(
+      this.options.baseBackoff * Math.pow(2, stats.consecutiveFailures - 1),
+      this.options.maxBackoff
+    );
+    stats.backoffUntil = Date.now() + backoff;
+  }
+
+  /**
+   * Expose the stats in another bot cache, used when bot instances share the pool
+   */
+  addCache(cache: BotCache): void {
+    this.caches.push(cache);
+    this.updateCache();
+  }
+
+  /**
+   * Expose the current stats in the bot caches
+   */
+  private updateCache(): void {
+    const active = this.rankEndpoints()[0].stats.url;
+    const endpoints = this.getStats();
+
+    for (const cache of this.caches) {
+      cache.rpc.active = active;
+      cache.rpc.endpoints = endpoints;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Connection } from '@solana/web3.js';
+import { createCache } from '../../core/cache';
+import { ConfigError, RpcError } from '../../errors';
+import { TradingConfig } from '../../types';
+import { RpcPool, isRetryableRpcError } from '../RpcPool';
+
+const A = 'https://a.example.com';
+const B = 'https://b.example.com';
+
+describe('RpcPool', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('needs at least one endpoint', () => {
+    expect(() => new RpcPool([])).toThrow(ConfigError);
+  });
+
+  it('runs requests on the best endpoint and exposes the stats in the cache', async () => {
+    const cache = createCache({} as TradingConfig);
+    const pool = new RpcPool([A, B, A], cache);
+
+    const url = await pool.execute(async (connection) => connection.rpcEndpoint);
+
+    expect(url).toBe(A);
+    expect(cache.rpc.active).toBe(A);
+    expect(cache.rpc.endpoints.map((endpoint) => [endpoint.url, endpoint.requests])).toEqual([
+      [A, 1],
+      [B, 0],
+    ]);
+  });
+
+  it('rotates to the next endpoint on rate limits and backs off the failed one', async () => {
+    const pool = new RpcPool([A, B], null, { baseBackoff: 60000 });
+    const request = jest.fn(async (connection: Connection) => {
+      if (connection.rpcEndpoint === A) {
+        throw new Error('429 Too Many Requests');
+      }
+      return connection.rpcEndpoint;
+    });
+
+    expect(await pool.execute(request)).toBe(B);
+    expect(await pool.execute(request)).toBe(B);
+
+    const [a] = pool.getStats();
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(a).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+    expect(a.backoffUntil).toBeGreaterThan(Date.now());
+  });
+
+  it('throws other errors without rotating', async () => {
+    const pool = new RpcPool([A, B]);
+    const request = jest.fn().mockRejectedValue(new Error('invalid transaction'));
+
+    await expect(pool.execute(request)).rejects.toThrow('invalid transaction');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('throws RpcError when every endpoint failed', async () => {
+    const pool = new RpcPool([A, B], null, { baseBackoff: 1 });
+    const request = jest.fn().mockRejectedValue(new Error('fetch failed'));
+
+    await expect(pool.execute(request)).rejects.toThrow(RpcError);
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('ranks endpoints by health and block height', async () => {
+    const C = 'https://c.example.com';
+    const cache = createCache({} as TradingConfig);
+    const pool = new RpcPool([A, B, C], cache, { maxBlockLag: 10 });
+    const heights: Record<string, number> = { [B]: 1000, [C]: 1100 };
+    const { endpoints } = pool as unknown as { endpoints: { connection: Connection }[] };
+    for (const { connection } of endpoints) {
+      connection.getBlockHeight = jest.fn(async () => {
+        // A is down
+        if (!heights[connection.rpcEndpoint]) {
+          throw new Error('fetch failed');
+        }
+        return heights[connection.rpcEndpoint];
+      });
+    }
+
+    await pool.probe();
+
+    expect(pool.getConnection().rpcEndpoint).toBe(C);
+    expect(cache.rpc.active).toBe(C);
+    expect(pool.getStats().map((stats) => [stats.healthy, stats.blockHeight])).toEqual([
+      [false, 0],
+      [true, 1000],
+      [true, 1100],
+    ]);
+  });
+
+  it('exposes the stats in caches added later', () => {
+    const pool = new RpcPool([A]);
+    const cache = createCache({} as TradingConfig);
+
+    pool.addCache(cache);
+
+    expect(cache.rpc.active).toBe(A);
+    expect(cache.rpc.endpoints).toHaveLength(1);
+  });
+});
+
+describe('isRetryableRpcError', () => {
+  it('retries rate limits, timeouts and connection errors', () => {
+    for (const message of ['429 Too Many Requests', 'Request timed out', 'ECONNRESET', '503 Service Unavailable']) {
+      expect(isRetryableRpcError(new Error(message))).toBe(true);
+    }
+  });
+
+  it('does not retry other errors', () => {
+    expect(isRetryableRpcError(new Error('Transaction simulation failed'))).toBe(false);
+  });
+});
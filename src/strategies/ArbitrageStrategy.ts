@@ -1,12 +1,13 @@
 import { PublicKey } from '@solana/web3.js';
 import JSBI from 'jsbi';
-import { StrategyContext } from '../types';
+import { BotCache, RouteInfo, StrategyContext, Token } from '../types';
 import { BaseStrategy } from './BaseStrategy';
-import { calculateProfit, toDecimal, checkRoutesResponse } from '../utils';
+import { calculateProfit, fromDecimal, getTradeSize } from '../utils';
 
 /**
  * Arbitrage strategy for finding profitable trading opportunities
- * Looks for price differences between different markets/routes
+ * Quotes the round trip tokenA > tokenB > tokenA and trades both legs when
+ * the tokenA received beats the tokenA spent
  */
 export class ArbitrageStrategy extends BaseStrategy {
   constructor() {
@@ -17,95 +18,193 @@ export class ArbitrageStrategy extends BaseStrategy {
    * Execute the arbitrage strategy
    */
   async execute(context: StrategyContext): Promise<void> {
-    const { jupiter, tokenA, tokenB, cache } = context;
+    const { tokenA, tokenB, cache, slippage: slippageController, events } = context;
+
+    cache.iteration++;
+    const date = new Date();
+    const i = cache.iteration;
+    cache.queue[i] = -1;
+    events.emit('iteration:start', { strategy: this.name, iteration: i, timestamp: date.getTime() });
 
     try {
-      cache.iteration++;
-      const date = new Date();
-      const i = cache.iteration;
-      cache.queue[i] = -1;
+      // An interrupted round trip left tokenB, it is swapped back before trading again
+      if (cache.currentBalance.tokenB > 0 && cache.tradingEnabled) {
+        await this.unwind(context);
+        return;
+      }
 
       // Calculate amount that will be used for trade
-      const amountToTrade = 
-        cache.config.tradeSize.strategy === 'cumulative'
-          ? cache.currentBalance.tokenA
-          : cache.initialBalance.tokenA;
-
-      // Convert to JSBI for Jupiter
-      const amountInJSBI = JSBI.BigInt(amountToTrade.toString());
+      const amountToTrade = getTradeSize(cache, 'tokenA');
 
       // Set slippage
-      const slippage = typeof cache.config.slippage === 'number' ? cache.config.slippage : 1;
+      const slippage = slippageController.getSlippageBps();
 
-      // Set the input / output token (we're looking for a triangular arbitrage)
-      const inputToken = tokenA;
-      const outputToken = tokenA; // Same as input for triangular arbitrage
-      
-      // Compute routes for a triangular arbitrage
+      // The quote API rejects tokenA -> tokenA, the round trip is quoted as two legs
       const performanceOfRouteCompStart = performance.now();
-      
-      const routes = await jupiter.computeRoutes({
-        inputMint: new PublicKey(inputToken.address),
-        outputMint: new PublicKey(outputToken.address),
-        amount: amountInJSBI,
-        slippageBps: slippage,
-        feeBps: 0,
-        forceFetch: true,
-        onlyDirectRoutes: false, 
-        filterTopNResult: 5, // Get more routes for comparison
-        enforceSingleTx: false,
-        swapMode: 'ExactIn',
-      });
+      const buyRoute = await this.quoteLeg(context, tokenA, tokenB, amountToTrade, slippage);
+      const sellRoute = await this.quoteLeg(context, tokenB, tokenA, Number(buyRoute.outAmount.toString()), slippage);
 
-      // Check if routes are valid
-      checkRoutesResponse(routes);
-      
       // Update status as OK
       cache.queue[i] = 0;
 
       const performanceOfRouteComp = performance.now() - performanceOfRouteCompStart;
+      events.emit('route:computed', {
+        strategy: this.name,
+        iteration: i,
+        inputToken: tokenA,
+        outputToken: tokenA,
+        routes: [buyRoute, sellRoute],
+        computeTime: performanceOfRouteComp,
+      });
 
-      // Check if we have multiple routes to compare
-      if (routes.routesInfos.length < 2) {
-        console.log('Not enough routes found for arbitrage comparison');
-        return;
-      }
+      const profit = calculateProfit(amountToTrade, Number(sellRoute.outAmount.toString()));
 
-      // Find the most profitable route
-      let mostProfitableRoute = routes.routesInfos[0];
-      let highestProfit = calculateProfit(
-        amountToTrade,
-        Number(mostProfitableRoute.outAmount.toString())
+      // Log the round trip details
+      console.log(
+        `[${date.toLocaleString()}] Iteration: ${i}, Arbitrage - ${tokenA.symbol} > ${tokenB.symbol} > ${tokenA.symbol} profit: ${profit.toFixed(4)}%`
       );
 
-      for (let j = 1; j < routes.routesInfos.length; j++) {
-        const route = routes.routesInfos[j];
-        const profit = calculateProfit(
-          amountToTrade,
-          Number(route.outAmount.toString())
-        );
-
-        if (profit > highestProfit) {
-          highestProfit = profit;
-          mostProfitableRoute = route;
-        }
+      if (profit > cache.config.minPercProfit) {
+        events.emit('opportunity:spotted', {
+          strategy: this.name,
+          iteration: i,
+          route: buyRoute,
+          legs: [buyRoute, sellRoute],
+          inputToken: tokenA,
+          outputToken: tokenA,
+          expectedProfit: profit,
+        });
       }
 
-      // Log the most profitable route details
-      console.log(
-        `[${date.toLocaleString()}] Iteration: ${i}, Arbitrage - Best profit: ${highestProfit.toFixed(4)}%, Routes analyzed: ${routes.routesInfos.length}`
-      );
-
       // Check if profit threshold is met and trading is enabled
-      if (highestProfit > cache.config.minPercProfit && cache.tradingEnabled) {
-        console.log(`Executing arbitrage with expected profit of ${highestProfit.toFixed(4)}%`);
-        
-        // Here we would execute the trade with the most profitable route
-        // In a full implementation, we'd call the swap function
+      if (profit > cache.config.minPercProfit && cache.tradingEnabled) {
+        console.log(`Executing arbitrage with expected profit of ${profit.toFixed(4)}%`);
+        await this.executeRoundTrip(context, buyRoute, sellRoute, profit);
       }
 
     } catch (error) {
-      console.error('Error executing arbitrage strategy:', error);
+      cache.queue[i] = 1;
+      // The trading loop decides whether to retry, skip or pause
+      throw error;
+    } finally {
+      delete cache.queue[i];
+    }
+  }
+
+  /**
+   * Trade both legs, the second leg is quoted again when the first one filled differently
+   */
+  private async executeRoundTrip(
+    context: StrategyContext,
+    buyRoute: RouteInfo,
+    sellRoute: RouteInfo,
+    profit: number
+  ): Promise<void> {
+    const { tokenA, tokenB, cache, executor, slippage: slippageController } = context;
+
+    const buy = await executor.executeSwap({
+      route: buyRoute,
+      inputToken: tokenA,
+      outputToken: tokenB,
+      buy: true,
+      expectedProfit: profit,
+    });
+    slippageController.recordTrade(buy);
+
+    if (buy.txStatus !== 'confirmed') {
+      return;
+    }
+
+    // Plugins may have resized the trade
+    const inAmount = fromDecimal(buy.inAmount, tokenA.decimals);
+    const received = this.getOutAmount(buy, buyRoute, tokenB);
+    // The round trip stays open in the balances until tokenB is sold
+    this.updateBalances(cache, -inAmount, received);
+
+    // Errors past the buy must not reach the trading loop, a retry would buy again
+    try {
+      const route =
+        received === Number(buyRoute.outAmount.toString())
+          ? sellRoute
+          : await this.quoteLeg(context, tokenB, tokenA, received, slippageController.getSlippageBps());
+
+      const sell = await executor.executeSwap({
+        route,
+        inputToken: tokenB,
+        outputToken: tokenA,
+        buy: false,
+        expectedProfit: profit,
+      });
+      slippageController.recordTrade(sell);
+
+      if (sell.txStatus !== 'confirmed') {
+        throw new Error(`swap ${sell.txStatus}: ${sell.error ?? ''}`);
+      }
+
+      this.updateBalances(cache, this.getOutAmount(sell, route, tokenA), -received);
+    } catch (err) {
+      console.error(`Arbitrage sell leg interrupted, holding ${received} (raw ${tokenB.symbol}):`, err);
+      await this.unwind(context);
+    }
+  }
+
+  /**
+   * Swap the tokenB held after an interrupted round trip back to tokenA
+   * Failures are logged, the next iteration tries again while trading is enabled
+   */
+  private async unwind(context: StrategyContext): Promise<void> {
+    const { executor, tokenA, tokenB, cache, slippage: slippageController } = context;
+    const amount = cache.currentBalance.tokenB;
+
+    try {
+      const route = await this.quoteLeg(context, tokenB, tokenA, amount, slippageController.getSlippageBps());
+      const trade = await executor.executeSwap({
+        route,
+        inputToken: tokenB,
+        outputToken: tokenA,
+        buy: false,
+        expectedProfit: 0,
+      });
+      slippageController.recordTrade(trade);
+
+      if (trade.txStatus !== 'confirmed') {
+        throw new Error(`swap ${trade.txStatus}: ${trade.error ?? ''}`);
+      }
+
+      const outAmount = this.getOutAmount(trade, route, tokenA);
+      this.updateBalances(cache, outAmount, -amount);
+      console.log(`Swapped ${amount} (raw ${tokenB.symbol}) back to ${outAmount} (raw ${tokenA.symbol})`);
+    } catch (err) {
+      console.error(`Could not swap ${amount} (raw ${tokenB.symbol}) back to ${tokenA.symbol}:`, err);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Move the traded amounts between the position balances, the rest of the balance is untouched
+   * The profit is only updated once no tokenB is held
+   */
+  private updateBalances(cache: BotCache, tokenA: number, tokenB: number): void {
+    cache.lastBalance.tokenA = cache.currentBalance.tokenA;
+    cache.currentBalance.tokenA += tokenA;
+    cache.currentBalance.tokenB += tokenB;
+
+    if (cache.currentBalance.tokenB <= 0) {
+      cache.currentProfit.tokenA = calculateProfit(cache.initialBalance.tokenA, cache.currentBalance.tokenA);
+    }
+  }
+
+  private quoteLeg(
+    context: StrategyContext,
+    inputToken: Token,
+    outputToken: Token,
+    amount: number,
+    slippage: number
+  ): Promise<RouteInfo> {
+    return context.jupiter.getQuote({
+      inputMint: new PublicKey(inputToken.address),
+      outputMint: new PublicKey(outputToken.address),
+      amount: JSBI.BigInt(amount),
+      slippageBps: slippage,
+    });
+  }
+}
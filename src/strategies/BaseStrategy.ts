@@ -1,4 +1,13 @@
-import { StrategyContext, TradingStrategy, TradingStrategyType } from '../types';
+import {
+  PluginConfigSchema,
+  RouteInfo,
+  StrategyContext,
+  Token,
+  TradeEntry,
+  TradingStrategy,
+  TradingStrategyType,
+} from '../types';
+import { fromDecimal } from '../utils';
 
 /**
  * Abstract base class for trading strategies
@@ -6,6 +15,10 @@ import { StrategyContext, TradingStrategy, TradingStrategyType } from '../types'
 export abstract class BaseStrategy implements TradingStrategy {
   name: TradingStrategyType;
   description: string;
+  // Declared options of the strategy's config section
+  configSchema?: PluginConfigSchema;
+  // Resolved config section, set by the strategy registry
+  config: Record<string, unknown> = {};
   
   constructor(name: TradingStrategyType, description: string) {
     this.name = name;
@@ -31,4 +44,16 @@ export abstract class BaseStrategy implements TradingStrategy {
   async cleanup(): Promise<void> {
     console.log(`Strategy ${this.name} cleanup complete`);
   }
+
+  /**
+   * Get the raw output amount of an executed trade
+   * Uses the realized amount when known, the quoted amount otherwise
+   */
+  protected getOutAmount(trade: TradeEntry, route: RouteInfo, outputToken: Token): number {
+    if (trade.actualOutAmount !== undefined) {
+      return fromDecimal(trade.actualOutAmount, outputToken.decimals);
+    }
+
+    return Number(route.outAmount.toString());
+  }
 }
\ No newline at end of file
@@ -0,0 +1,253 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { StrategyContext } from '../types';
+import { fromDecimal, toDecimal } from '../utils';
+import { BaseStrategy } from './BaseStrategy';
+
+/**
+ * Persisted progress of a DCA / TWAP conversion
+ */
+export interface DcaState {
+  startedAt: number;
+  nextSliceAt: number;
+  // Raw tokenA spent and raw tokenB received so far
+  spent: number;
+  received: number;
+  slicesDone: number;
+  slicesSkipped: number;
+  // Price of tokenB in tokenA the price guard compares quotes to
+  referencePrice?: number;
+  completed: boolean;
+}
+
+/**
+ * Progress and average execution price of a conversion
+ */
+export interface DcaSummary {
+  // tokenA spent and tokenB received (token units)
+  spent: number;
+  received: number;
+  // Average price of tokenB in tokenA, 0 before the first slice
+  averagePrice: number;
+  slicesDone: number;
+  slicesSkipped: number;
+  completed: boolean;
+}
+
+/**
+ * DCA / TWAP strategy converting totalAmount of tokenA to tokenB in slices
+ * In 'dca' mode a slice is traded every interval until the amount is converted,
+ * a skipped slice moves to the next interval. In 'twap' mode the slices are
+ * spread over the window and every slice catches up on the amount skipped
+ * before it. Progress is persisted so a restart resumes the schedule.
+ */
+export class DcaStrategy extends BaseStrategy {
+  private state: DcaState | null = null;
+
+  constructor() {
+    super('dca', 'Convert tokenA to tokenB in scheduled slices (DCA or TWAP)');
+    this.configSchema = {
+      totalAmount: { type: 'number', required: true, min: 0, description: 'tokenA to convert' },
+      slices: { type: 'number', default: 10, min: 1, description: 'Number of slices' },
+      mode: { type: 'string', default: 'dca', enum: ['dca', 'twap'], description: 'Fixed interval or spread over a window' },
+      interval: { type: 'number', default: 3600, min: 1, description: 'Seconds between slices in dca mode' },
+      window: { type: 'number', default: 86400, min: 1, description: 'Seconds to convert the amount over in twap mode' },
+      maxPriceDeviation: { type: 'number', min: 0, description: 'Skip slices quoted this much worse than the reference price (%)' },
+      referencePrice: { type: 'number', min: 0, description: 'Price of tokenB in tokenA for the guard, the first quote when missing' },
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.state = null;
+    await super.initialize();
+  }
+
+  /**
+   * Trade the slice of the schedule when it is due
+   */
+  async execute(context: StrategyContext): Promise<void> {
+    const { jupiter, tokenA, tokenB, cache, executor, slippage: slippageController, events } = context;
+    const now = context.clock?.now() ?? Date.now();
+    const state = await this.loadState(context, now);
+
+    if (state.completed || now < state.nextSliceAt) {
+      return;
+    }
+
+    // A TWAP schedule ahead of time waits for the next slice
+    const total = fromDecimal(Number(this.config.totalAmount), tokenA.decimals);
+    const amount = this.getSliceAmount(state, total, now);
+    if (amount < 1) {
+      this.scheduleNextSlice(state, now);
+      await this.saveState(context, state);
+      return;
+    }
+
+    cache.iteration++;
+    const date = new Date(now);
+    const i = cache.iteration;
+    cache.queue[i] = -1;
+    events.emit('iteration:start', { strategy: this.name, iteration: i, timestamp: now });
+
+    try {
+      const performanceOfRouteCompStart = performance.now();
+      const route = await jupiter.getQuote({
+        inputMint: new PublicKey(tokenA.address),
+        outputMint: new PublicKey(tokenB.address),
+        amount: JSBI.BigInt(amount),
+        slippageBps: slippageController.getSlippageBps(),
+      });
+
+      // Update status as OK
+      cache.queue[i] = 0;
+      this.scheduleNextSlice(state, now);
+
+      events.emit('route:computed', {
+        strategy: this.name,
+        iteration: i,
+        inputToken: tokenA,
+        outputToken: tokenB,
+        routes: [route],
+        computeTime: performance.now() - performanceOfRouteCompStart,
+      });
+
+      const price = toDecimal(amount, tokenA.decimals) / toDecimal(route.outAmount.toString(), tokenB.decimals);
+      state.referencePrice = state.referencePrice ?? Number(this.config.referencePrice ?? price);
+
+      // Skip slices quoted too far above the reference price
+      const maxDeviation = this.config.maxPriceDeviation as number | undefined;
+      const deviation = ((price - state.referencePrice) / state.referencePrice) * 100;
+      if (maxDeviation !== undefined && deviation > maxDeviation) {
+        state.slicesSkipped++;
+        console.log(
+          `[${date.toLocaleString()}] Iteration: ${i}, DCA - Slice skipped, price ${price.toPrecision(6)} ${tokenA.symbol} is ${deviation.toFixed(2)}% above the reference`
+        );
+        await this.saveState(context, state);
+        return;
+      }
+
+      events.emit('opportunity:spotted', {
+        strategy: this.name,
+        iteration: i,
+        route,
+        inputToken: tokenA,
+        outputToken: tokenB,
+        expectedProfit: -deviation,
+      });
+
+      if (!cache.tradingEnabled) {
+        await this.saveState(context, state);
+        return;
+      }
+
+      const trade = await executor.executeSwap({
+        route,
+        inputToken: tokenA,
+        outputToken: tokenB,
+        buy: true,
+        expectedProfit: -deviation,
+      });
+      slippageController.recordTrade(trade);
+
+      if (trade.txStatus === 'confirmed') {
+        // Plugins may have resized the trade
+        state.spent += fromDecimal(trade.inAmount, tokenA.decimals);
+        state.received += this.getOutAmount(trade, route, tokenB);
+        state.slicesDone++;
+        state.completed = total - state.spent < 1;
+      } else {
+        state.slicesSkipped++;
+      }
+      await this.saveState(context, state);
+
+      const summary = this.getSummary(context);
+      console.log(
+        `[${date.toLocaleString()}] Iteration: ${i}, DCA - Slice ${state.slicesDone}: spent ${summary.spent}/${this.config.totalAmount} ${tokenA.symbol} for ${summary.received} ${tokenB.symbol}, average price ${summary.averagePrice.toPrecision(6)} ${tokenA.symbol}`
+      );
+      if (state.completed) {
+        console.log(`DCA completed in ${state.slicesDone} slices (${state.slicesSkipped} skipped)`);
+      }
+    } catch (error) {
+      cache.queue[i] = 1;
+      // The trading loop decides whether to retry, skip or pause
+      throw error;
+    } finally {
+      delete cache.queue[i];
+    }
+  }
+
+  /**
+   * Get the progress and average execution price of the conversion
+   */
+  getSummary(context: Pick<StrategyContext, 'tokenA' | 'tokenB'>): DcaSummary {
+    const state = this.state;
+    const spent = toDecimal(state?.spent ?? 0, context.tokenA.decimals);
+    const received = toDecimal(state?.received ?? 0, context.tokenB.decimals);
+
+    return {
+      spent,
+      received,
+      averagePrice: received > 0 ? spent / received : 0,
+      slicesDone: state?.slicesDone ?? 0,
+      slicesSkipped: state?.slicesSkipped ?? 0,
+      completed: state?.completed ?? false,
+    };
+  }
+
+  /**
+   * Get the raw tokenA amount of the slice due now
+   * TWAP slices trade what the schedule is behind on, DCA slices a fixed share
+   */
+  private getSliceAmount(state: DcaState, total: number, now: number): number {
+    const slices = Number(this.config.slices);
+    const remaining = total - state.spent;
+
+    if (this.config.mode !== 'twap') {
+      return Math.min(Math.floor(total / slices), remaining) || remaining;
+    }
+
+    const sliceDuration = (Number(this.config.window) * 1000) / slices;
+    const slotsDue = Math.min(Math.floor((now - state.startedAt) / sliceDuration) + 1, slices);
+    const target = Math.floor((total * slotsDue) / slices);
+    return Math.max(Math.min(target - state.spent, remaining), 0);
+  }
+
+  private scheduleNextSlice(state: DcaState, now: number): void {
+    if (this.config.mode === 'twap') {
+      const sliceDuration = (Number(this.config.window) * 1000) / Number(this.config.slices);
+      state.nextSliceAt = state.startedAt + (Math.floor((now - state.startedAt) / sliceDuration) + 1) * sliceDuration;
+      return;
+    }
+
+    // A bot stopped for several intervals trades one slice on restart, not all the missed ones
+    state.nextSliceAt = Math.max(state.nextSliceAt + Number(this.config.interval) * 1000, now);
+  }
+
+  /**
+   * Load the stored progress, a new schedule starts now
+   */
+  private async loadState(context: StrategyContext, now: number): Promise<DcaState> {
+    if (!this.state) {
+      const stored = await context.state?.load<DcaState>(this.name);
+      this.state = stored ?? {
+        startedAt: now,
+        nextSliceAt: now,
+        spent: 0,
+        received: 0,
+        slicesDone: 0,
+        slicesSkipped: 0,
+        completed: false,
+      };
+
+      if (stored) {
+        console.log(`Resuming ${this.name}: ${stored.slicesDone} slices done, next at ${new Date(stored.nextSliceAt).toLocaleString()}`);
+      }
+    }
+
+    return this.state;
+  }
+
+  private async saveState(context: StrategyContext, state: DcaState): Promise<void> {
+    await context.state?.save(this.name, state);
+  }
+}
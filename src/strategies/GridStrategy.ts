@@ -0,0 +1,285 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { ConfigError } from '../errors';
+import { RouteInfo, StrategyContext } from '../types';
+import { calculateProfit, fromDecimal, toDecimal } from '../utils';
+import { BaseStrategy } from './BaseStrategy';
+
+/**
+ * Price level of a grid, holding tokenB once bought
+ */
+export interface GridLevel {
+  // Price of tokenB in tokenA
+  price: number;
+  filled: boolean;
+  // Raw tokenB bought at this level
+  amount: number;
+  // Raw tokenA paid for it
+  cost: number;
+}
+
+/**
+ * Persisted state of a grid
+ */
+export interface GridState {
+  levels: GridLevel[];
+  // Raw tokenA earned by the completed buy / sell round trips
+  realizedProfit: number;
+  roundTrips: number;
+}
+
+/**
+ * Compute the level prices of a grid, lowest first
+ */
+export const buildGridPrices = (
+  lowerPrice: number,
+  upperPrice: number,
+  levels: number,
+  spacing: 'arithmetic' | 'geometric'
+): number[] =>
+  Array.from({ length: levels }, (_, j) =>
+    spacing === 'geometric'
+      ? lowerPrice * Math.pow(upperPrice / lowerPrice, j / (levels - 1))
+      : lowerPrice + ((upperPrice - lowerPrice) * j) / (levels - 1)
+  );
+
+/**
+ * Grid strategy trading tokenA for tokenB on a ladder of price levels
+ * A level buys tokenB for levelSize tokenA when the price falls to it, and
+ * sells what it bought when the price reaches the next level up. Filled levels
+ * and the realized profit are persisted between restarts.
+ */
+export class GridStrategy extends BaseStrategy {
+  private state: GridState | null = null;
+
+  constructor() {
+    super('grid', 'Buy and sell tokenB on a ladder of price levels');
+    this.configSchema = {
+      lowerPrice: { type: 'number', required: true, min: 0, description: 'Lowest level, price of tokenB in tokenA' },
+      upperPrice: { type: 'number', required: true, min: 0, description: 'Highest level, price of tokenB in tokenA' },
+      levels: { type: 'number', default: 10, min: 2, description: 'Number of price levels' },
+      levelSize: { type: 'number', required: true, min: 0, description: 'tokenA spent by each level' },
+      spacing: { type: 'string', default: 'arithmetic', enum: ['arithmetic', 'geometric'], description: 'Distance between levels' },
+    };
+  }
+
+  /**
+   * Check the grid range
+   */
+  async initialize(): Promise<void> {
+    if (Number(this.config.upperPrice) <= Number(this.config.lowerPrice)) {
+      throw new ConfigError(`The ${this.name} strategy needs upperPrice above lowerPrice`);
+    }
+
+    this.state = null;
+    await super.initialize();
+  }
+
+  /**
+   * Execute the grid strategy
+   */
+  async execute(context: StrategyContext): Promise<void> {
+    const { jupiter, tokenA, tokenB, cache, slippage: slippageController, events } = context;
+
+    cache.iteration++;
+    const date = new Date();
+    const i = cache.iteration;
+    cache.queue[i] = -1;
+    events.emit('iteration:start', { strategy: this.name, iteration: i, timestamp: date.getTime() });
+
+    try {
+      const state = await this.loadState(context);
+      const levelAmount = fromDecimal(Number(this.config.levelSize), tokenA.decimals);
+
+      // The price is read from a quote for the size of one level
+      const performanceOfRouteCompStart = performance.now();
+      const route = await jupiter.getQuote({
+        inputMint: new PublicKey(tokenA.address),
+        outputMint: new PublicKey(tokenB.address),
+        amount: JSBI.BigInt(levelAmount),
+        slippageBps: slippageController.getSlippageBps(),
+      });
+
+      // Update status as OK
+      cache.queue[i] = 0;
+
+      events.emit('route:computed', {
+        strategy: this.name,
+        iteration: i,
+        inputToken: tokenA,
+        outputToken: tokenB,
+        routes: [route],
+        computeTime: performance.now() - performanceOfRouteCompStart,
+      });
+
+      const price = toDecimal(levelAmount, tokenA.decimals) / toDecimal(route.outAmount.toString(), tokenB.decimals);
+      const filled = state.levels.filter((level) => level.filled).length;
+      console.log(
+        `[${date.toLocaleString()}] Iteration: ${i}, Grid - Price: ${price.toPrecision(6)} ${tokenA.symbol}, Filled levels: ${filled}/${state.levels.length - 1}, Realized profit: ${toDecimal(state.realizedProfit, tokenA.decimals)} ${tokenA.symbol}`
+      );
+
+      // Sell a filled level once the price reaches the level above it
+      const sellIndex = state.levels.findIndex(
+        (level, j) => level.filled && j + 1 < state.levels.length && price >= state.levels[j + 1].price
+      );
+      if (sellIndex !== -1) {
+        await this.sellLevel(context, state, sellIndex, i);
+        return;
+      }
+
+      // Buy the highest empty level the price fell to, the top level only sells
+      for (let j = state.levels.length - 2; j >= 0; j--) {
+        const level = state.levels[j];
+        if (!level.filled && price <= level.price) {
+          await this.buyLevel(context, state, j, route, i);
+          return;
+        }
+      }
+    } catch (error) {
+      cache.queue[i] = 1;
+      // The trading loop decides whether to retry, skip or pause
+      throw error;
+    } finally {
+      delete cache.queue[i];
+    }
+  }
+
+  /**
+   * Get the realized profit of the grid (raw tokenA)
+   */
+  getRealizedProfit(): number {
+    return this.state?.realizedProfit ?? 0;
+  }
+
+  /**
+   * Buy tokenB at a level with the quoted route
+   */
+  private async buyLevel(
+    context: StrategyContext,
+    state: GridState,
+    index: number,
+    route: RouteInfo,
+    iteration: number
+  ): Promise<void> {
+    const { tokenA, tokenB, cache, executor, slippage: slippageController, events } = context;
+    const level = state.levels[index];
+    const expectedProfit = calculateProfit(level.price, state.levels[index + 1].price);
+
+    events.emit('opportunity:spotted', {
+      strategy: this.name,
+      iteration,
+      route,
+      inputToken: tokenA,
+      outputToken: tokenB,
+      expectedProfit,
+    });
+
+    if (!cache.tradingEnabled) {
+      return;
+    }
+
+    console.log(`Grid buying level ${index + 1} at ${level.price.toPrecision(6)} ${tokenA.symbol}`);
+    const trade = await executor.executeSwap({ route, inputToken: tokenA, outputToken: tokenB, buy: true, expectedProfit });
+    slippageController.recordTrade(trade);
+
+    if (trade.txStatus !== 'confirmed') {
+      return;
+    }
+
+    level.filled = true;
+    level.amount = this.getOutAmount(trade, route, tokenB);
+    // Plugins may have resized the trade
+    level.cost = fromDecimal(trade.inAmount, tokenA.decimals);
+    await this.saveState(context, state);
+  }
+
+  /**
+   * Sell the tokenB of a level back to tokenA and realize its profit
+   */
+  private async sellLevel(context: StrategyContext, state: GridState, index: number, iteration: number): Promise<void> {
+    const { jupiter, tokenA, tokenB, cache, executor, slippage: slippageController, events } = context;
+    const level = state.levels[index];
+
+    const route = await jupiter.getQuote({
+      inputMint: new PublicKey(tokenB.address),
+      outputMint: new PublicKey(tokenA.address),
+      amount: JSBI.BigInt(level.amount),
+      slippageBps: slippageController.getSlippageBps(),
+    });
+    const expectedProfit = calculateProfit(level.cost, Number(route.outAmount.toString()));
+
+    events.emit('opportunity:spotted', {
+      strategy: this.name,
+      iteration,
+      route,
+      inputToken: tokenB,
+      outputToken: tokenA,
+      expectedProfit,
+    });
+
+    if (!cache.tradingEnabled) {
+      return;
+    }
+
+    console.log(`Grid selling level ${index + 1} bought at ${level.price.toPrecision(6)} ${tokenA.symbol}`);
+    const trade = await executor.executeSwap({ route, inputToken: tokenB, outputToken: tokenA, buy: false, expectedProfit });
+    slippageController.recordTrade(trade);
+
+    if (trade.txStatus !== 'confirmed') {
+      return;
+    }
+
+    const profit = this.getOutAmount(trade, route, tokenA) - level.cost;
+    state.realizedProfit += profit;
+    state.roundTrips++;
+    Object.assign(level, { filled: false, amount: 0, cost: 0 });
+    await this.saveState(context, state);
+
+    // Profit relative to the tokenA the grid can spend
+    const capital = fromDecimal(Number(this.config.levelSize), tokenA.decimals) * (state.levels.length - 1);
+    cache.currentProfit.tokenA = (state.realizedProfit / capital) * 100;
+    console.log(
+      `Grid level ${index + 1} sold for ${toDecimal(profit, tokenA.decimals)} ${tokenA.symbol} profit, realized ${toDecimal(state.realizedProfit, tokenA.decimals)} ${tokenA.symbol} over ${state.roundTrips} round trips`
+    );
+  }
+
+  /**
+   * Load the stored grid, a new grid is created when the levels changed and nothing is held
+   */
+  private async loadState(context: StrategyContext): Promise<GridState> {
+    if (this.state) {
+      return this.state;
+    }
+
+    const prices = buildGridPrices(
+      Number(this.config.lowerPrice),
+      Number(this.config.upperPrice),
+      Number(this.config.levels),
+      this.config.spacing === 'geometric' ? 'geometric' : 'arithmetic'
+    );
+    const stored = await context.state?.load<GridState>(this.name);
+
+    const unchanged =
+      stored?.levels.length === prices.length &&
+      stored.levels.every((level, j) => Math.abs(level.price - prices[j]) <= prices[j] * 1e-9);
+
+    if (stored && (unchanged || stored.levels.some((level) => level.filled))) {
+      if (!unchanged) {
+        console.warn('Grid levels changed while levels are filled, the stored grid is kept until they are sold and the bot restarts');
+      }
+      this.state = stored;
+    } else {
+      this.state = {
+        levels: prices.map((price) => ({ price, filled: false, amount: 0, cost: 0 })),
+        realizedProfit: stored?.realizedProfit ?? 0,
+        roundTrips: stored?.roundTrips ?? 0,
+      };
+    }
+
+    return this.state;
+  }
+
+  private async saveState(context: StrategyContext, state: GridState): Promise<void> {
+    await context.state?.save(this.name, state);
+  }
+}
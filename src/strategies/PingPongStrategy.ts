@@ -2,7 +2,7 @@ import { PublicKey } from '@solana/web3.js';
 import JSBI from 'jsbi';
 import { StrategyContext } from '../types';
 import { BaseStrategy } from './BaseStrategy';
-import { calculateProfit, toDecimal, checkRoutesResponse } from '../utils';
+import { calculateProfit, checkRoutesResponse, fromDecimal, getTradeSize } from '../utils';
 
 /**
  * PingPong strategy for trading between two tokens
@@ -16,22 +16,20 @@ export class PingPongStrategy extends BaseStrategy {
    * Execute the ping pong strategy
    */
   async execute(context: StrategyContext): Promise<void> {
-    const { jupiter, tokenA, tokenB, cache } = context;
+    const { jupiter, tokenA, tokenB, cache, executor, slippage: slippageController, events } = context;
 
-    try {
-      cache.iteration++;
-      const date = new Date();
-      const i = cache.iteration;
-      cache.queue[i] = -1;
+    cache.iteration++;
+    const date = new Date();
+    const i = cache.iteration;
+    cache.queue[i] = -1;
+    events.emit('iteration:start', { strategy: this.name, iteration: i, timestamp: date.getTime() });
 
+    try {
       // Calculate amount that will be used for trade
-      const amountToTrade =
-        cache.config.tradeSize.strategy === 'cumulative'
-          ? cache.currentBalance[cache.sideBuy ? 'tokenA' : 'tokenB']
-          : cache.initialBalance[cache.sideBuy ? 'tokenA' : 'tokenB'];
+      const amountToTrade = getTradeSize(cache, cache.sideBuy ? 'tokenA' : 'tokenB');
 
       const baseAmount = cache.lastBalance[cache.sideBuy ? 'tokenB' : 'tokenA'];
-      const slippage = typeof cache.config.slippage === 'number' ? cache.config.slippage : 1;
+      const slippage = slippageController.getSlippageBps();
 
       // Set input / output token
       const inputToken = cache.sideBuy ? tokenA : tokenB;
@@ -47,11 +45,8 @@ export class PingPongStrategy extends BaseStrategy {
         outputMint: new PublicKey(outputToken.address),
         amount: amountInJSBI,
         slippageBps: slippage,
-        feeBps: 0,
-        forceFetch: true,
         onlyDirectRoutes: false,
         filterTopNResult: 2,
-        enforceSingleTx: false,
         swapMode: 'ExactIn',
       });
 
@@ -65,6 +60,14 @@ export class PingPongStrategy extends BaseStrategy {
       cache.queue[i] = 0;
 
       const performanceOfRouteComp = performance.now() - performanceOfRouteCompStart;
+      events.emit('route:computed', {
+        strategy: this.name,
+        iteration: i,
+        inputToken,
+        outputToken,
+        routes: routes.routesInfos,
+        computeTime: performanceOfRouteComp,
+      });
 
       // Choose first route
       const route = routes.routesInfos[0];
@@ -81,17 +84,66 @@ export class PingPongStrategy extends BaseStrategy {
         }`
       );
 
+      if (simulatedProfit > cache.config.minPercProfit) {
+        events.emit('opportunity:spotted', {
+          strategy: this.name,
+          iteration: i,
+          route,
+          inputToken,
+          outputToken,
+          expectedProfit: simulatedProfit,
+        });
+      }
+
       // Check if we should execute the trade
       if (simulatedProfit > cache.config.minPercProfit && cache.tradingEnabled) {
-        // Execute trade logic would go here
-        console.log(`Trade would be executed with profit of ${simulatedProfit.toFixed(4)}%`);
-        
-        // Toggle for next iteration
-        cache.sideBuy = !cache.sideBuy;
+        const trade = await executor.executeSwap({
+          route,
+          inputToken,
+          outputToken,
+          buy: cache.sideBuy,
+          expectedProfit: simulatedProfit,
+        });
+        slippageController.recordTrade(trade);
+
+        if (trade.txStatus === 'confirmed') {
+          // Plugins may have resized the trade
+          const inAmount = fromDecimal(trade.inAmount, inputToken.decimals);
+          this.updateBalances(context, inAmount, this.getOutAmount(trade, route, outputToken));
+
+          // Toggle for next iteration
+          cache.sideBuy = !cache.sideBuy;
+        }
       }
 
     } catch (error) {
-      console.error('Error executing ping pong strategy:', error);
+      cache.queue[i] = 1;
+      // The trading loop decides whether to retry, skip or pause
+      throw error;
+    } finally {
+      delete cache.queue[i];
+    }
+  }
+
+  /**
+   * Move the traded amount to the output side after a successful swap
+   * Only the amount traded leaves the source side, the rest stays there
+   */
+  private updateBalances(context: StrategyContext, inAmount: number, outAmount: number): void {
+    const { cache } = context;
+
+    if (cache.sideBuy) {
+      cache.lastBalance.tokenA = cache.currentBalance.tokenA;
+      cache.currentBalance.tokenA = Math.max(0, cache.currentBalance.tokenA - inAmount);
+      cache.currentBalance.tokenB += outAmount;
+      cache.currentProfit.tokenA = 0;
+      cache.currentProfit.tokenB = calculateProfit(cache.initialBalance.tokenB, cache.currentBalance.tokenB);
+    } else {
+      cache.lastBalance.tokenB = cache.currentBalance.tokenB;
+      cache.currentBalance.tokenB = Math.max(0, cache.currentBalance.tokenB - inAmount);
+      cache.currentBalance.tokenA += outAmount;
+      cache.currentProfit.tokenB = 0;
+      cache.currentProfit.tokenA = calculateProfit(cache.initialBalance.tokenA, cache.currentBalance.tokenA);
     }
   }
-}
\ No newline at end of file
+}
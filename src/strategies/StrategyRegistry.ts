@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigError } from '../errors';
+import { resolvePluginConfig } from '../plugins/pluginConfig';
+import { PluginConfigSchema, TradingConfig } from '../types';
+import { ArbitrageStrategy } from './ArbitrageStrategy';
+import { BaseStrategy } from './BaseStrategy';
+import { DcaStrategy } from './DcaStrategy';
+import { GridStrategy } from './GridStrategy';
+import { PingPongStrategy } from './PingPongStrategy';
+import { TriangularArbitrageStrategy } from './TriangularArbitrageStrategy';
+
+/**
+ * Creates a fresh instance of a strategy
+ */
+export type StrategyFactory = () => BaseStrategy;
+
+/**
+ * Description of a registered strategy
+ */
+export interface StrategyInfo {
+  name: string;
+  description: string;
+  configSchema?: PluginConfigSchema;
+  // File the strategy was loaded from, undefined for built-ins
+  source?: string;
+}
+
+/**
+ * StrategyRegistry knows every strategy the bot can run
+ * Built-in strategies are registered on creation, third party strategies are
+ * loaded from a directory of files exporting a BaseStrategy subclass as default
+ */
+export class StrategyRegistry {
+  private factories: Map<string, StrategyFactory> = new Map();
+  private infos: Map<string, StrategyInfo> = new Map();
+
+  constructor() {
+    this.register(() => new PingPongStrategy());
+    this.register(() => new ArbitrageStrategy());
+    this.register(() => new TriangularArbitrageStrategy());
+    this.register(() => new GridStrategy());
+    this.register(() => new DcaStrategy());
+  }
+
+  /**
+   * Register a strategy, replacing any strategy with the same name
+   */
+  register(create: StrategyFactory, source?: string): StrategyInfo {
+    const strategy = create();
+    const info = {
+      name: strategy.name,
+      description: strategy.description,
+      configSchema: strategy.configSchema,
+      source,
+    };
+
+    this.factories.set(info.name, create);
+    this.infos.set(info.name, info);
+    return info;
+  }
+
+  /**
+   * Load the strategies of a directory, files that fail to load are reported and skipped
+   */
+  async loadStrategies(strategiesDir: string): Promise<void> {
+    if (!fs.existsSync(strategiesDir)) {
+      return;
+    }
+
+    const files = fs
+      .readdirSync(strategiesDir)
+      .filter((file) => (file.endsWith('.js') || file.endsWith('.ts')) && !file.endsWith('.d.ts'));
+
+    for (const file of files) {
+      const strategyPath = path.join(strategiesDir, file);
+      try {
+        const exported = (await import(strategyPath)).default;
+        // CommonJS files not compiled from an ES module come wrapped, their exports end up in default
+        const StrategyClass = typeof exported === 'function' ? exported : exported?.default;
+        if (typeof StrategyClass !== 'function') {
+          console.error(`File ${file} does not export a strategy class`);
+          continue;
+        }
+
+        const create = () => new StrategyClass() as BaseStrategy;
+        if (!this.isValidStrategy(create())) {
+          console.error(`File ${file} does not export a valid strategy`);
+          continue;
+        }
+
+        const info = this.register(create, strategyPath);
+        console.log(`Strategy loaded: ${info.name} (${file})`);
+      } catch (err) {
+        console.error(`Failed to load strategy from file ${file}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Create the strategy of a config with its validated config section
+   * @throws ConfigError when the strategy is unknown or its config section is invalid
+   */
+  create(config: TradingConfig): BaseStrategy {
+    const name = config.tradingStrategy;
+    const create = this.factories.get(name);
+    if (!create) {
+      throw new ConfigError(`Strategy ${name} not found, available: ${this.getNames().join(', ')}`);
+    }
+
+    const strategy = create();
+    const resolved = resolvePluginConfig(strategy.configSchema, config.strategies?.[name]);
+    if (resolved.errors.length > 0) {
+      throw new ConfigError(`Invalid config for strategy ${name}: ${resolved.errors.join('; ')}`);
+    }
+
+    strategy.config = resolved.config;
+    return strategy;
+  }
+
+  /**
+   * Get the description of every registered strategy
+   */
+  list(): StrategyInfo[] {
+    return Array.from(this.infos.values());
+  }
+
+  getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  private isValidStrategy(strategy: unknown): strategy is BaseStrategy {
+    const candidate = strategy as BaseStrategy;
+    return (
+      !!candidate &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.description === 'string' &&
+      typeof candidate.execute === 'function' &&
+      typeof candidate.initialize === 'function' &&
+      typeof candidate.cleanup === 'function'
+    );
+  }
+}
+
+/**
+ * Get the strategies directory of a config
+ */
+export const getStrategiesDir = (config: Pick<TradingConfig, 'strategiesDir'>): string =>
+  path.resolve(config.strategiesDir || 'strategies');
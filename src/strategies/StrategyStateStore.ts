@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService } from '../database/DatabaseService';
+import { StateStore } from '../types';
+
+/**
+ * StrategyStateStore persists the state of the strategies of a bot instance
+ * State lives in the strategy_state table, or in a local JSON file when
+ * PostgreSQL is not connected. Keys are scoped to the instance.
+ */
+export class StrategyStateStore implements StateStore {
+  private dbService: DatabaseService | null;
+  private scope: string;
+  private filePath: string;
+
+  constructor(dbService: DatabaseService | null, scope: string, filePath?: string) {
+    this.dbService = dbService;
+    this.scope = scope;
+    this.filePath = filePath || path.join(process.cwd(), 'strategy-state.json');
+  }
+
+  /**
+   * Load the state stored under a key
+   */
+  async load<T>(key: string): Promise<T | null> {
+    if (this.dbService?.isPgConnected()) {
+      return this.dbService.getStrategyState<T>(this.getId(key));
+    }
+
+    return (this.readFile()[this.getId(key)] as T) ?? null;
+  }
+
+  /**
+   * Store the state under a key
+   */
+  async save(key: string, state: unknown): Promise<void> {
+    if (this.dbService?.isPgConnected()) {
+      await this.dbService.saveStrategyState(this.getId(key), state);
+      return;
+    }
+
+    try {
+      const states = this.readFile();
+      states[this.getId(key)] = state;
+      fs.writeFileSync(this.filePath, JSON.stringify(states, null, 2));
+    } catch (err) {
+      console.error(`Error saving strategy state to ${this.filePath}:`, err);
+    }
+  }
+
+  private getId(key: string): string {
+    return `${this.scope}/${key}`;
+  }
+
+  private readFile(): Record<string, unknown> {
+    if (!fs.existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (err) {
+      console.error(`Error reading strategy state from ${this.filePath}:`, err);
+      return {};
+    }
+  }
+}
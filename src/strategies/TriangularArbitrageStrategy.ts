@@ -0,0 +1,301 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { ConfigError, NoRoutesError } from '../errors';
+import { RouteInfo, StrategyContext, Token } from '../types';
+import { calculateProfit, fromDecimal, getTradeSize } from '../utils';
+import { BaseStrategy } from './BaseStrategy';
+import { compoundCycle, Cycle, CycleQuote, enumerateCycles, getCycleName, rankCycles } from './cycles';
+
+/**
+ * Triangular arbitrage strategy
+ * Quotes every leg of the cycles from tokenA through tokenB and the configured
+ * tokens back to tokenA (A>B>C>A and longer) and trades the cycle with the best
+ * net profit, one swap per leg
+ */
+export class TriangularArbitrageStrategy extends BaseStrategy {
+  private cycles: Cycle[] | null = null;
+  // Index of the first cycle quoted by the next iteration
+  private nextCycle = 0;
+
+  constructor() {
+    super('triangular', 'Trade cycles of 3 or more swaps through configured tokens');
+    this.configSchema = {
+      tokens: { type: 'array', default: [], description: 'Intermediate tokens besides tokenB ({ symbol, address, decimals })' },
+      maxLegs: { type: 'number', default: 3, min: 3, max: 5, description: 'Most swaps of a cycle' },
+      maxCyclesPerIteration: { type: 'number', default: 10, min: 1, description: 'Cycles quoted per iteration, in rotation' },
+      legFeeBps: { type: 'number', default: 0, min: 0, description: 'Cost of each swap not included in the quotes (bps)' },
+      profitBasis: {
+        type: 'string',
+        default: 'quoted',
+        enum: ['quoted', 'worstCase'],
+        description: 'Compare minPercProfit to the quoted output or to the output at the slippage thresholds',
+      },
+    };
+  }
+
+  /**
+   * Check the configured intermediate tokens
+   */
+  async initialize(): Promise<void> {
+    for (const token of this.getIntermediateTokens()) {
+      if (typeof token?.address !== 'string' || typeof token?.decimals !== 'number' || typeof token?.symbol !== 'string') {
+        throw new ConfigError(`Invalid token in the ${this.name} strategy config: ${JSON.stringify(token)}`);
+      }
+    }
+
+    this.cycles = null;
+    this.nextCycle = 0;
+    await super.initialize();
+  }
+
+  /**
+   * Execute the triangular arbitrage strategy
+   */
+  async execute(context: StrategyContext): Promise<void> {
+    const { tokenA, cache, slippage: slippageController, events } = context;
+
+    cache.iteration++;
+    const date = new Date();
+    const i = cache.iteration;
+    cache.queue[i] = -1;
+    events.emit('iteration:start', { strategy: this.name, iteration: i, timestamp: date.getTime() });
+
+    try {
+      // Calculate amount that will be used for trade
+      const amountToTrade = getTradeSize(cache, 'tokenA');
+      const slippage = slippageController.getSlippageBps();
+
+      // Quote the legs of the cycles of this iteration
+      const performanceOfRouteCompStart = performance.now();
+      const quotedLegs = new Map<string, Promise<RouteInfo>>();
+      const cycles = this.getNextCycles(context);
+
+      const quotes = await Promise.all(
+        cycles.map((cycle) => this.quoteCycle(context, cycle, amountToTrade, slippage, quotedLegs))
+      );
+      const ranked = rankCycles(quotes.filter((quote): quote is CycleQuote => quote !== null));
+
+      if (ranked.length === 0) {
+        throw new NoRoutesError(`No routes found for ${cycles.length} cycles`);
+      }
+
+      // Update status as OK
+      cache.queue[i] = 0;
+
+      const best = ranked[0];
+      const performanceOfRouteComp = performance.now() - performanceOfRouteCompStart;
+      events.emit('route:computed', {
+        strategy: this.name,
+        iteration: i,
+        inputToken: tokenA,
+        outputToken: tokenA,
+        routes: best.legs,
+        computeTime: performanceOfRouteComp,
+      });
+
+      const profit = this.config.profitBasis === 'worstCase' ? best.worstCaseProfit : best.profit;
+      console.log(
+        `[${date.toLocaleString()}] Iteration: ${i}, Triangular - Best cycle: ${getCycleName(best.cycle)} ${profit.toFixed(4)}%, Cycles analyzed: ${ranked.length}/${cycles.length}`
+      );
+
+      if (profit > cache.config.minPercProfit) {
+        events.emit('opportunity:spotted', {
+          strategy: this.name,
+          iteration: i,
+          route: best.legs[0],
+          legs: best.legs,
+          inputToken: tokenA,
+          outputToken: tokenA,
+          expectedProfit: profit,
+        });
+      }
+
+      // Check if profit threshold is met and trading is enabled
+      if (profit > cache.config.minPercProfit && cache.tradingEnabled) {
+        console.log(`Executing cycle ${getCycleName(best.cycle)} with expected profit of ${profit.toFixed(4)}%`);
+        await this.executeCycle(context, best, profit);
+      }
+    } catch (error) {
+      cache.queue[i] = 1;
+      // The trading loop decides whether to retry, skip or pause
+      throw error;
+    } finally {
+      delete cache.queue[i];
+    }
+  }
+
+  /**
+   * Get the cycles to quote in this iteration, rotating through all cycles
+   */
+  private getNextCycles(context: StrategyContext): Cycle[] {
+    if (!this.cycles) {
+      const intermediates = [context.tokenB, ...this.getIntermediateTokens()];
+      this.cycles = enumerateCycles(context.tokenA, intermediates, 3, Number(this.config.maxLegs ?? 3));
+
+      if (this.cycles.length === 0) {
+        throw new ConfigError(`The ${this.name} strategy needs at least one token besides tokenA and tokenB`);
+      }
+      console.log(`Strategy ${this.name}: ${this.cycles.length} cycles`);
+    }
+
+    const count = Math.min(Number(this.config.maxCyclesPerIteration ?? 10), this.cycles.length);
+    const cycles = Array.from({ length: count }, (_, j) => this.cycles![(this.nextCycle + j) % this.cycles!.length]);
+    this.nextCycle = (this.nextCycle + count) % this.cycles.length;
+
+    return cycles;
+  }
+
+  /**
+   * Quote every leg of a cycle, each leg trading the quoted output of the previous one
+   * Legs shared by several cycles with the same input amount are quoted once
+   * @returns The quoted cycle, null when a leg has no route
+   */
+  private async quoteCycle(
+    context: StrategyContext,
+    cycle: Cycle,
+    amount: number,
+    slippage: number,
+    quotedLegs: Map<string, Promise<RouteInfo>>
+  ): Promise<CycleQuote | null> {
+    const legs: RouteInfo[] = [];
+    let legAmount = amount;
+
+    try {
+      for (let leg = 0; leg < cycle.tokens.length; leg++) {
+        const inputToken = cycle.tokens[leg];
+        const outputToken = cycle.tokens[(leg + 1) % cycle.tokens.length];
+        const key = `${inputToken.address}>${outputToken.address}:${legAmount}`;
+
+        if (!quotedLegs.has(key)) {
+          quotedLegs.set(key, this.quoteLeg(context, inputToken, outputToken, legAmount, slippage));
+        }
+
+        const route = await quotedLegs.get(key)!;
+        legAmount = Number(route.outAmount.toString());
+        if (legAmount <= 0) {
+          return null;
+        }
+        legs.push(route);
+      }
+    } catch (err) {
+      if (err instanceof NoRoutesError) {
+        return null;
+      }
+      throw err;
+    }
+
+    return compoundCycle(cycle, legs, Number(this.config.legFeeBps ?? 0));
+  }
+
+  private quoteLeg(
+    context: StrategyContext,
+    inputToken: Token,
+    outputToken: Token,
+    amount: number,
+    slippage: number
+  ): Promise<RouteInfo> {
+    return context.jupiter.getQuote({
+      inputMint: new PublicKey(inputToken.address),
+      outputMint: new PublicKey(outputToken.address),
+      amount: JSBI.BigInt(amount),
+      slippageBps: slippage,
+    });
+  }
+
+  /**
+   * Trade the legs of a cycle one after the other
+   * Later legs are quoted again with the amount received from the previous leg.
+   * When a leg fails, the tokens received so far are swapped back to tokenA.
+   */
+  private async executeCycle(context: StrategyContext, quote: CycleQuote, profit: number): Promise<void> {
+    const { executor, tokenA, slippage: slippageController } = context;
+    const { tokens } = quote.cycle;
+    let amount = quote.inAmount;
+    // tokenA spent on the first leg
+    let spent = quote.inAmount;
+
+    for (let leg = 0; leg < tokens.length; leg++) {
+      const inputToken = tokens[leg];
+      const outputToken = tokens[(leg + 1) % tokens.length];
+
+      try {
+        const route =
+          leg === 0
+            ? quote.legs[0]
+            : await this.quoteLeg(context, inputToken, outputToken, amount, slippageController.getSlippageBps());
+
+        const trade = await executor.executeSwap({
+          route,
+          inputToken,
+          outputToken,
+          buy: true,
+          expectedProfit: profit,
+        });
+        slippageController.recordTrade(trade);
+
+        if (trade.txStatus !== 'confirmed') {
+          throw new Error(`leg ${leg + 1} ${inputToken.symbol}>${outputToken.symbol} ${trade.txStatus}: ${trade.error ?? ''}`);
+        }
+
+        // Plugins may have resized the first leg
+        if (leg === 0) {
+          spent = fromDecimal(trade.inAmount, inputToken.decimals);
+        }
+        amount = this.getOutAmount(trade, route, outputToken);
+      } catch (err) {
+        console.error(`Cycle ${getCycleName(quote.cycle)} interrupted:`, err);
+        if (leg > 0) {
+          await this.unwind(context, inputToken, amount, spent);
+        }
+        return;
+      }
+    }
+
+    this.updateBalance(context, amount - spent);
+    console.log(`Cycle ${getCycleName(quote.cycle)} done: ${amount} (raw ${tokenA.symbol})`);
+  }
+
+  /**
+   * Swap the tokens held after an interrupted cycle back to tokenA
+   * @param spent tokenA spent on the first leg of the cycle (raw)
+   */
+  private async unwind(context: StrategyContext, token: Token, amount: number, spent: number): Promise<void> {
+    const { executor, tokenA, slippage: slippageController } = context;
+
+    try {
+      const route = await this.quoteLeg(context, token, tokenA, amount, slippageController.getSlippageBps());
+      const trade = await executor.executeSwap({
+        route,
+        inputToken: token,
+        outputToken: tokenA,
+        buy: false,
+        expectedProfit: 0,
+      });
+      slippageController.recordTrade(trade);
+
+      if (trade.txStatus !== 'confirmed') {
+        throw new Error(`swap ${trade.txStatus}: ${trade.error ?? ''}`);
+      }
+
+      const outAmount = this.getOutAmount(trade, route, tokenA);
+      this.updateBalance(context, outAmount - spent);
+      console.log(`Swapped ${amount} (raw ${token.symbol}) back to ${outAmount} (raw ${tokenA.symbol})`);
+    } catch (err) {
+      console.error(`Could not swap ${amount} (raw ${token.symbol}) back to ${tokenA.symbol}, swap it manually:`, err);
+    }
+  }
+
+  /**
+   * Add the result of a cycle to the position, the rest of the balance is untouched
+   * @param delta tokenA received minus tokenA spent (raw)
+   */
+  private updateBalance({ cache }: StrategyContext, delta: number): void {
+    cache.lastBalance.tokenA = cache.currentBalance.tokenA;
+    cache.currentBalance.tokenA += delta;
+    cache.currentProfit.tokenA = calculateProfit(cache.initialBalance.tokenA, cache.currentBalance.tokenA);
+  }
+
+  private getIntermediateTokens(): Token[] {
+    return (this.config.tokens as Token[] | undefined) ?? [];
+  }
+}
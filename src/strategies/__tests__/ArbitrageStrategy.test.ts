@@ -0,0 +1,122 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { NoRoutesError } from '../../errors';
+import {
+  BotCache,
+  BotEvents,
+  QuoteParams,
+  StrategyContext,
+  SwapRequest,
+  Token,
+  TradeEntry,
+  TradingConfig,
+} from '../../types';
+import { toDecimal } from '../../utils';
+import { ArbitrageStrategy } from '../ArbitrageStrategy';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+describe('ArbitrageStrategy', () => {
+  let cache: BotCache;
+  let context: StrategyContext;
+  let getQuote: jest.Mock;
+  let executeSwap: jest.Mock<Promise<Partial<TradeEntry>>, [SwapRequest]>;
+  let strategy: ArbitrageStrategy;
+  // Raw output per raw input of each leg, the round trip makes 2%
+  let rates: Record<string, number>;
+
+  const symbol = (mint: PublicKey) => (mint.toBase58() === USDC.address ? 'USDC' : 'SOL');
+
+  // Fill every swap at its quoted amounts
+  const fill = async ({ route, inputToken, outputToken }: SwapRequest): Promise<Partial<TradeEntry>> => ({
+    txStatus: 'confirmed',
+    inAmount: toDecimal(Number(route.amount.toString()), inputToken.decimals),
+    actualOutAmount: toDecimal(Number(route.outAmount.toString()), outputToken.decimals),
+  });
+
+  // Quote every leg at its rate
+  const quote = async ({ inputMint, outputMint, amount, slippageBps }: QuoteParams) => ({
+    amount,
+    outAmount: JSBI.BigInt(Math.floor(Number(amount.toString()) * rates[`${symbol(inputMint)}>${symbol(outputMint)}`])),
+    slippageBps,
+  });
+
+  const legs = () =>
+    executeSwap.mock.calls.map(([request]) => `${request.inputToken.symbol}>${request.outputToken.symbol}`);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    rates = { 'USDC>SOL': 10, 'SOL>USDC': 0.102 };
+
+    const config = {
+      tokens: { tokenA: USDC, tokenB: SOL },
+      tradeSize: { strategy: 'fixed', value: 100 },
+      minPercProfit: 0.5,
+      slippage: 50,
+    } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+    cache.walletBalance = { sol: 0, tokenA: 1000e6, tokenB: 0 };
+    cache.initialBalance = { tokenA: 100e6, tokenB: 1e9 };
+    cache.currentBalance = { tokenA: 100e6, tokenB: 0 };
+
+    getQuote = jest.fn(quote);
+    executeSwap = jest.fn(fill);
+    context = {
+      jupiter: { getQuote },
+      tokenA: USDC,
+      tokenB: SOL,
+      config,
+      cache,
+      executor: { executeSwap },
+      slippage: { getSlippageBps: () => 50, recordTrade: jest.fn() },
+      events: new EventEmitter<BotEvents>(),
+    } as unknown as StrategyContext;
+
+    strategy = new ArbitrageStrategy();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('trades both legs of a profitable round trip', async () => {
+    await strategy.execute(context);
+
+    expect(legs()).toEqual(['USDC>SOL', 'SOL>USDC']);
+    expect(cache.currentBalance).toEqual({ tokenA: 102e6, tokenB: 0 });
+    expect(cache.currentProfit.tokenA).toBeCloseTo(2);
+  });
+
+  it('swaps tokenB back when the sell leg cannot be quoted again', async () => {
+    executeSwap.mockResolvedValueOnce({ txStatus: 'confirmed', inAmount: 100, actualOutAmount: 0.99 });
+    getQuote.mockImplementationOnce(quote).mockImplementationOnce(quote).mockRejectedValueOnce(new NoRoutesError());
+
+    await expect(strategy.execute(context)).resolves.toBeUndefined();
+
+    expect(legs()).toEqual(['USDC>SOL', 'SOL>USDC']);
+    expect(executeSwap.mock.calls[1][0]).toMatchObject({ buy: false, expectedProfit: 0 });
+    expect(executeSwap.mock.calls[1][0].route.amount.toString()).toBe('990000000');
+    expect(cache.currentBalance).toEqual({ tokenA: 100.98e6, tokenB: 0 });
+  });
+
+  it('keeps the tokenB held when it cannot be swapped back and retries on the next iteration', async () => {
+    executeSwap.mockImplementationOnce(fill).mockResolvedValueOnce({ txStatus: 'failed', error: 'slippage' });
+    getQuote.mockImplementationOnce(quote).mockImplementationOnce(quote).mockRejectedValueOnce(new Error('timeout'));
+
+    await strategy.execute(context);
+
+    expect(legs()).toEqual(['USDC>SOL', 'SOL>USDC']);
+    expect(cache.currentBalance).toEqual({ tokenA: 0, tokenB: 1e9 });
+
+    await strategy.execute(context);
+
+    expect(legs()).toEqual(['USDC>SOL', 'SOL>USDC', 'SOL>USDC']);
+    expect(cache.currentBalance).toEqual({ tokenA: 102e6, tokenB: 0 });
+  });
+});
@@ -0,0 +1,143 @@
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { BotCache, BotEvents, StrategyContext, SwapRequest, Token, TradeEntry, TradingConfig } from '../../types';
+import { toDecimal } from '../../utils';
+import { DcaState, DcaStrategy } from '../DcaStrategy';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+const START = Date.UTC(2024, 0, 1);
+
+describe('DcaStrategy', () => {
+  let cache: BotCache;
+  let context: StrategyContext;
+  let executeSwap: jest.Mock<Promise<Partial<TradeEntry>>, [SwapRequest]>;
+  let stored: Record<string, unknown>;
+  let strategy: DcaStrategy;
+  let now: number;
+  // Price of SOL in USDC the quotes are made at
+  let price: number;
+
+  const fill = async ({ route, inputToken, outputToken }: SwapRequest): Promise<Partial<TradeEntry>> => ({
+    txStatus: 'confirmed',
+    inAmount: toDecimal(Number(route.amount.toString()), inputToken.decimals),
+    actualOutAmount: toDecimal(Number(route.outAmount.toString()), outputToken.decimals),
+  });
+
+  const spent = () => executeSwap.mock.calls.map(([request]) => Number(request.route.amount.toString()));
+
+  const createStrategy = async (config: Record<string, unknown>) => {
+    const created = new DcaStrategy();
+    created.config = { totalAmount: 100, slices: 4, mode: 'dca', interval: 60, window: 240, ...config };
+    await created.initialize();
+    return created;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    now = START;
+    price = 100;
+    stored = {};
+
+    const config = { tokens: { tokenA: USDC, tokenB: SOL }, slippage: 50 } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+
+    const getQuote = jest.fn(async ({ amount, slippageBps }) => ({
+      amount,
+      outAmount: JSBI.BigInt(Math.floor((Number(amount.toString()) / price) * 1e3)),
+      slippageBps,
+    }));
+    executeSwap = jest.fn(fill);
+    context = {
+      jupiter: { getQuote },
+      tokenA: USDC,
+      tokenB: SOL,
+      config,
+      cache,
+      executor: { executeSwap },
+      slippage: { getSlippageBps: () => 50, recordTrade: jest.fn() },
+      events: new EventEmitter<BotEvents>(),
+      state: {
+        load: async (key: string) => stored[key] ?? null,
+        save: async (key: string, state: unknown) => {
+          stored[key] = JSON.parse(JSON.stringify(state));
+        },
+      },
+      clock: { now: () => now },
+    } as unknown as StrategyContext;
+
+    strategy = await createStrategy({});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('trades a slice every interval until the amount is converted', async () => {
+    await strategy.execute(context);
+    now += 30_000;
+    await strategy.execute(context);
+
+    expect(spent()).toEqual([25e6]);
+
+    for (let slice = 0; slice < 4; slice++) {
+      now += 60_000;
+      await strategy.execute(context);
+    }
+
+    expect(spent()).toEqual([25e6, 25e6, 25e6, 25e6]);
+    expect(strategy.getSummary(context)).toEqual({
+      spent: 100,
+      received: 1,
+      averagePrice: 100,
+      slicesDone: 4,
+      slicesSkipped: 0,
+      completed: true,
+    });
+  });
+
+  it('skips slices quoted too far above the reference price', async () => {
+    strategy = await createStrategy({ referencePrice: 100, maxPriceDeviation: 1 });
+    price = 102;
+
+    await strategy.execute(context);
+
+    expect(executeSwap).not.toHaveBeenCalled();
+    expect(stored.dca).toMatchObject({ slicesSkipped: 1, referencePrice: 100, nextSliceAt: START + 60_000 });
+
+    price = 100.5;
+    now += 60_000;
+    await strategy.execute(context);
+    expect(spent()).toEqual([25e6]);
+  });
+
+  it('catches up on the TWAP schedule', async () => {
+    strategy = await createStrategy({ mode: 'twap' });
+    executeSwap.mockResolvedValueOnce({ txStatus: 'failed', error: 'slippage' });
+
+    await strategy.execute(context);
+    // Third slot of the window
+    now += 130_000;
+    await strategy.execute(context);
+
+    expect(spent()).toEqual([25e6, 75e6]);
+    expect(strategy.getSummary(context)).toMatchObject({ spent: 75, slicesDone: 1, slicesSkipped: 1 });
+    expect((stored.dca as DcaState).nextSliceAt).toBe(START + 180_000);
+  });
+
+  it('resumes the stored schedule after a restart', async () => {
+    await strategy.execute(context);
+
+    const restarted = await createStrategy({});
+    now += 30_000;
+    await restarted.execute(context);
+    now += 30_000;
+    await restarted.execute(context);
+
+    expect(spent()).toEqual([25e6, 25e6]);
+    expect(restarted.getSummary(context).slicesDone).toBe(2);
+  });
+});
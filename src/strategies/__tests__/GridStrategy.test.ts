@@ -0,0 +1,158 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { ConfigError } from '../../errors';
+import { BotCache, BotEvents, StrategyContext, SwapRequest, Token, TradeEntry, TradingConfig } from '../../types';
+import { toDecimal } from '../../utils';
+import { GridState, GridStrategy, buildGridPrices } from '../GridStrategy';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+describe('buildGridPrices', () => {
+  it('spaces the levels evenly or by a constant ratio', () => {
+    expect(buildGridPrices(90, 110, 3, 'arithmetic')).toEqual([90, 100, 110]);
+
+    const geometric = buildGridPrices(100, 400, 3, 'geometric');
+    expect(geometric[1]).toBeCloseTo(200);
+    expect(geometric[2]).toBeCloseTo(400);
+  });
+});
+
+describe('GridStrategy', () => {
+  let cache: BotCache;
+  let context: StrategyContext;
+  let executeSwap: jest.Mock<Promise<Partial<TradeEntry>>, [SwapRequest]>;
+  let stored: Record<string, unknown>;
+  let strategy: GridStrategy;
+  // Price of SOL in USDC the quotes are made at
+  let price: number;
+
+  const fill = async ({ route, inputToken, outputToken }: SwapRequest): Promise<Partial<TradeEntry>> => ({
+    txStatus: 'confirmed',
+    inAmount: toDecimal(Number(route.amount.toString()), inputToken.decimals),
+    actualOutAmount: toDecimal(Number(route.outAmount.toString()), outputToken.decimals),
+  });
+
+  const getState = () => stored.grid as GridState;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    price = 100;
+    stored = {};
+
+    const config = { tokens: { tokenA: USDC, tokenB: SOL }, slippage: 50 } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+
+    const getQuote = jest.fn(async ({ inputMint, amount, slippageBps }) => {
+      const buy = (inputMint as PublicKey).toBase58() === USDC.address;
+      const inAmount = Number(amount.toString());
+      return {
+        amount,
+        outAmount: JSBI.BigInt(Math.floor(buy ? (inAmount / price) * 1e3 : (inAmount * price) / 1e3)),
+        slippageBps,
+      };
+    });
+    executeSwap = jest.fn(fill);
+    context = {
+      jupiter: { getQuote },
+      tokenA: USDC,
+      tokenB: SOL,
+      config,
+      cache,
+      executor: { executeSwap },
+      slippage: { getSlippageBps: () => 50, recordTrade: jest.fn() },
+      events: new EventEmitter<BotEvents>(),
+      state: {
+        load: async (key: string) => stored[key] ?? null,
+        save: async (key: string, state: unknown) => {
+          stored[key] = JSON.parse(JSON.stringify(state));
+        },
+      },
+    } as unknown as StrategyContext;
+
+    strategy = new GridStrategy();
+    strategy.config = { lowerPrice: 90, upperPrice: 110, levels: 3, levelSize: 100, spacing: 'arithmetic' };
+    await strategy.initialize();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses a range without room for levels', async () => {
+    strategy.config = { ...strategy.config, upperPrice: 90 };
+
+    await expect(strategy.initialize()).rejects.toThrow(ConfigError);
+  });
+
+  it('waits while the price is above every empty level', async () => {
+    price = 105;
+
+    await strategy.execute(context);
+
+    expect(executeSwap).not.toHaveBeenCalled();
+    expect(getState()).toBeUndefined();
+  });
+
+  it('buys the highest empty level the price fell to', async () => {
+    price = 95;
+
+    await strategy.execute(context);
+
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({ inputToken: USDC, outputToken: SOL, buy: true }));
+    expect(getState().levels.map((level) => level.filled)).toEqual([false, true, false]);
+    expect(getState().levels[1]).toMatchObject({ amount: 1052631578, cost: 100e6 });
+  });
+
+  it('sells a level once the price reaches the level above it and realizes the profit', async () => {
+    price = 95;
+    await strategy.execute(context);
+    price = 111;
+
+    await strategy.execute(context);
+
+    expect(executeSwap.mock.calls[1][0]).toMatchObject({ inputToken: SOL, outputToken: USDC, buy: false });
+    expect(getState()).toMatchObject({ realizedProfit: 16842105, roundTrips: 1 });
+    expect(getState().levels.every((level) => !level.filled)).toBe(true);
+    expect(strategy.getRealizedProfit()).toBe(16842105);
+    // Profit over the 200 USDC the two buying levels can spend
+    expect(cache.currentProfit.tokenA).toBeCloseTo(8.42);
+  });
+
+  it('keeps the level empty when the buy fails', async () => {
+    price = 95;
+    executeSwap.mockResolvedValueOnce({ txStatus: 'failed', error: 'slippage' });
+
+    await strategy.execute(context);
+
+    expect(getState()).toBeUndefined();
+  });
+
+  it('resumes the stored grid', async () => {
+    price = 95;
+    await strategy.execute(context);
+
+    const restarted = new GridStrategy();
+    restarted.config = strategy.config;
+    await restarted.initialize();
+    price = 111;
+    await restarted.execute(context);
+
+    expect(restarted.getRealizedProfit()).toBe(16842105);
+  });
+
+  it('only reports opportunities while trading is disabled', async () => {
+    const spotted = jest.fn();
+    context.events.on('opportunity:spotted', spotted);
+    cache.tradingEnabled = false;
+    price = 95;
+
+    await strategy.execute(context);
+
+    expect(spotted).toHaveBeenCalled();
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { NoRoutesError } from '../../errors';
+import { BotCache, BotEvents, StrategyContext, Token, TradeEntry, TradingConfig } from '../../types';
+import { PingPongStrategy } from '../PingPongStrategy';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+describe('PingPongStrategy', () => {
+  let cache: BotCache;
+  let context: StrategyContext;
+  let computeRoutes: jest.Mock;
+  let executeSwap: jest.Mock;
+
+  // Routes the computed amount to the given raw output
+  const quote = (outAmount: number) =>
+    computeRoutes.mockImplementationOnce(async ({ inputMint, outputMint, amount }) => ({
+      routesInfos: [
+        {
+          inputMint: inputMint.toBase58(),
+          outputMint: outputMint.toBase58(),
+          amount,
+          outAmount: JSBI.BigInt(outAmount),
+          otherAmountThreshold: JSBI.BigInt(outAmount),
+          swapMode: 'ExactIn',
+          priceImpactPct: 0,
+          routePlan: [],
+          slippageBps: 50,
+        },
+      ],
+    }));
+
+  const filled = (inAmount: number, actualOutAmount: number): Partial<TradeEntry> => ({
+    txStatus: 'confirmed',
+    inAmount,
+    actualOutAmount,
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const config = {
+      tokens: { tokenA: USDC, tokenB: SOL },
+      tradeSize: { strategy: 'fixed', value: 100 },
+      minPercProfit: 0.5,
+      slippage: 50,
+    } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+    cache.walletBalance = { sol: 0, tokenA: 1000e6, tokenB: 0 };
+    // 100 USDC valued at 1 SOL
+    cache.initialBalance = { tokenA: 100e6, tokenB: 1e9 };
+    cache.lastBalance = { tokenA: 100e6, tokenB: 1e9 };
+    cache.currentBalance = { tokenA: 100e6, tokenB: 0 };
+
+    computeRoutes = jest.fn();
+    executeSwap = jest.fn();
+    context = {
+      jupiter: { computeRoutes },
+      tokenA: USDC,
+      tokenB: SOL,
+      config,
+      cache,
+      executor: { executeSwap },
+      slippage: { getSlippageBps: () => 50, recordTrade: jest.fn() },
+      events: new EventEmitter<BotEvents>(),
+    } as unknown as StrategyContext;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('buys tokenB when the quote beats the last tokenB balance', async () => {
+    quote(1.01e9);
+    executeSwap.mockResolvedValue(filled(100, 1.01));
+
+    await new PingPongStrategy().execute(context);
+
+    expect(executeSwap).toHaveBeenCalledWith(expect.objectContaining({ inputToken: USDC, outputToken: SOL, buy: true }));
+    expect(cache.currentBalance).toEqual({ tokenA: 0, tokenB: 1.01e9 });
+    expect(cache.currentProfit.tokenB).toBeCloseTo(1);
+    expect(cache.sideBuy).toBe(false);
+    expect(cache.queue).toEqual({});
+  });
+
+  it('sells back to tokenA on the next trade', async () => {
+    const strategy = new PingPongStrategy();
+    quote(1.01e9);
+    executeSwap.mockResolvedValueOnce(filled(100, 1.01));
+    await strategy.execute(context);
+
+    quote(102e6);
+    executeSwap.mockResolvedValueOnce(filled(1.01, 102));
+    cache.walletBalance.tokenB = 1.01e9;
+    await strategy.execute(context);
+
+    expect(computeRoutes).toHaveBeenLastCalledWith(expect.objectContaining({ amount: JSBI.BigInt(1e9) }));
+    expect(cache.currentBalance).toEqual({ tokenA: 102e6, tokenB: 0 });
+    expect(cache.currentProfit.tokenA).toBeCloseTo(2);
+    expect(cache.sideBuy).toBe(true);
+  });
+
+  it('moves only the amount traded when a plugin resized the trade', async () => {
+    quote(1.01e9);
+    executeSwap.mockResolvedValue(filled(50, 0.505));
+
+    await new PingPongStrategy().execute(context);
+
+    expect(cache.currentBalance).toEqual({ tokenA: 50e6, tokenB: 0.505e9 });
+  });
+
+  it('does not trade below the min profit or with trading disabled', async () => {
+    const strategy = new PingPongStrategy();
+
+    quote(1.001e9);
+    await strategy.execute(context);
+
+    quote(1.01e9);
+    cache.tradingEnabled = false;
+    await strategy.execute(context);
+
+    expect(executeSwap).not.toHaveBeenCalled();
+    expect(cache.sideBuy).toBe(true);
+  });
+
+  it('stays on the same side when the swap failed', async () => {
+    quote(1.01e9);
+    executeSwap.mockResolvedValue({ txStatus: 'failed', inAmount: 100 });
+
+    await new PingPongStrategy().execute(context);
+
+    expect(cache.currentBalance).toEqual({ tokenA: 100e6, tokenB: 0 });
+    expect(cache.sideBuy).toBe(true);
+  });
+
+  it('throws for the trading loop when no route was found', async () => {
+    computeRoutes.mockResolvedValue({ routesInfos: [] });
+
+    await expect(new PingPongStrategy().execute(context)).rejects.toThrow(NoRoutesError);
+    expect(cache.queue).toEqual({});
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError } from '../../errors';
+import { TradingConfig } from '../../types';
+import { BaseStrategy } from '../BaseStrategy';
+import { GridStrategy } from '../GridStrategy';
+import { StrategyRegistry, getStrategiesDir } from '../StrategyRegistry';
+
+class MomentumStrategy extends BaseStrategy {
+  constructor() {
+    super('momentum', 'Follow the trend');
+    this.configSchema = { window: { type: 'number', default: 20, min: 2 } };
+  }
+
+  async execute(): Promise<void> {
+    return;
+  }
+}
+
+describe('StrategyRegistry', () => {
+  let dir: string;
+  let registry: StrategyRegistry;
+
+  /**
+   * Put a strategy file in the strategies directory, the module exports the given value
+   */
+  const writeStrategy = (file: string, exported: unknown) => {
+    const strategyPath = path.join(dir, file);
+    fs.writeFileSync(strategyPath, '');
+    jest.doMock(strategyPath, () => ({ default: exported }));
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategies-'));
+    registry = new StrategyRegistry();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.resetModules();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('registers the built-in strategies', () => {
+    expect(registry.getNames()).toEqual(['pingpong', 'arbitrage', 'triangular', 'grid', 'dca']);
+    expect(registry.list().every((info) => info.source === undefined)).toBe(true);
+  });
+
+  it('creates a fresh strategy with its validated config section', () => {
+    const config = {
+      tradingStrategy: 'grid',
+      strategies: { grid: { lowerPrice: 100, upperPrice: 200, levelSize: 10 } },
+    } as unknown as TradingConfig;
+
+    const strategy = registry.create(config);
+
+    expect(strategy).toBeInstanceOf(GridStrategy);
+    expect(strategy).not.toBe(registry.create(config));
+    expect(strategy.config).toEqual({ lowerPrice: 100, upperPrice: 200, levels: 10, levelSize: 10, spacing: 'arithmetic' });
+  });
+
+  it('refuses unknown strategies and invalid config sections', () => {
+    expect(() => registry.create({ tradingStrategy: 'martingale' } as TradingConfig)).toThrow(
+      'Strategy martingale not found, available: pingpong, arbitrage, triangular, grid, dca'
+    );
+    expect(() => registry.create({ tradingStrategy: 'grid' } as TradingConfig)).toThrow(ConfigError);
+  });
+
+  it('loads the strategies of a directory', async () => {
+    writeStrategy('momentum.js', MomentumStrategy);
+
+    await registry.loadStrategies(dir);
+
+    expect(registry.list().pop()).toEqual({
+      name: 'momentum',
+      description: 'Follow the trend',
+      configSchema: { window: { type: 'number', default: 20, min: 2 } },
+      source: path.join(dir, 'momentum.js'),
+    });
+    expect(registry.create({ tradingStrategy: 'momentum' } as TradingConfig).config).toEqual({ window: 20 });
+  });
+
+  it('loads strategies compiled from ES modules', async () => {
+    const strategyPath = path.join(dir, 'momentum.js');
+    fs.writeFileSync(strategyPath, '');
+    jest.doMock(strategyPath, () => ({ __esModule: true, default: MomentumStrategy }));
+
+    await registry.loadStrategies(dir);
+
+    expect(registry.getNames()).toContain('momentum');
+  });
+
+  it('skips files that do not export a strategy', async () => {
+    writeStrategy('object.js', { name: 'object' });
+    writeStrategy('invalid.js', class {});
+    writeStrategy('momentum.js', MomentumStrategy);
+
+    await registry.loadStrategies(dir);
+
+    expect(registry.getNames()).toContain('momentum');
+    expect(registry.getNames()).toHaveLength(6);
+    expect(console.error).toHaveBeenCalledWith('File object.js does not export a strategy class');
+    expect(console.error).toHaveBeenCalledWith('File invalid.js does not export a valid strategy');
+  });
+
+  it('ignores a missing directory', async () => {
+    await registry.loadStrategies(path.join(dir, 'missing'));
+
+    expect(registry.getNames()).toHaveLength(5);
+  });
+});
+
+describe('getStrategiesDir', () => {
+  it('resolves the configured directory, ./strategies by default', () => {
+    expect(getStrategiesDir({ strategiesDir: '/opt/strategies' })).toBe('/opt/strategies');
+    expect(getStrategiesDir({})).toBe(path.resolve('strategies'));
+  });
+});
@@ -0,0 +1,127 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { ConfigError } from '../../errors';
+import { BotCache, BotEvents, StrategyContext, SwapRequest, Token, TradeEntry, TradingConfig } from '../../types';
+import { toDecimal } from '../../utils';
+import { TriangularArbitrageStrategy } from '../TriangularArbitrageStrategy';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+const BONK: Token = { symbol: 'BONK', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 };
+
+const TOKENS = [USDC, SOL, BONK];
+
+describe('TriangularArbitrageStrategy', () => {
+  let cache: BotCache;
+  let context: StrategyContext;
+  let executeSwap: jest.Mock<Promise<Partial<TradeEntry>>, [SwapRequest]>;
+  let strategy: TriangularArbitrageStrategy;
+  // Raw output per raw input of each leg, USDC>SOL>BONK>USDC makes 2%
+  let rates: Record<string, number>;
+
+  const symbol = (mint: PublicKey) => TOKENS.find((token) => token.address === mint.toBase58())!.symbol;
+
+  // Fill every swap at its quoted amounts
+  const fill = async ({ route, inputToken, outputToken }: SwapRequest): Promise<Partial<TradeEntry>> => ({
+    txStatus: 'confirmed',
+    inAmount: toDecimal(Number(route.amount.toString()), inputToken.decimals),
+    actualOutAmount: toDecimal(Number(route.outAmount.toString()), outputToken.decimals),
+  });
+
+  const legs = () =>
+    executeSwap.mock.calls.map(([request]) => `${request.inputToken.symbol}>${request.outputToken.symbol}`);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    rates = {
+      'USDC>SOL': 10,
+      'SOL>BONK': 500,
+      'BONK>USDC': 0.000204,
+      'USDC>BONK': 4800,
+      'BONK>SOL': 0.002,
+      'SOL>USDC': 0.099,
+    };
+
+    const config = {
+      tokens: { tokenA: USDC, tokenB: SOL },
+      tradeSize: { strategy: 'fixed', value: 100 },
+      minPercProfit: 0.5,
+      slippage: 50,
+    } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+    cache.walletBalance = { sol: 0, tokenA: 1000e6, tokenB: 0 };
+    cache.initialBalance = { tokenA: 100e6, tokenB: 1e9 };
+    cache.currentBalance = { tokenA: 100e6, tokenB: 0 };
+
+    const getQuote = jest.fn(async ({ inputMint, outputMint, amount, slippageBps }) => ({
+      inputMint: inputMint.toBase58(),
+      outputMint: outputMint.toBase58(),
+      amount,
+      outAmount: JSBI.BigInt(
+        Math.floor(Number(amount.toString()) * rates[`${symbol(inputMint)}>${symbol(outputMint)}`])
+      ),
+      otherAmountThreshold: JSBI.BigInt(0),
+      swapMode: 'ExactIn',
+      priceImpactPct: 0,
+      routePlan: [],
+      slippageBps,
+    }));
+    executeSwap = jest.fn(fill);
+    context = {
+      jupiter: { getQuote },
+      tokenA: USDC,
+      tokenB: SOL,
+      config,
+      cache,
+      executor: { executeSwap },
+      slippage: { getSlippageBps: () => 50, recordTrade: jest.fn() },
+      events: new EventEmitter<BotEvents>(),
+    } as unknown as StrategyContext;
+
+    strategy = new TriangularArbitrageStrategy();
+    strategy.config = { tokens: [BONK], maxLegs: 3, maxCyclesPerIteration: 10, legFeeBps: 0, profitBasis: 'quoted' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('trades the most profitable cycle one leg after the other', async () => {
+    await strategy.execute(context);
+
+    expect(legs()).toEqual(['USDC>SOL', 'SOL>BONK', 'BONK>USDC']);
+    expect(executeSwap.mock.calls[2][0].route.amount.toString()).toBe('500000000000');
+    expect(cache.currentBalance.tokenA).toBe(102e6);
+    expect(cache.currentProfit.tokenA).toBeCloseTo(2);
+    expect(cache.queue).toEqual({});
+  });
+
+  it('does not trade cycles below the min profit', async () => {
+    rates['BONK>USDC'] = 0.0002006;
+
+    await strategy.execute(context);
+
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+
+  it('swaps the tokens held back to tokenA when a leg fails', async () => {
+    executeSwap.mockImplementationOnce(fill).mockResolvedValueOnce({ txStatus: 'failed', error: 'slippage' });
+
+    await strategy.execute(context);
+
+    expect(legs()).toEqual(['USDC>SOL', 'SOL>BONK', 'SOL>USDC']);
+    expect(executeSwap.mock.calls[2][0]).toMatchObject({ buy: false, expectedProfit: 0 });
+    expect(cache.currentBalance.tokenA).toBe(99e6);
+  });
+
+  it('needs a token besides tokenA and tokenB', async () => {
+    strategy.config = { ...strategy.config, tokens: [] };
+
+    await expect(strategy.execute(context)).rejects.toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,107 @@
+import JSBI from 'jsbi';
+import { RouteInfo, Token } from '../../types';
+import { compoundCycle, enumerateCycles, getCycleName, rankCycles } from '../cycles';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+const BONK: Token = { symbol: 'BONK', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 };
+const JUP: Token = { symbol: 'JUP', address: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', decimals: 6 };
+
+const createRoute = (
+  inputToken: Token,
+  outputToken: Token,
+  amount: number,
+  outAmount: number,
+  slippageBps = 50
+): RouteInfo => ({
+  inputMint: inputToken.address,
+  outputMint: outputToken.address,
+  amount: JSBI.BigInt(amount),
+  outAmount: JSBI.BigInt(outAmount),
+  otherAmountThreshold: JSBI.BigInt(Math.floor(outAmount * (1 - slippageBps / 10000))),
+  swapMode: 'ExactIn',
+  priceImpactPct: 0,
+  routePlan: [],
+  slippageBps,
+});
+
+const names = (cycles: { tokens: Token[] }[]) => cycles.map(getCycleName);
+
+describe('enumerateCycles', () => {
+  it('lists the triangles through every ordered pair of intermediates', () => {
+    const cycles = enumerateCycles(USDC, [SOL, BONK], 3, 3);
+
+    expect(names(cycles)).toEqual(['USDC>SOL>BONK>USDC', 'USDC>BONK>SOL>USDC']);
+  });
+
+  it('includes longer cycles up to maxLegs', () => {
+    const cycles = enumerateCycles(USDC, [SOL, BONK, JUP], 3, 4);
+
+    expect(cycles).toHaveLength(12);
+    expect(cycles.filter((cycle) => cycle.tokens.length === 4)).toHaveLength(6);
+    expect(names(cycles)).toContain('USDC>SOL>BONK>JUP>USDC');
+  });
+
+  it('ignores the start token and duplicate intermediates', () => {
+    const cycles = enumerateCycles(USDC, [USDC, SOL, { ...SOL }, BONK], 3, 3);
+
+    expect(names(cycles)).toEqual(['USDC>SOL>BONK>USDC', 'USDC>BONK>SOL>USDC']);
+  });
+
+  it('returns nothing without enough intermediates', () => {
+    expect(enumerateCycles(USDC, [SOL], 3, 3)).toEqual([]);
+  });
+});
+
+describe('compoundCycle', () => {
+  const cycle = { tokens: [USDC, SOL, BONK] };
+
+  it('takes the output of the last leg and deducts the fees of every leg', () => {
+    const legs = [
+      createRoute(USDC, SOL, 1_000_000, 10_000_000, 0),
+      createRoute(SOL, BONK, 10_000_000, 500_000_000, 0),
+      createRoute(BONK, USDC, 500_000_000, 1_020_000, 0),
+    ];
+
+    const quote = compoundCycle(cycle, legs, 10);
+
+    expect(quote.inAmount).toBe(1_000_000);
+    expect(quote.outAmount).toBeCloseTo(1_020_000 * Math.pow(0.999, 3));
+    expect(quote.profit).toBeCloseTo(((quote.outAmount - 1_000_000) / 1_000_000) * 100);
+    expect(quote.minOutAmount).toBeCloseTo(quote.outAmount);
+  });
+
+  it('applies the slippage threshold of every leg to the worst case', () => {
+    const legs = [
+      createRoute(USDC, SOL, 1_000_000, 10_000_000, 100),
+      createRoute(SOL, BONK, 10_000_000, 500_000_000, 100),
+      createRoute(BONK, USDC, 500_000_000, 1_020_000, 100),
+    ];
+
+    const quote = compoundCycle(cycle, legs, 0);
+
+    expect(quote.outAmount).toBe(1_020_000);
+    expect(quote.minOutAmount).toBeCloseTo(1_020_000 * Math.pow(0.99, 3), 0);
+    expect(quote.worstCaseProfit).toBeLessThan(quote.profit);
+  });
+
+  it('has no profit for an empty input', () => {
+    const legs = [createRoute(USDC, SOL, 0, 0), createRoute(SOL, USDC, 0, 0)];
+
+    const quote = compoundCycle({ tokens: [USDC, SOL] }, legs, 0);
+
+    expect(quote.profit).toBe(0);
+    expect(quote.minOutAmount).toBe(0);
+  });
+});
+
+describe('rankCycles', () => {
+  it('sorts by profit without changing the input', () => {
+    const base = compoundCycle({ tokens: [USDC, SOL] }, [createRoute(USDC, SOL, 1, 1)], 0);
+    const quote = (profit: number) => ({ ...base, profit });
+    const quotes = [quote(0.1), quote(0.5), quote(-0.2)];
+
+    expect(rankCycles(quotes).map((q) => q.profit)).toEqual([0.5, 0.1, -0.2]);
+    expect(quotes.map((q) => q.profit)).toEqual([0.1, 0.5, -0.2]);
+  });
+});
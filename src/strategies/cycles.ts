@@ -0,0 +1,106 @@
+import { RouteInfo, Token } from '../types';
+
+/**
+ * Closed path of swaps starting and ending with the same token
+ */
+export interface Cycle {
+  // Tokens in trading order, the start token is not repeated at the end
+  tokens: Token[];
+}
+
+/**
+ * Quoted cycle with its compounded output
+ */
+export interface CycleQuote {
+  cycle: Cycle;
+  legs: RouteInfo[];
+  inAmount: number;
+  // Quoted output of the last leg, per-leg fees deducted (raw start token)
+  outAmount: number;
+  // Output when every leg fills at its slippage threshold, fees deducted
+  minOutAmount: number;
+  // Net profit of the quoted output (%)
+  profit: number;
+  // Net profit at the slippage thresholds (%)
+  worstCaseProfit: number;
+}
+
+/**
+ * Get a readable name of a cycle, e.g. USDC>SOL>BONK>USDC
+ */
+export const getCycleName = (cycle: Cycle): string =>
+  [...cycle.tokens, cycle.tokens[0]].map((token) => token.symbol).join('>');
+
+/**
+ * List every cycle from the start token through distinct intermediate tokens
+ * @param minLegs Fewest swaps of a cycle, 3 for A>B>C>A
+ * @param maxLegs Most swaps of a cycle
+ */
+export const enumerateCycles = (
+  start: Token,
+  intermediates: Token[],
+  minLegs: number,
+  maxLegs: number
+): Cycle[] => {
+  const cycles: Cycle[] = [];
+  const candidates = intermediates.filter(
+    (token, index) =>
+      token.address !== start.address &&
+      intermediates.findIndex((other) => other.address === token.address) === index
+  );
+
+  const extend = (path: Token[]) => {
+    // A cycle of n legs goes through n - 1 intermediate tokens
+    if (path.length >= minLegs) {
+      cycles.push({ tokens: path });
+    }
+    if (path.length >= maxLegs) {
+      return;
+    }
+
+    for (const token of candidates) {
+      if (!path.includes(token)) {
+        extend([...path, token]);
+      }
+    }
+  };
+
+  extend([start]);
+  return cycles;
+};
+
+/**
+ * Compound the quoted legs of a cycle
+ * The quoted output of each leg is the input of the next one, so the last leg
+ * already carries the output of the whole cycle
+ * @param feeBps Cost of each leg not included in the quotes (bps of the leg output)
+ */
+export const compoundCycle = (cycle: Cycle, legs: RouteInfo[], feeBps: number): CycleQuote => {
+  const inAmount = Number(legs[0].amount.toString());
+  const feeFactor = Math.pow(1 - feeBps / 10000, legs.length);
+
+  // Share of the quoted output each leg keeps at its slippage threshold
+  const slippageFactor = legs.reduce((factor, leg) => {
+    const outAmount = Number(leg.outAmount.toString());
+    return outAmount > 0 ? factor * (Number(leg.otherAmountThreshold.toString()) / outAmount) : 0;
+  }, 1);
+
+  const outAmount = Number(legs[legs.length - 1].outAmount.toString()) * feeFactor;
+  const minOutAmount = outAmount * slippageFactor;
+
+  return {
+    cycle,
+    legs,
+    inAmount,
+    outAmount,
+    minOutAmount,
+    profit: inAmount > 0 ? ((outAmount - inAmount) / inAmount) * 100 : 0,
+    worstCaseProfit: inAmount > 0 ? ((minOutAmount - inAmount) / inAmount) * 100 : 0,
+  };
+};
+
+/**
+ * Sort quoted cycles by net profit, best first
+ */
+export const rankCycles = (quotes: CycleQuote[]): CycleQuote[] =>
+  [...quotes].sort((a, b) => b.profit - a.profit);
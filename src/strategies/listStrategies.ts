@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigManager } from '../config/ConfigManager';
+import { getStrategiesDir, StrategyInfo, StrategyRegistry } from './StrategyRegistry';
+
+/**
+ * List the strategies the bot can run
+ *
+ * Usage:
+ *   yarn strategies [--config config.json] [--dir strategies]
+ */
+
+/**
+ * Parse --key value pairs from the command line
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Get the strategies directory from the arguments or the config file
+ */
+function resolveStrategiesDir(args: Record<string, string>): string {
+  if (args.dir) {
+    return path.resolve(args.dir);
+  }
+
+  const configPath = path.resolve(args.config || 'config.json');
+  if (!fs.existsSync(configPath)) {
+    return getStrategiesDir({});
+  }
+
+  return getStrategiesDir(new ConfigManager(configPath).loadConfig());
+}
+
+/**
+ * Print a strategy and its config options
+ */
+function printStrategy(info: StrategyInfo): void {
+  console.log(`${info.name.padEnd(16)}${info.description}${info.source ? ` (${info.source})` : ''}`);
+
+  for (const [key, option] of Object.entries(info.configSchema ?? {})) {
+    const details = [
+      option.type,
+      option.required ? 'required' : undefined,
+      option.default !== undefined ? `default ${JSON.stringify(option.default)}` : undefined,
+      option.min !== undefined ? `min ${option.min}` : undefined,
+      option.max !== undefined ? `max ${option.max}` : undefined,
+      option.enum ? `one of ${option.enum.join(', ')}` : undefined,
+    ].filter(Boolean);
+
+    console.log(`${''.padEnd(18)}${key}: ${details.join(', ')}${option.description ? ` - ${option.description}` : ''}`);
+  }
+}
+
+/**
+ * List built-in and third party strategies
+ */
+async function listStrategies(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  try {
+    const registry = new StrategyRegistry();
+    await registry.loadStrategies(resolveStrategiesDir(args));
+
+    console.log('\nAvailable strategies');
+    registry.list().forEach(printStrategy);
+  } catch (error) {
+    console.error('Error listing strategies:', error);
+    process.exit(1);
+  }
+}
+
+// List the strategies if this file is executed directly
+if (require.main === module) {
+  listStrategies().catch(console.error);
+}
+
+export { listStrategies };
@@ -0,0 +1,57 @@
+import { InsufficientBalanceError } from '../errors';
+
+/**
+ * BalanceBudget shares the wallet balances between bot instances
+ * Each instance reserves the raw amount it trades so two instances never
+ * count on the same tokens. Limits cap the total reserved per mint.
+ */
+export class BalanceBudget {
+  // Raw amounts reserved by each instance, keyed by instance id then mint
+  private reservations: Map<string, Map<string, number>> = new Map();
+  private limits: Record<string, number>;
+
+  constructor(limits: Record<string, number> = {}) {
+    this.limits = limits;
+  }
+
+  /**
+   * Reserve an amount of a mint for an instance, replacing its previous reservation of the mint
+   * @param available Raw wallet balance of the mint
+   * @param decimals Decimals of the mint, used to convert its limit
+   * @throws InsufficientBalanceError when the other instances already reserved too much
+   */
+  reserve(instanceId: string, mint: string, amount: number, available: number, decimals: number): void {
+    const limit = this.limits[mint];
+    const max = limit === undefined ? available : Math.min(available, Math.floor(limit * 10 ** decimals));
+    const reservedByOthers = this.getReserved(mint) - (this.reservations.get(instanceId)?.get(mint) ?? 0);
+
+    if (reservedByOthers + amount > max) {
+      throw new InsufficientBalanceError(
+        `Instance ${instanceId} needs ${amount} of ${mint}, only ${Math.max(max - reservedByOthers, 0)} left in the budget`
+      );
+    }
+
+    if (!this.reservations.has(instanceId)) {
+      this.reservations.set(instanceId, new Map());
+    }
+    this.reservations.get(instanceId)!.set(mint, amount);
+  }
+
+  /**
+   * Release every reservation of an instance
+   */
+  release(instanceId: string): void {
+    this.reservations.delete(instanceId);
+  }
+
+  /**
+   * Get the raw amount of a mint reserved by all instances
+   */
+  getReserved(mint: string): number {
+    let total = 0;
+    for (const reservations of this.reservations.values()) {
+      total += reservations.get(mint) ?? 0;
+    }
+    return total;
+  }
+}
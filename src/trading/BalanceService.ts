@@ -0,0 +1,122 @@
+import { PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { NATIVE_MINT } from '../constants/solana';
+import { BotEventBus } from '../core/EventEmitter';
+import { InsufficientBalanceError } from '../errors';
+import { RpcPool } from '../rpc/RpcPool';
+import { BotCache, QuoteProvider, Token } from '../types';
+import { fromDecimal } from '../utils';
+import { getSolReserveLamports } from './TokenAccountManager';
+
+/**
+ * Setup the traded position balances, starting with the given amount of tokenA
+ * The position is also valued in tokenB so the first sell has a baseline
+ */
+export const initializePositionBalances = async (
+  cache: BotCache,
+  quoteProvider: QuoteProvider,
+  amount: number
+): Promise<void> => {
+  const { tokens, slippage } = cache.config;
+
+  cache.initialBalance.tokenA = amount;
+  cache.currentBalance.tokenA = amount;
+  cache.lastBalance.tokenA = amount;
+
+  const route = await quoteProvider.getQuote({
+    inputMint: new PublicKey(tokens.tokenA.address),
+    outputMint: new PublicKey(tokens.tokenB.address),
+    amount: JSBI.BigInt(amount),
+    slippageBps: slippage,
+  });
+
+  cache.initialBalance.tokenB = Number(route.outAmount.toString());
+  cache.lastBalance.tokenB = cache.initialBalance.tokenB;
+};
+
+/**
+ * Get the raw tokenA position from the trade size strategy and the wallet balance
+ * @throws InsufficientBalanceError when the wallet cannot cover the position
+ */
+export const getPositionSize = (cache: BotCache): number => {
+  const { tradeSize, tokens } = cache.config;
+  const amount =
+    tradeSize.strategy === 'percentage'
+      ? Math.floor((cache.walletBalance.tokenA * tradeSize.value) / 100)
+      : fromDecimal(tradeSize.value, tokens.tokenA.decimals);
+
+  if (amount <= 0 || amount > cache.walletBalance.tokenA) {
+    throw new InsufficientBalanceError(
+      `Insufficient ${tokens.tokenA.symbol} balance: ${cache.walletBalance.tokenA} < ${amount}`
+    );
+  }
+
+  return amount;
+};
+
+/**
+ * BalanceService loads the wallet's SOL and token balances from the chain
+ */
+export class BalanceService {
+  private rpcPool: RpcPool;
+  private owner: PublicKey;
+  private cache: BotCache;
+  private events: BotEventBus;
+
+  constructor(rpcPool: RpcPool, owner: PublicKey, cache: BotCache, events: BotEventBus) {
+    this.rpcPool = rpcPool;
+    this.owner = owner;
+    this.cache = cache;
+    this.events = events;
+  }
+
+  /**
+   * Load the wallet balances and setup the position from the trade size strategy
+   */
+  async initialize(quoteProvider: QuoteProvider): Promise<void> {
+    await this.refresh();
+    await initializePositionBalances(this.cache, quoteProvider, getPositionSize(this.cache));
+  }
+
+  /**
+   * Reload the wallet balances into the cache, emitting balance:changed when they moved
+   */
+  async refresh(): Promise<void> {
+    const { tokenA, tokenB } = this.cache.config.tokens;
+
+    const [sol, balanceA, balanceB] = await Promise.all([
+      this.rpcPool.execute((connection) => connection.getBalance(this.owner)),
+      this.getTokenBalance(tokenA),
+      this.getTokenBalance(tokenB),
+    ]);
+
+    const previous = this.cache.walletBalance;
+    this.cache.walletBalance = { sol, tokenA: balanceA, tokenB: balanceB };
+
+    if (previous.sol !== sol || previous.tokenA !== balanceA || previous.tokenB !== balanceB) {
+      this.events.emit('balance:changed', { previous, current: { ...this.cache.walletBalance } });
+    }
+  }
+
+  /**
+   * Get the raw balance of a token held by the wallet
+   * Native SOL counts as the SOL balance minus the reserve when SOL is wrapped/unwrapped around swaps
+   */
+  async getTokenBalance(token: Token): Promise<number> {
+    if (token.address === NATIVE_MINT.toBase58() && this.cache.wrapUnwrapSOL) {
+      const balance = await this.rpcPool.execute((connection) => connection.getBalance(this.owner));
+      return Math.max(0, balance - getSolReserveLamports(this.cache.config));
+    }
+
+    const accounts = await this.rpcPool.execute((connection) =>
+      connection.getParsedTokenAccountsByOwner(this.owner, {
+        mint: new PublicKey(token.address),
+      })
+    );
+
+    return accounts.value.reduce(
+      (total, account) => total + Number(account.account.data.parsed.info.tokenAmount.amount),
+      0
+    );
+  }
+}
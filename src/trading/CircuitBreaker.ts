@@ -0,0 +1,162 @@
+import { EventEmitter } from '../core/EventEmitter';
+import { BotError } from '../errors';
+import { BotCache, BotEvents, CircuitBreakerConfig, CircuitState, Clock, TradeEntry, TradingConfig } from '../types';
+
+const DEFAULT_MAX_CONSECUTIVE_FAILURES = 5;
+const DEFAULT_MAX_ERRORS = 20;
+const DEFAULT_ERROR_WINDOW = 60;
+const DEFAULT_COOLDOWN = 300;
+
+/**
+ * CircuitBreaker stops trading after a run of failed swaps or a burst of errors
+ *
+ * - closed: trades go ahead
+ * - open: trades are refused until the cooldown is over
+ * - half-open: one probe trade is allowed, it closes the breaker when confirmed
+ *   and opens it again when it fails
+ *
+ * The state is kept in cache.circuitBreaker and every change is logged and
+ * emitted as a circuit:changed event. Failed swaps and failed iterations are
+ * counted in cache.tradeCounter.errorcount.
+ */
+export class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private cache: BotCache;
+  private events: EventEmitter<BotEvents>;
+  private clock: Clock;
+  private consecutiveFailures = 0;
+  private errorTimes: number[] = [];
+  // A probe trade is in flight
+  private probing = false;
+
+  constructor(config: TradingConfig, cache: BotCache, events: EventEmitter<BotEvents>, clock?: Clock) {
+    this.config = config.circuitBreaker ?? {};
+    this.cache = cache;
+    this.events = events;
+    this.clock = clock ?? { now: () => Date.now() };
+
+    events.on('iteration:failed', ({ error, action }) => {
+      // Expected errors such as missing routes are not counted, like in the error policy
+      if (!(action === 'skip' && error instanceof BotError && error.retryable)) {
+        this.recordError();
+      }
+    });
+    // Moves an open breaker to half-open once the cooldown is over, even without trades
+    events.on('iteration:end', () => {
+      this.getState();
+    });
+  }
+
+  /**
+   * Get the state, an open breaker becomes half-open after the cooldown
+   */
+  getState(): CircuitState {
+    const { state, openedAt = 0 } = this.cache.circuitBreaker;
+
+    if (state === 'open' && this.clock.now() - openedAt >= this.getCooldown()) {
+      this.transition('half-open', 'cooldown over, waiting for a probe trade');
+    }
+
+    return this.cache.circuitBreaker.state;
+  }
+
+  /**
+   * Check if a trade may go ahead, a half-open breaker lets a single probe trade through
+   * @returns Why the trade is refused, null when it may go ahead
+   */
+  allowTrade(): string | null {
+    const state = this.getState();
+
+    if (state === 'open') {
+      const remaining = this.getCooldown() - (this.clock.now() - (this.cache.circuitBreaker.openedAt ?? 0));
+      return `circuit breaker open (${this.cache.circuitBreaker.reason}), probe trade in ${Math.ceil(remaining / 1000)}s`;
+    }
+
+    if (state === 'half-open') {
+      if (this.probing) {
+        return 'circuit breaker half-open, waiting for the probe trade';
+      }
+
+      this.probing = true;
+      console.log('Circuit breaker half-open, sending a probe trade');
+    }
+
+    return null;
+  }
+
+  /**
+   * Update the breaker with the result of a swap
+   */
+  recordTrade(trade: TradeEntry): void {
+    const probe = this.probing;
+    this.probing = false;
+
+    if (trade.txStatus === 'vetoed') {
+      return;
+    }
+
+    if (trade.txStatus === 'confirmed') {
+      this.consecutiveFailures = 0;
+      if (probe) {
+        this.transition('closed', 'probe trade confirmed');
+      }
+      return;
+    }
+
+    this.consecutiveFailures++;
+    this.recordError();
+    if (this.cache.circuitBreaker.state === 'open') {
+      return;
+    }
+
+    if (probe) {
+      this.open(`probe trade failed: ${trade.error ?? trade.txStatus}`);
+    } else if (this.consecutiveFailures >= (this.config.maxConsecutiveFailures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES)) {
+      this.open(`${this.consecutiveFailures} failed swaps in a row`);
+    }
+  }
+
+  /**
+   * Count an error, a burst of errors within the window opens the breaker
+   */
+  recordError(): void {
+    const now = this.clock.now();
+    const window = (this.config.errorWindow ?? DEFAULT_ERROR_WINDOW) * 1000;
+    const maxErrors = this.config.maxErrors ?? DEFAULT_MAX_ERRORS;
+
+    this.cache.tradeCounter.errorcount++;
+    this.errorTimes = this.errorTimes.filter((time) => time > now - window);
+    this.errorTimes.push(now);
+
+    if (this.errorTimes.length >= maxErrors && this.cache.circuitBreaker.state !== 'open') {
+      this.open(`${this.errorTimes.length} errors in ${window / 1000}s`);
+    }
+  }
+
+  private open(reason: string): void {
+    this.consecutiveFailures = 0;
+    this.errorTimes = [];
+    this.transition('open', reason);
+  }
+
+  private transition(state: CircuitState, reason: string): void {
+    const previous = this.cache.circuitBreaker.state;
+    this.cache.circuitBreaker = {
+      state,
+      reason,
+      openedAt: state === 'open' ? this.clock.now() : this.cache.circuitBreaker.openedAt,
+    };
+
+    const message = `Circuit breaker ${previous} -> ${state}: ${reason}`;
+    if (state === 'open') {
+      console.warn(message);
+    } else {
+      console.log(message);
+    }
+    this.events.emit('circuit:changed', { state, previous, reason });
+  }
+
+  private getCooldown(): number {
+    return (this.config.cooldown ?? DEFAULT_COOLDOWN) * 1000;
+  }
+}
@@ -0,0 +1,44 @@
+import { SwapRequest, TradeEntry, TradeExecutor } from '../types';
+import { createTradeEntry } from '../utils';
+import { CircuitBreaker } from './CircuitBreaker';
+
+/**
+ * CircuitBreakerTradeExecutor refuses swaps while the circuit breaker is open
+ * and reports the result of every executed swap to it
+ */
+export class CircuitBreakerTradeExecutor implements TradeExecutor {
+  private executor: TradeExecutor;
+  private breaker: CircuitBreaker;
+
+  constructor(executor: TradeExecutor, breaker: CircuitBreaker) {
+    this.executor = executor;
+    this.breaker = breaker;
+  }
+
+  /**
+   * Execute a swap unless the circuit breaker is open
+   * @param request The route and trade details
+   * @returns The trade entry from the wrapped executor, or the vetoed entry
+   */
+  async executeSwap(request: SwapRequest): Promise<TradeEntry> {
+    const reason = this.breaker.allowTrade();
+
+    if (reason) {
+      const tradeEntry = createTradeEntry(request);
+      tradeEntry.txStatus = 'vetoed';
+      tradeEntry.error = `Vetoed by ${reason}`;
+      return tradeEntry;
+    }
+
+    let trade: TradeEntry;
+    try {
+      trade = await this.executor.executeSwap(request);
+    } catch (err) {
+      this.breaker.recordTrade({ ...createTradeEntry(request), txStatus: 'failed', error: String(err) });
+      throw err;
+    }
+
+    this.breaker.recordTrade(trade);
+    return trade;
+  }
+}
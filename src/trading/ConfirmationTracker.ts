@@ -0,0 +1,207 @@
+import { ConfirmedTransactionMeta, PublicKey, TokenBalance } from '@solana/web3.js';
+import { NATIVE_MINT } from '../constants/solana';
+import { DatabaseService } from '../database/DatabaseService';
+import { RpcPool } from '../rpc/RpcPool';
+import { BotCache, SwapRequest, TradeEntry } from '../types';
+import { toDecimal } from '../utils';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+
+/**
+ * Attempts to load a confirmed transaction, it can lag behind its status
+ */
+const FETCH_ATTEMPTS = 5;
+
+/**
+ * RPC errors in a row after which the outcome of a transaction is given up on
+ */
+const MAX_POLL_ERRORS = 5;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Outcome of a sent transaction
+ * 'unknown' when the RPC failed while polling, the transaction may still have landed
+ */
+export interface ConfirmationResult {
+  status: 'confirmed' | 'failed' | 'expired' | 'unknown';
+  error?: string;
+}
+
+const sumBalances = (balances: TokenBalance[] | null | undefined, owner: string, mint: string): number =>
+  (balances ?? [])
+    .filter((balance) => balance.owner === owner && balance.mint === mint)
+    .reduce((sum, balance) => sum + Number(balance.uiTokenAmount.amount), 0);
+
+/**
+ * Compute the raw amount of a mint a wallet received in a transaction
+ * Native SOL is read from the lamports of the fee payer, with the fee added back
+ */
+export const parseOutAmount = (
+  meta: ConfirmedTransactionMeta,
+  owner: PublicKey,
+  mint: string,
+  native: boolean
+): number => {
+  if (native && mint === NATIVE_MINT.toBase58()) {
+    // The wallet signs and pays the fee, so it is the first account
+    return meta.postBalances[0] - meta.preBalances[0] + meta.fee;
+  }
+
+  return (
+    sumBalances(meta.postTokenBalances, owner.toBase58(), mint) -
+    sumBalances(meta.preTokenBalances, owner.toBase58(), mint)
+  );
+};
+
+/**
+ * ConfirmationTracker follows sent swaps until they land or their blockhash expires
+ * The output actually received is parsed from the token balances of the
+ * transaction and written to the trade in the history and the trades table.
+ */
+export class ConfirmationTracker {
+  private rpcPool: RpcPool;
+  private owner: PublicKey;
+  private cache: BotCache;
+  private dbService: DatabaseService;
+  private pollInterval: number;
+
+  constructor(
+    rpcPool: RpcPool,
+    owner: PublicKey,
+    cache: BotCache,
+    dbService: DatabaseService,
+    pollInterval: number = DEFAULT_POLL_INTERVAL
+  ) {
+    this.rpcPool = rpcPool;
+    this.owner = owner;
+    this.cache = cache;
+    this.dbService = dbService;
+    this.pollInterval = pollInterval;
+  }
+
+  /**
+   * Poll the signature status until the transaction is confirmed, fails or expires
+   * RPC errors are retried, only a failed transaction is reported as failed
+   * @param txid Signature of the transaction
+   * @param lastValidBlockHeight Last block height of the transaction's blockhash
+   */
+  async confirm(txid: string, lastValidBlockHeight: number): Promise<ConfirmationResult> {
+    let errors = 0;
+
+    for (;;) {
+      try {
+        const result = await this.checkStatus(txid, lastValidBlockHeight);
+        if (result) {
+          return result;
+        }
+        errors = 0;
+      } catch (err) {
+        errors++;
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`Error polling transaction ${txid} (${errors}/${MAX_POLL_ERRORS}): ${message}`);
+
+        if (errors >= MAX_POLL_ERRORS) {
+          return { status: 'unknown', error: `Could not confirm transaction ${txid}: ${message}` };
+        }
+      }
+
+      await sleep(this.pollInterval);
+    }
+  }
+
+  /**
+   * Check the signature status once
+   * @returns The outcome of the transaction, null while it is pending
+   */
+  private async checkStatus(txid: string, lastValidBlockHeight: number): Promise<ConfirmationResult | null> {
+    const { value } = await this.rpcPool.execute((connection) => connection.getSignatureStatuses([txid]));
+    const status = value[0];
+
+    if (status?.err) {
+      return { status: 'failed', error: `Transaction failed: ${JSON.stringify(status.err)}` };
+    }
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      return { status: 'confirmed' };
+    }
+
+    const blockHeight = await this.rpcPool.execute((connection) => connection.getBlockHeight('confirmed'));
+    if (blockHeight <= lastValidBlockHeight) {
+      return null;
+    }
+
+    // The transaction may have landed right before the blockhash expired
+    const { value: final } = await this.rpcPool.execute((connection) =>
+      connection.getSignatureStatuses([txid], { searchTransactionHistory: true })
+    );
+    if (final[0] && !final[0].err) {
+      return { status: 'confirmed' };
+    }
+
+    return {
+      status: final[0]?.err ? 'failed' : 'expired',
+      error: final[0]?.err
+        ? `Transaction failed: ${JSON.stringify(final[0].err)}`
+        : `Blockhash expired at block height ${lastValidBlockHeight} before confirmation`,
+    };
+  }
+
+  /**
+   * Parse the output of a confirmed swap and update its trade entry
+   * The entry with the same txid in the history and the trades row are updated too
+   */
+  async updateResult(tradeEntry: TradeEntry, request: SwapRequest): Promise<void> {
+    const { txid } = tradeEntry;
+    if (!txid) {
+      return;
+    }
+
+    this.cache.fetchingResultsFromSolscan = true;
+    this.cache.fetchingResultsFromSolscanStart = performance.now();
+
+    try {
+      const meta = await this.fetchMeta(txid);
+      if (!meta) {
+        console.warn(`Transaction ${txid} not found, keeping the quoted output`);
+        return;
+      }
+
+      const { outputToken, expectedProfit } = request;
+      const outAmount = parseOutAmount(meta, this.owner, outputToken.address, this.cache.wrapUnwrapSOL);
+      const actualOutAmount = toDecimal(outAmount, outputToken.decimals);
+      const result = {
+        actualOutAmount,
+        actualProfit:
+          tradeEntry.expectedOutAmount > 0
+            ? ((1 + expectedProfit / 100) * (actualOutAmount / tradeEntry.expectedOutAmount) - 1) * 100
+            : undefined,
+      };
+
+      Object.assign(tradeEntry, result);
+      const recorded = this.cache.tradeHistory.find((trade) => trade.txid === txid);
+      if (recorded) {
+        Object.assign(recorded, result);
+      }
+      await this.dbService.updateTradeResult(txid, tradeEntry);
+    } catch (err) {
+      console.error(`Error parsing the result of transaction ${txid}:`, err);
+    } finally {
+      this.cache.fetchingResultsFromSolscan = false;
+    }
+  }
+
+  private async fetchMeta(txid: string): Promise<ConfirmedTransactionMeta | null> {
+    for (let attempt = 0; attempt < FETCH_ATTEMPTS; attempt++) {
+      const transaction = await this.rpcPool.execute((connection) =>
+        connection.getTransaction(txid, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 })
+      );
+      if (transaction?.meta) {
+        return transaction.meta;
+      }
+
+      await sleep(this.pollInterval);
+    }
+
+    return null;
+  }
+}
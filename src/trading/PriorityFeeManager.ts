@@ -0,0 +1,137 @@
+import { PublicKey } from '@solana/web3.js';
+import { RpcPool } from '../rpc/RpcPool';
+import { BotCache, PriorityFeeMode, RouteInfo } from '../types';
+
+/**
+ * Default compute unit price when no priority is configured (micro-lamports)
+ */
+const DEFAULT_PRIORITY = 100;
+
+const DEFAULT_PERCENTILE = 75;
+const DEFAULT_MAX_MICRO_LAMPORTS = 1000000;
+
+/**
+ * Compute units assumed when the swap response does not report the fee
+ */
+const DEFAULT_COMPUTE_UNITS = 200000;
+
+/**
+ * getRecentPrioritizationFees accepts at most 128 accounts
+ */
+const MAX_FEE_ACCOUNTS = 128;
+
+const MAX_DYNAMIC_MULTIPLIER = 5;
+
+/**
+ * PriorityFeeManager estimates the compute unit price attached to swaps
+ *
+ * - fixed: the configured priority
+ * - percentile: a percentile of recent prioritization fees for the route's accounts
+ * - dynamic: the percentile scaled up after failed swaps and back down after successful ones
+ *
+ * The price is always clamped to the configured max.
+ */
+export class PriorityFeeManager {
+  private rpcPool: RpcPool;
+  private cache: BotCache;
+  private multiplier = 1;
+
+  constructor(rpcPool: RpcPool, cache: BotCache) {
+    this.rpcPool = rpcPool;
+    this.cache = cache;
+  }
+
+  /**
+   * Get the compute unit price in micro-lamports for a route
+   */
+  async getComputeUnitPrice(route: RouteInfo): Promise<number> {
+    const mode = this.getMode();
+    let price = this.getFixedPriority();
+
+    if (mode !== 'fixed') {
+      try {
+        price = await this.getPercentileFee(route);
+        if (mode === 'dynamic') {
+          price = Math.ceil(price * this.multiplier);
+        }
+      } catch (err) {
+        console.warn('Failed to estimate priority fee, using configured priority:', err);
+      }
+    }
+
+    const computeUnitPrice = Math.min(price, this.getMaxMicroLamports());
+    this.cache.priority = computeUnitPrice;
+
+    return computeUnitPrice;
+  }
+
+  /**
+   * Estimate the priority fee paid in lamports for a compute unit price
+   */
+  estimateFeeLamports(computeUnitPrice: number, computeUnits: number = DEFAULT_COMPUTE_UNITS): number {
+    return Math.ceil((computeUnitPrice * computeUnits) / 1000000);
+  }
+
+  /**
+   * Feed back the result of a swap, used by the dynamic mode
+   */
+  recordResult(success: boolean): void {
+    if (this.getMode() !== 'dynamic') {
+      return;
+    }
+
+    this.multiplier = success
+      ? Math.max(1, this.multiplier * 0.9)
+      : Math.min(MAX_DYNAMIC_MULTIPLIER, this.multiplier * 1.5);
+  }
+
+  /**
+   * Get a percentile of the recent prioritization fees for the accounts a route touches
+   */
+  private async getPercentileFee(route: RouteInfo): Promise<number> {
+    const accounts = this.getRouteAccounts(route);
+    const fees = await this.rpcPool.execute((connection) =>
+      connection.getRecentPrioritizationFees({ lockedWritableAccounts: accounts })
+    );
+
+    if (fees.length === 0) {
+      return this.getFixedPriority();
+    }
+
+    const values = fees.map((fee) => fee.prioritizationFee).sort((a, b) => a - b);
+    const percentile = this.cache.config.priorityFee?.percentile ?? DEFAULT_PERCENTILE;
+    const index = Math.min(values.length - 1, Math.floor((percentile / 100) * values.length));
+
+    return values[index];
+  }
+
+  /**
+   * Collect the AMM and mint accounts of a route
+   */
+  private getRouteAccounts(route: RouteInfo): PublicKey[] {
+    const addresses = new Set<string>([route.inputMint, route.outputMint]);
+
+    for (const step of route.routePlan) {
+      addresses.add(step.swapInfo.ammKey);
+      addresses.add(step.swapInfo.inputMint);
+      addresses.add(step.swapInfo.outputMint);
+    }
+
+    return Array.from(addresses)
+      .slice(0, MAX_FEE_ACCOUNTS)
+      .map((address) => new PublicKey(address));
+  }
+
+  private getMode(): PriorityFeeMode {
+    return this.cache.config.priorityFee?.mode ?? 'fixed';
+  }
+
+  private getFixedPriority(): number {
+    const { priority } = this.cache.config;
+    return typeof priority === 'number' ? priority : DEFAULT_PRIORITY;
+  }
+
+  private getMaxMicroLamports(): number {
+    return this.cache.config.priorityFee?.maxMicroLamports ?? DEFAULT_MAX_MICRO_LAMPORTS;
+  }
+}
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import { EventEmitter } from '../core/EventEmitter';
+import {
+  BotCache,
+  BotEvents,
+  Clock,
+  RiskConfig,
+  RiskRule,
+  RouteInfo,
+  SwapRequest,
+  TradeEntry,
+  TradingConfig,
+} from '../types';
+import { toDecimal } from '../utils';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Current exposure of an instance to the risk limits
+ */
+export interface RiskStatus {
+  killed: boolean;
+  // Why trading was disabled, missing while trading is allowed
+  reason?: string;
+  tradesLastHour: number;
+  // Loss since the start of the UTC day (tokenA token units)
+  dailyLoss: number;
+  // Drop from the highest value of the position (%)
+  drawdown: number;
+}
+
+/**
+ * RiskManager checks every trade against the risk limits of the config
+ * Oversized trades and trades above the hourly limit are refused. A breached
+ * daily loss or drawdown limit and the kill switch also disable trading, with
+ * the reason kept in cache.tradingDisabledReason. The position is valued in
+ * tokenA from both sides of cache.currentBalance, tokenB at the price of the
+ * last quote between the two tokens.
+ */
+export class RiskManager {
+  private limits: RiskConfig;
+  private cache: BotCache;
+  private events: EventEmitter<BotEvents>;
+  private clock: Clock;
+  private killed = false;
+  private tradeTimes: number[] = [];
+  // Highest value of the position (raw tokenA)
+  private peakValue = 0;
+  private day = '';
+  private dayStartValue = 0;
+  // tokenA per tokenB (raw) of the last quote between the two tokens
+  private tokenBPrice: number | null = null;
+
+  constructor(config: TradingConfig, cache: BotCache, events: EventEmitter<BotEvents>, clock?: Clock) {
+    this.limits = config.risk ?? {};
+    this.cache = cache;
+    this.events = events;
+    this.clock = clock ?? { now: () => Date.now() };
+
+    events.on('route:computed', ({ routes }) => {
+      for (const route of routes) {
+        this.updatePrice(route);
+      }
+    });
+  }
+
+  /**
+   * Check a trade against the limits
+   * @returns Why the trade is refused, null when it may go ahead
+   */
+  checkTrade(request: SwapRequest): string | null {
+    const { maxPositionSize, maxTradesPerHour, killSwitchFile } = this.limits;
+
+    if (killSwitchFile && !this.killed && fs.existsSync(killSwitchFile)) {
+      this.kill(`kill switch file ${killSwitchFile} found`);
+    }
+    if (this.killed) {
+      return this.cache.tradingDisabledReason ?? 'kill switch';
+    }
+
+    const breach = this.checkLosses();
+    if (breach) {
+      return breach;
+    }
+
+    const size = this.getTradeValue(request);
+    if (maxPositionSize !== undefined && size !== null && size > maxPositionSize) {
+      return this.refuse('positionSize', `trade of ${size} ${this.cache.config.tokens.tokenA.symbol} above the max position size of ${maxPositionSize}`);
+    }
+
+    if (maxTradesPerHour !== undefined && this.countRecentTrades() >= maxTradesPerHour) {
+      return this.refuse('tradesPerHour', `${maxTradesPerHour} trades in the last hour`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Count a submitted trade and check the loss limits with its result
+   */
+  recordTrade(trade: TradeEntry): void {
+    if (trade.txStatus === 'vetoed') {
+      return;
+    }
+
+    this.tradeTimes.push(this.clock.now());
+    this.checkLosses();
+  }
+
+  /**
+   * Stop trading until resume is called
+   */
+  kill(reason = 'manual kill switch'): void {
+    this.killed = true;
+    this.disableTrading('killSwitch', reason);
+  }
+
+  /**
+   * Lift the kill switch and enable trading again
+   * The drawdown is measured from the current value again, a daily loss
+   * limit still breached disables trading again on the next trade
+   */
+  resume(): void {
+    const { killSwitchFile } = this.limits;
+    if (killSwitchFile && fs.existsSync(killSwitchFile)) {
+      console.warn(`Kill switch file ${killSwitchFile} still exists, remove it to resume trading`);
+      return;
+    }
+
+    this.killed = false;
+    this.peakValue = 0;
+    this.updateValue();
+    this.cache.tradingDisabledReason = undefined;
+    this.cache.tradingEnabled = true;
+    console.log('Risk manager: trading resumed');
+  }
+
+  getStatus(): RiskStatus {
+    const value = this.updateValue();
+    const decimals = this.cache.config.tokens.tokenA.decimals;
+
+    return {
+      killed: this.killed,
+      reason: this.cache.tradingDisabledReason,
+      tradesLastHour: this.countRecentTrades(),
+      dailyLoss: toDecimal(Math.max(this.dayStartValue - value, 0), decimals),
+      drawdown: this.peakValue > 0 ? ((this.peakValue - value) / this.peakValue) * 100 : 0,
+    };
+  }
+
+  /**
+   * Disable trading when the daily loss or drawdown limit is breached
+   * @returns The breach, null when both limits hold
+   */
+  private checkLosses(): string | null {
+    const { maxDailyLoss, maxDrawdown } = this.limits;
+    const { dailyLoss, drawdown } = this.getStatus();
+    const { symbol } = this.cache.config.tokens.tokenA;
+
+    if (maxDailyLoss !== undefined && dailyLoss > maxDailyLoss) {
+      return this.disableTrading('dailyLoss', `daily loss of ${dailyLoss} ${symbol} above the limit of ${maxDailyLoss}`);
+    }
+
+    if (maxDrawdown !== undefined && drawdown > maxDrawdown) {
+      return this.disableTrading('drawdown', `drawdown of ${drawdown.toFixed(2)}% above the limit of ${maxDrawdown}%`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Track the value of the position, its peak and its value at the start of the day
+   */
+  private updateValue(): number {
+    const { currentBalance } = this.cache;
+    const value = currentBalance.tokenA + currentBalance.tokenB * this.getTokenBPrice();
+    const day = new Date(this.clock.now()).toISOString().slice(0, 10);
+
+    if (day !== this.day) {
+      this.day = day;
+      this.dayStartValue = value;
+    }
+    this.peakValue = Math.max(this.peakValue, value);
+
+    return value;
+  }
+
+  /**
+   * Price tokenB from a quote between tokenA and tokenB, other routes are ignored
+   */
+  private updatePrice(route: RouteInfo): void {
+    const { tokenA, tokenB } = this.cache.config.tokens;
+    const amount = Number(route.amount.toString());
+    const outAmount = Number(route.outAmount.toString());
+    if (amount <= 0 || outAmount <= 0) {
+      return;
+    }
+
+    if (route.inputMint === tokenA.address && route.outputMint === tokenB.address) {
+      this.tokenBPrice = amount / outAmount;
+    } else if (route.inputMint === tokenB.address && route.outputMint === tokenA.address) {
+      this.tokenBPrice = outAmount / amount;
+    }
+  }
+
+  /**
+   * Get the tokenA per tokenB price (raw), the initial position gives it until a quote is seen
+   */
+  private getTokenBPrice(): number {
+    if (this.tokenBPrice !== null) {
+      return this.tokenBPrice;
+    }
+
+    const { initialBalance } = this.cache;
+    return initialBalance.tokenB > 0 ? initialBalance.tokenA / initialBalance.tokenB : 0;
+  }
+
+  /**
+   * Value of a trade in tokenA (token units), null when tokenA is neither traded nor received
+   */
+  private getTradeValue(request: SwapRequest): number | null {
+    const { tokenA } = this.cache.config.tokens;
+
+    if (request.inputToken.address === tokenA.address) {
+      return toDecimal(request.route.amount.toString(), tokenA.decimals);
+    }
+    if (request.outputToken.address === tokenA.address) {
+      return toDecimal(request.route.outAmount.toString(), tokenA.decimals);
+    }
+
+    return null;
+  }
+
+  private countRecentTrades(): number {
+    const since = this.clock.now() - HOUR;
+    this.tradeTimes = this.tradeTimes.filter((time) => time > since);
+    return this.tradeTimes.length;
+  }
+
+  private refuse(rule: RiskRule, reason: string): string {
+    console.warn(`Risk manager: trade refused, ${reason}`);
+    this.events.emit('risk:breached', { rule, reason });
+    return reason;
+  }
+
+  private disableTrading(rule: RiskRule, reason: string): string {
+    if (this.cache.tradingEnabled || this.cache.tradingDisabledReason !== reason) {
+      console.warn(`Risk manager: trading disabled, ${reason}`);
+      this.events.emit('risk:breached', { rule, reason });
+    }
+
+    this.cache.tradingEnabled = false;
+    this.cache.tradingDisabledReason = reason;
+    return reason;
+  }
+}
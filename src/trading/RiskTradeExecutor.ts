@@ -0,0 +1,37 @@
+import { SwapRequest, TradeEntry, TradeExecutor } from '../types';
+import { createTradeEntry } from '../utils';
+import { RiskManager } from './RiskManager';
+
+/**
+ * RiskTradeExecutor asks the risk manager before every swap
+ * Refused trades are returned with the 'vetoed' status without being executed
+ */
+export class RiskTradeExecutor implements TradeExecutor {
+  private executor: TradeExecutor;
+  private riskManager: RiskManager;
+
+  constructor(executor: TradeExecutor, riskManager: RiskManager) {
+    this.executor = executor;
+    this.riskManager = riskManager;
+  }
+
+  /**
+   * Execute a swap unless a risk limit refuses it
+   * @param request The route and trade details
+   * @returns The trade entry from the wrapped executor, or the vetoed entry
+   */
+  async executeSwap(request: SwapRequest): Promise<TradeEntry> {
+    const reason = this.riskManager.checkTrade(request);
+
+    if (reason) {
+      const tradeEntry = createTradeEntry(request);
+      tradeEntry.txStatus = 'vetoed';
+      tradeEntry.error = `Vetoed by risk manager: ${reason}`;
+      return tradeEntry;
+    }
+
+    const trade = await this.executor.executeSwap(request);
+    this.riskManager.recordTrade(trade);
+    return trade;
+  }
+}
@@ -0,0 +1,123 @@
+import { SlippageProvider, TradeEntry, TradingConfig } from '../types';
+
+/**
+ * Number of recent fills used to decide on adjustments
+ */
+const WINDOW_SIZE = 10;
+
+/**
+ * Minimum number of clean fills before slippage is tightened
+ */
+const MIN_SAMPLES = 3;
+
+const TIGHTEN_FACTOR = 0.9;
+const WIDEN_FACTOR = 1.25;
+
+/**
+ * Check if a trade failed because the slippage tolerance was exceeded
+ */
+export const isSlippageFailure = (trade: TradeEntry): boolean =>
+  trade.txStatus === 'failed' &&
+  !!trade.error &&
+  /slippage|0x1771|6001/i.test(trade.error);
+
+/**
+ * SlippageController adjusts the slippage used for route computation from realized fills
+ * Slippage is tightened while recent fills stay well within the tolerance and
+ * widened after fills close to the tolerance or slippage exceeded failures.
+ * When adaptive slippage is disabled the configured slippage is used as is.
+ */
+export class SlippageController implements SlippageProvider {
+  private config: TradingConfig;
+  private current: number;
+  private recentSlippage: number[] = [];
+
+  constructor(config: TradingConfig) {
+    this.config = config;
+    this.current = this.clamp(this.getConfiguredSlippage());
+  }
+
+  /**
+   * Get the slippage in BPS to use for the next route computation
+   */
+  getSlippageBps(): number {
+    return this.isEnabled() ? this.current : this.getConfiguredSlippage();
+  }
+
+  /**
+   * Update the slippage from the result of a trade
+   */
+  recordTrade(trade: TradeEntry): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    if (isSlippageFailure(trade)) {
+      this.recentSlippage = [];
+      this.setSlippage(Math.ceil(this.current * WIDEN_FACTOR));
+      return;
+    }
+
+    if (trade.txStatus !== 'confirmed' || trade.actualOutAmount === undefined || trade.expectedOutAmount <= 0) {
+      return;
+    }
+
+    // Realized slippage in BPS, fills better than expected count as zero
+    const realized = Math.max(
+      0,
+      ((trade.expectedOutAmount - trade.actualOutAmount) / trade.expectedOutAmount) * 10000
+    );
+
+    this.recentSlippage.push(realized);
+    if (this.recentSlippage.length > WINDOW_SIZE) {
+      this.recentSlippage.shift();
+    }
+
+    const worst = Math.max(...this.recentSlippage);
+    if (worst > this.current * 0.8) {
+      this.setSlippage(Math.ceil(this.current * WIDEN_FACTOR));
+    } else if (this.recentSlippage.length >= MIN_SAMPLES && worst < this.current * 0.5) {
+      this.setSlippage(Math.floor(this.current * TIGHTEN_FACTOR));
+    }
+  }
+
+  /**
+   * Start over from the configured slippage, after it was changed
+   */
+  reset(): void {
+    this.recentSlippage = [];
+    this.current = this.clamp(this.getConfiguredSlippage());
+  }
+
+  /**
+   * Get the configured bounds, defaulting to half and three times the configured slippage
+   */
+  getBounds(): { min: number; max: number } {
+    const slippage = this.getConfiguredSlippage();
+    return this.config.slippageBounds ?? {
+      min: Math.max(1, Math.floor(slippage / 2)),
+      max: slippage * 3,
+    };
+  }
+
+  private isEnabled(): boolean {
+    return !!this.config.adaptiveSlippage;
+  }
+
+  private getConfiguredSlippage(): number {
+    return typeof this.config.slippage === 'number' ? this.config.slippage : 1;
+  }
+
+  private setSlippage(value: number): void {
+    const next = this.clamp(value);
+    if (next !== this.current) {
+      console.log(`Adaptive slippage: ${this.current} -> ${next} BPS`);
+      this.current = next;
+    }
+  }
+
+  private clamp(value: number): number {
+    const { min, max } = this.getBounds();
+    return Math.min(max, Math.max(min, value));
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  TOKEN_ACCOUNT_SIZE,
+  TOKEN_PROGRAM_ID,
+} from '../constants/solana';
+import { ConfigError, InsufficientBalanceError } from '../errors';
+import { RpcPool } from '../rpc/RpcPool';
+import { BotCache, SwapRequest, Token, TradingConfig } from '../types';
+import { toDecimal } from '../utils';
+
+/**
+ * SOL kept in the wallet for fees and rent when no reserve is configured
+ */
+const DEFAULT_SOL_RESERVE = 0.05;
+
+/**
+ * Get the configured SOL reserve in lamports
+ */
+export const getSolReserveLamports = (config: TradingConfig): number =>
+  Math.round((config.solReserve ?? DEFAULT_SOL_RESERVE) * LAMPORTS_PER_SOL);
+
+/**
+ * Derive the associated token account of an owner for a mint
+ */
+export const getAssociatedTokenAddress = (
+  mint: PublicKey,
+  owner: PublicKey,
+  programId: PublicKey = TOKEN_PROGRAM_ID
+): PublicKey =>
+  PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), programId.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  )[0];
+
+/**
+ * Build the instruction creating an associated token account, a no-op if it already exists
+ */
+const createAssociatedTokenAccountIdempotentInstruction = (
+  payer: PublicKey,
+  account: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey,
+  programId: PublicKey
+): TransactionInstruction =>
+  new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: programId, isSigner: false, isWritable: false },
+    ],
+    // 1 = CreateIdempotent
+    data: Buffer.from([1]),
+  });
+
+/**
+ * TokenAccountManager prepares the wallet's token accounts before trading
+ *
+ * Missing associated token accounts for tokenA/tokenB are created up front.
+ * When SOL wrapping is enabled the swap transaction wraps and unwraps native SOL
+ * itself, so no wrapped SOL account is kept. A SOL reserve is always left in
+ * the wallet for fees and rent.
+ */
+export class TokenAccountManager {
+  private rpcPool: RpcPool;
+  private wallet: Keypair;
+  private cache: BotCache;
+
+  constructor(rpcPool: RpcPool, wallet: Keypair, cache: BotCache) {
+    this.rpcPool = rpcPool;
+    this.wallet = wallet;
+    this.cache = cache;
+  }
+
+  /**
+   * Create the missing associated token accounts for the traded tokens
+   */
+  async ensureTokenAccounts(): Promise<void> {
+    const owner = this.wallet.publicKey;
+    const mints = this.getRequiredMints();
+    if (mints.length === 0) {
+      return;
+    }
+
+    // The mint owner tells whether the token uses the token or token-2022 program
+    const mintInfos = await this.rpcPool.execute((connection) =>
+      connection.getMultipleAccountsInfo(mints)
+    );
+    const accounts = mints.map((mint, index) => {
+      const info = mintInfos[index];
+      if (!info) {
+        throw new ConfigError(`Mint account not found: ${mint.toBase58()}`);
+      }
+      return { mint, programId: info.owner, address: getAssociatedTokenAddress(mint, owner, info.owner) };
+    });
+
+    const existing = await this.rpcPool.execute((connection) =>
+      connection.getMultipleAccountsInfo(accounts.map((account) => account.address))
+    );
+    const missing = accounts.filter((_, index) => !existing[index]);
+    if (missing.length === 0) {
+      console.log('Token accounts ready');
+      return;
+    }
+
+    const [rentPerAccount, balance, { blockhash, lastValidBlockHeight }] = await Promise.all([
+      this.rpcPool.execute((connection) =>
+        connection.getMinimumBalanceForRentExemption(TOKEN_ACCOUNT_SIZE)
+      ),
+      this.rpcPool.execute((connection) => connection.getBalance(owner)),
+      this.rpcPool.execute((connection) => connection.getLatestBlockhash('confirmed')),
+    ]);
+
+    const transaction = new Transaction({ feePayer: owner, blockhash, lastValidBlockHeight }).add(
+      ...missing.map((account) =>
+        createAssociatedTokenAccountIdempotentInstruction(
+          owner,
+          account.address,
+          owner,
+          account.mint,
+          account.programId
+        )
+      )
+    );
+
+    const { value: fee } = await this.rpcPool.execute((connection) =>
+      connection.getFeeForMessage(transaction.compileMessage(), 'confirmed')
+    );
+    const rent = rentPerAccount * missing.length;
+    const required = rent + (fee ?? 0) + getSolReserveLamports(this.cache.config);
+
+    if (balance < required) {
+      throw new InsufficientBalanceError(
+        `Insufficient SOL to create token accounts: ${toDecimal(balance, 9)} < ${toDecimal(required, 9)} SOL (including reserve)`
+      );
+    }
+
+    transaction.sign(this.wallet);
+    const signature = await this.rpcPool.execute((connection) =>
+      connection.sendRawTransaction(transaction.serialize())
+    );
+    const confirmation = await this.rpcPool.execute((connection) =>
+      connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed')
+    );
+
+    if (confirmation.value.err) {
+      throw new Error(`Token account creation failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+
+    this.cache.tokenAccounts.created.push(...missing.map((account) => account.address.toBase58()));
+    this.cache.tokenAccounts.rentLamports += rent;
+    this.cache.tokenAccounts.feeLamports += fee ?? 0;
+
+    console.log(
+      `Created ${missing.length} token account(s): ${toDecimal(rent, 9)} SOL rent, ${toDecimal(fee ?? 0, 9)} SOL fees`
+    );
+  }
+
+  /**
+   * Check the wallet still holds the SOL reserve after a swap
+   * Native SOL sold by the swap comes out of the SOL balance when wrapping is enabled
+   */
+  hasSolReserve(request: SwapRequest): boolean {
+    let sol = this.cache.walletBalance.sol;
+
+    if (this.isWrappedBySwap(request.inputToken)) {
+      sol -= Number(request.route.amount.toString());
+    }
+
+    return sol >= getSolReserveLamports(this.cache.config);
+  }
+
+  /**
+   * Mints that need an associated token account for trading
+   */
+  private getRequiredMints(): PublicKey[] {
+    const { tokenA, tokenB } = this.cache.config.tokens;
+
+    return [tokenA, tokenB]
+      .filter((token) => !this.isWrappedBySwap(token))
+      .map((token) => new PublicKey(token.address));
+  }
+
+  private isWrappedBySwap(token: Token): boolean {
+    return this.cache.wrapUnwrapSOL && token.address === NATIVE_MINT.toBase58();
+  }
+}
@@ -0,0 +1,47 @@
+import { InsufficientBalanceError } from '../../errors';
+import { BalanceBudget } from '../BalanceBudget';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL = 'So11111111111111111111111111111111111111112';
+
+describe('BalanceBudget', () => {
+  it('shares the wallet balance between the instances', () => {
+    const budget = new BalanceBudget();
+
+    budget.reserve('a', USDC, 60e6, 100e6, 6);
+    budget.reserve('b', USDC, 40e6, 100e6, 6);
+    budget.reserve('b', SOL, 1e9, 2e9, 9);
+
+    expect(budget.getReserved(USDC)).toBe(100e6);
+    expect(budget.getReserved(SOL)).toBe(1e9);
+    expect(() => budget.reserve('c', USDC, 1, 100e6, 6)).toThrow(InsufficientBalanceError);
+  });
+
+  it('replaces the previous reservation of an instance', () => {
+    const budget = new BalanceBudget();
+    budget.reserve('a', USDC, 60e6, 100e6, 6);
+
+    budget.reserve('a', USDC, 100e6, 100e6, 6);
+
+    expect(budget.getReserved(USDC)).toBe(100e6);
+  });
+
+  it('caps the total reserved by the limit of the mint', () => {
+    const budget = new BalanceBudget({ [USDC]: 50 });
+    budget.reserve('a', USDC, 30e6, 100e6, 6);
+
+    expect(() => budget.reserve('b', USDC, 30e6, 100e6, 6)).toThrow(
+      `Instance b needs 30000000 of ${USDC}, only 20000000 left in the budget`
+    );
+  });
+
+  it('frees the reservations of a released instance', () => {
+    const budget = new BalanceBudget();
+    budget.reserve('a', USDC, 100e6, 100e6, 6);
+
+    budget.release('a');
+
+    expect(budget.getReserved(USDC)).toBe(0);
+    expect(() => budget.reserve('b', USDC, 100e6, 100e6, 6)).not.toThrow();
+  });
+});
@@ -0,0 +1,127 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { InsufficientBalanceError } from '../../errors';
+import { RpcPool } from '../../rpc/RpcPool';
+import { BotCache, BotEvents, QuoteProvider, Token, TradingConfig } from '../../types';
+import { getTradeSize } from '../../utils';
+import { BalanceService, getPositionSize } from '../BalanceService';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+const createBalanceCache = (tradeSize: TradingConfig['tradeSize']) =>
+  createCache({ tokens: { tokenA: USDC, tokenB: SOL }, tradeSize, slippage: 50, solReserve: 0.05 } as TradingConfig);
+
+describe('getPositionSize', () => {
+  it('takes the fixed trade size', () => {
+    const cache = createBalanceCache({ strategy: 'fixed', value: 100 });
+    cache.walletBalance.tokenA = 1000e6;
+
+    expect(getPositionSize(cache)).toBe(100e6);
+  });
+
+  it('takes a percentage of the wallet balance', () => {
+    const cache = createBalanceCache({ strategy: 'percentage', value: 25 });
+    cache.walletBalance.tokenA = 1000e6 + 1;
+
+    expect(getPositionSize(cache)).toBe(250e6);
+  });
+
+  it('refuses a position the wallet cannot cover', () => {
+    const cache = createBalanceCache({ strategy: 'fixed', value: 100 });
+    cache.walletBalance.tokenA = 50e6;
+
+    expect(() => getPositionSize(cache)).toThrow(InsufficientBalanceError);
+  });
+});
+
+describe('getTradeSize', () => {
+  it('trades the percentage of the current wallet balance of a side', () => {
+    const cache = createBalanceCache({ strategy: 'percentage', value: 50 });
+    cache.walletBalance = { sol: 0, tokenA: 400e6, tokenB: 3e9 };
+
+    expect(getTradeSize(cache, 'tokenA')).toBe(200e6);
+    expect(getTradeSize(cache, 'tokenB')).toBe(1.5e9);
+  });
+
+  it('never trades more than the wallet holds', () => {
+    const cache = createBalanceCache({ strategy: 'cumulative', value: 100 });
+    cache.currentBalance.tokenA = 120e6;
+    cache.walletBalance.tokenA = 110e6;
+
+    expect(getTradeSize(cache, 'tokenA')).toBe(110e6);
+  });
+});
+
+describe('BalanceService', () => {
+  const owner = Keypair.generate().publicKey;
+  let cache: BotCache;
+  let events: EventEmitter<BotEvents>;
+  let connection: { getBalance: jest.Mock; getParsedTokenAccountsByOwner: jest.Mock };
+  let service: BalanceService;
+
+  const tokenAccount = (amount: number) => ({
+    account: { data: { parsed: { info: { tokenAmount: { amount: String(amount) } } } } },
+  });
+
+  beforeEach(() => {
+    cache = createBalanceCache({ strategy: 'percentage', value: 50 });
+    cache.wrapUnwrapSOL = true;
+    events = new EventEmitter<BotEvents>();
+    connection = {
+      getBalance: jest.fn().mockResolvedValue(2e9),
+      // USDC held in two accounts
+      getParsedTokenAccountsByOwner: jest.fn().mockResolvedValue({ value: [tokenAccount(150e6), tokenAccount(50e6)] }),
+    };
+    const rpcPool = {
+      execute: <T>(request: (connection: Connection) => Promise<T>) => request(connection as unknown as Connection),
+    } as unknown as RpcPool;
+    service = new BalanceService(rpcPool, owner, cache, events);
+  });
+
+  it('loads the SOL and token balances, native SOL without the reserve', async () => {
+    const changed = jest.fn();
+    events.on('balance:changed', changed);
+
+    await service.refresh();
+
+    expect(cache.walletBalance).toEqual({ sol: 2e9, tokenA: 200e6, tokenB: 1.95e9 });
+    expect(connection.getParsedTokenAccountsByOwner).toHaveBeenCalledWith(owner, { mint: new PublicKey(USDC.address) });
+    expect(changed).toHaveBeenCalledWith({
+      previous: { sol: 0, tokenA: 0, tokenB: 0 },
+      current: { sol: 2e9, tokenA: 200e6, tokenB: 1.95e9 },
+    });
+  });
+
+  it('reports balance changes only when a balance moved', async () => {
+    const changed = jest.fn();
+    await service.refresh();
+    events.on('balance:changed', changed);
+
+    await service.refresh();
+
+    expect(changed).not.toHaveBeenCalled();
+  });
+
+  it('reads wrapped SOL from its token accounts when SOL is not unwrapped', async () => {
+    cache.wrapUnwrapSOL = false;
+    connection.getParsedTokenAccountsByOwner.mockResolvedValue({ value: [tokenAccount(1e9)] });
+
+    expect(await service.getTokenBalance(SOL)).toBe(1e9);
+  });
+
+  it('sizes the position from the wallet and values it in tokenB', async () => {
+    // 100 USDC for 1 SOL
+    const quoteProvider = {
+      getQuote: jest.fn(async ({ amount }) => ({ outAmount: JSBI.multiply(amount, JSBI.BigInt(10)) })),
+    } as unknown as QuoteProvider;
+
+    await service.initialize(quoteProvider);
+
+    expect(cache.initialBalance).toEqual({ tokenA: 100e6, tokenB: 1e9 });
+    expect(cache.currentBalance.tokenA).toBe(100e6);
+    expect(cache.lastBalance).toEqual({ tokenA: 100e6, tokenB: 1e9 });
+  });
+});
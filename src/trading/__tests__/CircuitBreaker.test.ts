@@ -0,0 +1,128 @@
+import { SimulatedClock } from '../../backtest/SimulatedClock';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import { NoRoutesError } from '../../errors';
+import { BotCache, BotEvents, TradeEntry, TradingConfig } from '../../types';
+import { CircuitBreaker } from '../CircuitBreaker';
+
+const createTrade = (fields: Partial<TradeEntry> = {}) => ({ txStatus: 'confirmed', ...fields }) as TradeEntry;
+
+const failed = () => createTrade({ txStatus: 'failed', error: 'Transaction failed' });
+
+describe('CircuitBreaker', () => {
+  let cache: BotCache;
+  let events: EventEmitter<BotEvents>;
+  let clock: SimulatedClock;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const config = {
+      circuitBreaker: { maxConsecutiveFailures: 3, maxErrors: 5, errorWindow: 60, cooldown: 300 },
+    } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+    events = new EventEmitter<BotEvents>();
+    clock = new SimulatedClock(1_700_000_000_000);
+    breaker = new CircuitBreaker(config, cache, events, clock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens after a run of failed swaps', () => {
+    const changes: string[] = [];
+    events.on('circuit:changed', ({ state }) => {
+      changes.push(state);
+    });
+
+    breaker.recordTrade(failed());
+    breaker.recordTrade(failed());
+    expect(breaker.allowTrade()).toBeNull();
+
+    breaker.recordTrade(failed());
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowTrade()).toMatch(/3 failed swaps in a row/);
+    expect(changes).toEqual(['open']);
+  });
+
+  it('resets the run of failures on a confirmed swap', () => {
+    breaker.recordTrade(failed());
+    breaker.recordTrade(failed());
+    breaker.recordTrade(createTrade());
+    breaker.recordTrade(failed());
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens after a burst of errors within the window', () => {
+    breaker.recordError();
+    clock.advance(61_000);
+
+    // The first error is out of the window
+    for (let i = 0; i < 4; i++) {
+      breaker.recordError();
+      clock.advance(10_000);
+    }
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordError();
+    expect(breaker.getState()).toBe('open');
+    expect(cache.tradeCounter.errorcount).toBe(6);
+  });
+
+  it('counts failed iterations but not missing routes', () => {
+    for (let i = 0; i < 5; i++) {
+      events.emit('iteration:failed', { strategy: 'pingpong', error: new NoRoutesError(), action: 'skip' });
+    }
+    expect(breaker.getState()).toBe('closed');
+
+    for (let i = 0; i < 5; i++) {
+      events.emit('iteration:failed', { strategy: 'pingpong', error: new Error('boom'), action: 'skip' });
+    }
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('lets a single probe trade through after the cooldown', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordTrade(failed());
+    }
+
+    clock.advance(299_000);
+    expect(breaker.getState()).toBe('open');
+
+    clock.advance(1_000);
+    expect(breaker.allowTrade()).toBeNull();
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.allowTrade()).toMatch(/waiting for the probe trade/);
+
+    breaker.recordTrade(createTrade());
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('opens again when the probe trade fails', () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordTrade(failed());
+    }
+    clock.advance(300_000);
+
+    expect(breaker.allowTrade()).toBeNull();
+    breaker.recordTrade(failed());
+
+    expect(breaker.getState()).toBe('open');
+    expect(cache.circuitBreaker.reason).toMatch(/probe trade failed/);
+    expect(cache.circuitBreaker.openedAt).toBe(clock.now());
+  });
+
+  it('ignores vetoed trades', () => {
+    for (let i = 0; i < 5; i++) {
+      breaker.recordTrade(createTrade({ txStatus: 'vetoed' }));
+    }
+
+    expect(breaker.getState()).toBe('closed');
+    expect(cache.tradeCounter.errorcount).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { ConfirmedTransactionMeta, Connection, Keypair } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { DatabaseService } from '../../database/DatabaseService';
+import { RpcPool } from '../../rpc/RpcPool';
+import { BotCache, RouteInfo, SwapRequest, Token, TradeEntry, TradingConfig } from '../../types';
+import { ConfirmationTracker, parseOutAmount } from '../ConfirmationTracker';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+const owner = Keypair.generate().publicKey;
+
+const tokenBalance = (mint: string, amount: number, balanceOwner = owner.toBase58()) => ({
+  accountIndex: 1,
+  mint,
+  owner: balanceOwner,
+  uiTokenAmount: { amount: String(amount), decimals: 6, uiAmount: null },
+});
+
+const createMeta = (fields: Partial<ConfirmedTransactionMeta>) =>
+  ({ err: null, fee: 5000, preBalances: [], postBalances: [], ...fields }) as ConfirmedTransactionMeta;
+
+describe('parseOutAmount', () => {
+  it('sums the token balance changes of the wallet', () => {
+    const meta = createMeta({
+      preTokenBalances: [tokenBalance(USDC.address, 10e6)],
+      postTokenBalances: [
+        tokenBalance(USDC.address, 60e6),
+        tokenBalance(USDC.address, 5e6),
+        tokenBalance(USDC.address, 1e9, Keypair.generate().publicKey.toBase58()),
+      ],
+    });
+
+    expect(parseOutAmount(meta, owner, USDC.address, false)).toBe(55e6);
+  });
+
+  it('reads native SOL from the lamports of the fee payer', () => {
+    const meta = createMeta({ preBalances: [1e9], postBalances: [2e9 - 5000] });
+
+    expect(parseOutAmount(meta, owner, SOL.address, true)).toBe(1e9);
+    expect(parseOutAmount(meta, owner, SOL.address, false)).toBe(0);
+  });
+});
+
+describe('ConfirmationTracker', () => {
+  let cache: BotCache;
+  let connection: Record<string, jest.Mock>;
+  let dbService: { updateTradeResult: jest.Mock };
+  let tracker: ConfirmationTracker;
+
+  const status = (fields: Record<string, unknown> | null) => ({ value: [fields] });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    cache = createCache({ tokens: { tokenA: USDC, tokenB: SOL } } as TradingConfig);
+    connection = {
+      getSignatureStatuses: jest.fn().mockResolvedValue(status(null)),
+      getBlockHeight: jest.fn().mockResolvedValue(100),
+      getTransaction: jest.fn().mockResolvedValue(null),
+    };
+    dbService = { updateTradeResult: jest.fn(async () => undefined) };
+    const rpcPool = {
+      execute: <T>(request: (connection: Connection) => Promise<T>) => request(connection as unknown as Connection),
+    } as unknown as RpcPool;
+    tracker = new ConfirmationTracker(rpcPool, owner, cache, dbService as unknown as DatabaseService, 0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('confirm', () => {
+    it('polls until the transaction is confirmed', async () => {
+      connection.getSignatureStatuses
+        .mockResolvedValueOnce(status(null))
+        .mockResolvedValueOnce(status({ confirmationStatus: 'processed', err: null }))
+        .mockResolvedValueOnce(status({ confirmationStatus: 'confirmed', err: null }));
+
+      expect(await tracker.confirm('tx', 150)).toEqual({ status: 'confirmed' });
+      expect(connection.getSignatureStatuses).toHaveBeenCalledTimes(3);
+    });
+
+    it('reports transactions failed on chain', async () => {
+      connection.getSignatureStatuses.mockResolvedValue(status({ err: { InstructionError: [0, 'Custom'] } }));
+
+      expect(await tracker.confirm('tx', 150)).toEqual({
+        status: 'failed',
+        error: 'Transaction failed: {"InstructionError":[0,"Custom"]}',
+      });
+    });
+
+    it('reports the expiry of the blockhash', async () => {
+      connection.getBlockHeight.mockResolvedValue(151);
+
+      expect(await tracker.confirm('tx', 150)).toEqual({
+        status: 'expired',
+        error: 'Blockhash expired at block height 150 before confirmation',
+      });
+      expect(connection.getSignatureStatuses).toHaveBeenLastCalledWith(['tx'], { searchTransactionHistory: true });
+    });
+
+    it('confirms a transaction that landed right before its blockhash expired', async () => {
+      connection.getBlockHeight.mockResolvedValue(151);
+      connection.getSignatureStatuses
+        .mockResolvedValueOnce(status(null))
+        .mockResolvedValueOnce(status({ confirmationStatus: 'finalized', err: null }));
+
+      expect(await tracker.confirm('tx', 150)).toEqual({ status: 'confirmed' });
+    });
+
+    it('keeps polling through RPC errors', async () => {
+      connection.getSignatureStatuses
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce(status(null))
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockResolvedValueOnce(status({ confirmationStatus: 'confirmed', err: null }));
+
+      expect(await tracker.confirm('tx', 150)).toEqual({ status: 'confirmed' });
+    });
+
+    it('reports an unknown outcome when the RPC keeps failing', async () => {
+      connection.getBlockHeight.mockRejectedValue(new Error('fetch failed'));
+
+      expect(await tracker.confirm('tx', 150)).toEqual({
+        status: 'unknown',
+        error: 'Could not confirm transaction tx: fetch failed',
+      });
+      expect(connection.getBlockHeight).toHaveBeenCalledTimes(5);
+    });
+  });
+
+  describe('updateResult', () => {
+    const route = { amount: JSBI.BigInt(100e6), outAmount: JSBI.BigInt(1e9) } as RouteInfo;
+    const request: SwapRequest = { route, inputToken: USDC, outputToken: SOL, buy: true, expectedProfit: 1 };
+
+    it('writes the output received to the trade, the history and the trades table', async () => {
+      cache.wrapUnwrapSOL = true;
+      connection.getTransaction
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ meta: createMeta({ preBalances: [1e9], postBalances: [1.99e9 - 5000] }) });
+      const trade = { txid: 'tx', expectedOutAmount: 1 } as TradeEntry;
+      const recorded = { ...trade };
+      cache.tradeHistory.push(recorded);
+
+      await tracker.updateResult(trade, request);
+
+      expect(trade.actualOutAmount).toBe(0.99);
+      expect(trade.actualProfit).toBeCloseTo(-0.01);
+      expect(recorded).toMatchObject({ actualOutAmount: 0.99 });
+      expect(dbService.updateTradeResult).toHaveBeenCalledWith('tx', trade);
+      expect(cache.fetchingResultsFromSolscan).toBe(false);
+    });
+
+    it('keeps the quoted output when the transaction cannot be found', async () => {
+      const trade = { txid: 'tx', expectedOutAmount: 1 } as TradeEntry;
+
+      await tracker.updateResult(trade, request);
+
+      expect(connection.getTransaction).toHaveBeenCalledTimes(5);
+      expect(trade.actualOutAmount).toBeUndefined();
+      expect(dbService.updateTradeResult).not.toHaveBeenCalled();
+    });
+  });
+});
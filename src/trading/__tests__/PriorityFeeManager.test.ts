@@ -0,0 +1,125 @@
+import { Connection } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { createCache } from '../../core/cache';
+import { RpcPool } from '../../rpc/RpcPool';
+import { BotCache, RouteInfo, TradingConfig } from '../../types';
+import { PriorityFeeManager } from '../PriorityFeeManager';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SOL = 'So11111111111111111111111111111111111111112';
+const AMM = 'HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ';
+
+const route: RouteInfo = {
+  inputMint: USDC,
+  outputMint: SOL,
+  amount: JSBI.BigInt(100e6),
+  outAmount: JSBI.BigInt(1e9),
+  otherAmountThreshold: JSBI.BigInt(0.995e9),
+  swapMode: 'ExactIn',
+  priceImpactPct: 0,
+  routePlan: [
+    {
+      swapInfo: {
+        ammKey: AMM,
+        label: 'Whirlpool',
+        inputMint: USDC,
+        outputMint: SOL,
+        inAmount: '100000000',
+        outAmount: '1000000000',
+        feeAmount: '0',
+        feeMint: USDC,
+      },
+      percent: 100,
+    },
+  ],
+  slippageBps: 50,
+};
+
+describe('PriorityFeeManager', () => {
+  let cache: BotCache;
+  let getRecentPrioritizationFees: jest.Mock;
+  let manager: PriorityFeeManager;
+
+  const configure = (settings: Partial<TradingConfig>) => {
+    cache = createCache({ priority: 1000, ...settings } as TradingConfig);
+    manager = new PriorityFeeManager(rpcPool, cache);
+  };
+
+  const rpcPool = {
+    execute: <T>(request: (connection: Connection) => Promise<T>) =>
+      request({ getRecentPrioritizationFees } as unknown as Connection),
+  } as unknown as RpcPool;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // Fees of 100 to 1000 out of order
+    const fees = [500, 100, 900, 300, 1000, 200, 700, 400, 800, 600];
+    getRecentPrioritizationFees = jest
+      .fn()
+      .mockResolvedValue(fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee })));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the configured priority in the fixed mode', async () => {
+    configure({});
+
+    expect(await manager.getComputeUnitPrice(route)).toBe(1000);
+    expect(cache.priority).toBe(1000);
+    expect(getRecentPrioritizationFees).not.toHaveBeenCalled();
+  });
+
+  it('takes a percentile of the recent fees of the route accounts', async () => {
+    configure({ priorityFee: { mode: 'percentile', percentile: 50 } });
+
+    expect(await manager.getComputeUnitPrice(route)).toBe(600);
+    const { lockedWritableAccounts } = getRecentPrioritizationFees.mock.calls[0][0];
+    expect(lockedWritableAccounts.map(String)).toEqual([USDC, SOL, AMM]);
+  });
+
+  it('clamps the price to the configured max', async () => {
+    configure({ priorityFee: { mode: 'percentile', percentile: 90, maxMicroLamports: 800 } });
+
+    expect(await manager.getComputeUnitPrice(route)).toBe(800);
+  });
+
+  it('falls back to the configured priority without recent fees or when the RPC fails', async () => {
+    configure({ priorityFee: { mode: 'percentile' } });
+
+    getRecentPrioritizationFees.mockResolvedValueOnce([]);
+    expect(await manager.getComputeUnitPrice(route)).toBe(1000);
+
+    getRecentPrioritizationFees.mockRejectedValueOnce(new Error('fetch failed'));
+    expect(await manager.getComputeUnitPrice(route)).toBe(1000);
+  });
+
+  it('raises the price after failed swaps and lowers it after successful ones in the dynamic mode', async () => {
+    configure({ priorityFee: { mode: 'dynamic', percentile: 50 } });
+
+    manager.recordResult(false);
+    manager.recordResult(false);
+    expect(await manager.getComputeUnitPrice(route)).toBe(1350);
+
+    for (let i = 0; i < 20; i++) {
+      manager.recordResult(true);
+    }
+    expect(await manager.getComputeUnitPrice(route)).toBe(600);
+  });
+
+  it('ignores swap results in the other modes', async () => {
+    configure({ priorityFee: { mode: 'percentile', percentile: 50 } });
+
+    manager.recordResult(false);
+
+    expect(await manager.getComputeUnitPrice(route)).toBe(600);
+  });
+
+  it('estimates the fee in lamports', () => {
+    configure({});
+
+    expect(manager.estimateFeeLamports(10000)).toBe(2000);
+    expect(manager.estimateFeeLamports(1, 300000)).toBe(1);
+  });
+});
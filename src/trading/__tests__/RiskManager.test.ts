@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSBI from 'jsbi';
+import { SimulatedClock } from '../../backtest/SimulatedClock';
+import { createCache } from '../../core/cache';
+import { EventEmitter } from '../../core/EventEmitter';
+import {
+  BotCache,
+  BotEvents,
+  RiskConfig,
+  RiskRule,
+  RouteInfo,
+  SwapRequest,
+  Token,
+  TradeEntry,
+  TradingConfig,
+} from '../../types';
+import { RiskManager } from '../RiskManager';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+const BONK: Token = { symbol: 'BONK', address: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 };
+
+const createRoute = (inputToken: Token, outputToken: Token, amount: number, outAmount: number) =>
+  ({
+    inputMint: inputToken.address,
+    outputMint: outputToken.address,
+    amount: JSBI.BigInt(amount),
+    outAmount: JSBI.BigInt(outAmount),
+  }) as RouteInfo;
+
+const createRequest = (inputToken: Token, outputToken: Token, amount: number, outAmount: number): SwapRequest => ({
+  route: createRoute(inputToken, outputToken, amount, outAmount),
+  inputToken,
+  outputToken,
+  buy: inputToken === USDC,
+  expectedProfit: 1,
+});
+
+const createTrade = (fields: Partial<TradeEntry> = {}) =>
+  ({ buy: true, inputToken: 'USDC', outputToken: 'SOL', inAmount: 100, txStatus: 'confirmed', ...fields }) as TradeEntry;
+
+// 100 USDC for 1 SOL
+const buy = (usdc = 100) => createRequest(USDC, SOL, usdc * 1e6, (usdc / 100) * 1e9);
+
+describe('RiskManager', () => {
+  let cache: BotCache;
+  let events: EventEmitter<BotEvents>;
+  let clock: SimulatedClock;
+  let breaches: RiskRule[];
+
+  const quoted = (route: RouteInfo) =>
+    events.emit('route:computed', {
+      strategy: 'pingpong',
+      iteration: 1,
+      inputToken: SOL,
+      outputToken: USDC,
+      routes: [route],
+      computeTime: 1,
+    });
+
+  const createManager = (risk: RiskConfig) => {
+    const config = { tokens: { tokenA: USDC, tokenB: SOL }, risk } as TradingConfig;
+    cache = createCache(config);
+    cache.tradingEnabled = true;
+    // 1000 USDC valued at 10 SOL
+    cache.initialBalance = { tokenA: 1000e6, tokenB: 10e9 };
+    cache.currentBalance = { tokenA: 1000e6, tokenB: 0 };
+    return new RiskManager(config, cache, events, clock);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    events = new EventEmitter<BotEvents>();
+    clock = new SimulatedClock(Date.UTC(2024, 0, 1, 12));
+    breaches = [];
+    events.on('risk:breached', ({ rule }) => {
+      breaches.push(rule);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows trades within the limits', () => {
+    const risk = createManager({ maxPositionSize: 500, maxTradesPerHour: 10, maxDailyLoss: 50, maxDrawdown: 10 });
+
+    expect(risk.checkTrade(buy())).toBeNull();
+    expect(cache.tradingEnabled).toBe(true);
+  });
+
+  it('refuses trades above the max position size without disabling trading', () => {
+    const risk = createManager({ maxPositionSize: 50 });
+
+    expect(risk.checkTrade(buy(100))).toMatch(/above the max position size of 50/);
+    expect(risk.checkTrade(buy(40))).toBeNull();
+    expect(cache.tradingEnabled).toBe(true);
+    expect(breaches).toEqual(['positionSize']);
+  });
+
+  it('values sells by their tokenA output', () => {
+    const risk = createManager({ maxPositionSize: 50 });
+
+    expect(risk.checkTrade(createRequest(SOL, USDC, 1e9, 100e6))).toMatch(/max position size/);
+  });
+
+  it('refuses trades above the hourly limit until the hour has passed', () => {
+    const risk = createManager({ maxTradesPerHour: 2 });
+
+    risk.recordTrade(createTrade());
+    risk.recordTrade(createTrade({ txStatus: 'vetoed' }));
+    risk.recordTrade(createTrade({ txStatus: 'failed' }));
+    expect(risk.checkTrade(buy())).toMatch(/2 trades in the last hour/);
+
+    clock.advance(60 * 60 * 1000);
+    expect(risk.checkTrade(buy())).toBeNull();
+  });
+
+  it('disables trading when the daily loss limit is breached', () => {
+    const risk = createManager({ maxDailyLoss: 50 });
+    risk.getStatus();
+
+    cache.currentBalance.tokenA = 940e6;
+    risk.recordTrade(createTrade());
+
+    expect(cache.tradingEnabled).toBe(false);
+    expect(cache.tradingDisabledReason).toMatch(/daily loss of 60 USDC/);
+    expect(risk.checkTrade(buy())).toBe(cache.tradingDisabledReason);
+    expect(breaches).toEqual(['dailyLoss']);
+  });
+
+  it('measures the daily loss from the start of the UTC day', () => {
+    const risk = createManager({ maxDailyLoss: 50 });
+    risk.getStatus();
+
+    cache.currentBalance.tokenA = 960e6;
+    clock.advance(24 * 60 * 60 * 1000);
+    expect(risk.getStatus().dailyLoss).toBe(0);
+
+    cache.currentBalance.tokenA = 920e6;
+    expect(risk.getStatus().dailyLoss).toBe(40);
+  });
+
+  it('disables trading when the drawdown limit is breached', () => {
+    const risk = createManager({ maxDrawdown: 10 });
+
+    cache.currentBalance.tokenA = 1200e6;
+    risk.getStatus();
+    cache.currentBalance.tokenA = 1050e6;
+
+    expect(risk.getStatus().drawdown).toBeCloseTo(12.5);
+    expect(risk.checkTrade(buy())).toMatch(/drawdown of 12.50%/);
+    expect(cache.tradingEnabled).toBe(false);
+  });
+
+  it('values the tokenB held at the price of the last quote', () => {
+    const risk = createManager({ maxDailyLoss: 50 });
+    risk.getStatus();
+
+    // Bought 10 SOL with the position, valued at the initial price
+    cache.currentBalance = { tokenA: 0, tokenB: 10e9 };
+    expect(risk.getStatus().dailyLoss).toBe(0);
+
+    // SOL drops to 94 USDC
+    quoted(createRoute(SOL, USDC, 1e9, 94e6));
+    expect(risk.getStatus().dailyLoss).toBe(60);
+    expect(risk.checkTrade(createRequest(SOL, USDC, 10e9, 940e6))).toMatch(/daily loss of 60 USDC/);
+
+    // Quotes through other tokens leave the price alone
+    quoted(createRoute(BONK, USDC, 1e5, 1e6));
+    expect(risk.getStatus().dailyLoss).toBe(60);
+  });
+
+  it('stops trading on the kill switch until resumed', () => {
+    const risk = createManager({});
+
+    risk.kill();
+    expect(risk.checkTrade(buy())).toBe('manual kill switch');
+    expect(cache.tradingEnabled).toBe(false);
+
+    risk.resume();
+    expect(risk.checkTrade(buy())).toBeNull();
+    expect(cache.tradingEnabled).toBe(true);
+    expect(cache.tradingDisabledReason).toBeUndefined();
+  });
+
+  it('measures the drawdown from the value at resume', () => {
+    const risk = createManager({ maxDrawdown: 10 });
+    cache.currentBalance.tokenA = 1200e6;
+    risk.getStatus();
+    cache.currentBalance.tokenA = 1050e6;
+    expect(risk.checkTrade(buy())).toMatch(/drawdown/);
+
+    risk.resume();
+
+    expect(risk.getStatus().drawdown).toBe(0);
+    expect(risk.checkTrade(buy())).toBeNull();
+  });
+
+  it('stops trading while the kill switch file exists', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-'));
+    const killSwitchFile = path.join(dir, 'STOP');
+
+    try {
+      const risk = createManager({ killSwitchFile });
+      fs.writeFileSync(killSwitchFile, '');
+
+      expect(risk.checkTrade(buy())).toMatch(/kill switch file/);
+      risk.resume();
+      expect(cache.tradingEnabled).toBe(false);
+
+      fs.unlinkSync(killSwitchFile);
+      risk.resume();
+      expect(risk.checkTrade(buy())).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { TradeEntry, TradingConfig } from '../../types';
+import { SlippageController, isSlippageFailure } from '../SlippageController';
+
+const createController = (settings: Partial<TradingConfig>) =>
+  new SlippageController({ slippage: 50, adaptiveSlippage: 1, ...settings } as TradingConfig);
+
+const trade = (fields: Partial<TradeEntry>): TradeEntry => ({
+  date: new Date(0).toISOString(),
+  buy: true,
+  inputToken: 'USDC',
+  outputToken: 'SOL',
+  inAmount: 100,
+  expectedOutAmount: 1,
+  expectedProfit: 1,
+  slippage: 50,
+  ...fields,
+});
+
+// Fill with the given realized slippage (BPS)
+const fill = (slippageBps: number) =>
+  trade({ txStatus: 'confirmed', expectedOutAmount: 100, actualOutAmount: 100 * (1 - slippageBps / 10000) });
+
+describe('SlippageController', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the configured slippage when adaptive slippage is disabled', () => {
+    const controller = createController({ adaptiveSlippage: 0 });
+
+    controller.recordTrade(trade({ txStatus: 'failed', error: 'Slippage tolerance exceeded' }));
+
+    expect(controller.getSlippageBps()).toBe(50);
+  });
+
+  it('widens after a slippage exceeded failure', () => {
+    const controller = createController({});
+
+    controller.recordTrade(trade({ txStatus: 'failed', error: 'custom program error: 0x1771' }));
+
+    expect(controller.getSlippageBps()).toBe(63);
+  });
+
+  it('widens after a fill close to the tolerance', () => {
+    const controller = createController({});
+
+    controller.recordTrade(fill(45));
+
+    expect(controller.getSlippageBps()).toBe(63);
+  });
+
+  it('tightens after enough clean fills', () => {
+    const controller = createController({});
+
+    controller.recordTrade(fill(5));
+    controller.recordTrade(fill(5));
+    expect(controller.getSlippageBps()).toBe(50);
+
+    controller.recordTrade(fill(5));
+    expect(controller.getSlippageBps()).toBe(45);
+  });
+
+  it('stays within the bounds', () => {
+    const controller = createController({ slippageBounds: { min: 40, max: 60 } });
+
+    for (let i = 0; i < 5; i++) {
+      controller.recordTrade(trade({ txStatus: 'failed', error: 'slippage' }));
+    }
+    expect(controller.getSlippageBps()).toBe(60);
+
+    for (let i = 0; i < 20; i++) {
+      controller.recordTrade(fill(0));
+    }
+    expect(controller.getSlippageBps()).toBe(40);
+  });
+
+  it('ignores failures other than slippage and trades without a realized output', () => {
+    const controller = createController({});
+
+    controller.recordTrade(trade({ txStatus: 'failed', error: 'Blockhash not found' }));
+    controller.recordTrade(trade({ txStatus: 'confirmed' }));
+
+    expect(controller.getSlippageBps()).toBe(50);
+  });
+
+  it('starts over from a changed configured slippage', () => {
+    const config = { slippage: 50, adaptiveSlippage: 1 } as TradingConfig;
+    const controller = new SlippageController(config);
+    controller.recordTrade(fill(45));
+
+    config.slippage = 30;
+    controller.reset();
+
+    expect(controller.getSlippageBps()).toBe(30);
+  });
+
+  it('defaults the bounds to half and three times the configured slippage', () => {
+    const controller = createController({});
+
+    expect(controller.getBounds()).toEqual({ min: 25, max: 150 });
+  });
+});
+
+describe('isSlippageFailure', () => {
+  it('matches slippage errors of failed trades only', () => {
+    expect(isSlippageFailure(trade({ txStatus: 'failed', error: 'Error 6001' }))).toBe(true);
+    expect(isSlippageFailure(trade({ txStatus: 'expired', error: 'slippage' }))).toBe(false);
+    expect(isSlippageFailure(trade({ txStatus: 'failed' }))).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import JSBI from 'jsbi';
+import { TOKEN_PROGRAM_ID } from '../../constants/solana';
+import { createCache } from '../../core/cache';
+import { ConfigError, InsufficientBalanceError } from '../../errors';
+import { RpcPool } from '../../rpc/RpcPool';
+import { BotCache, SwapRequest, Token, TradingConfig } from '../../types';
+import { TokenAccountManager, getAssociatedTokenAddress } from '../TokenAccountManager';
+
+const USDC: Token = { symbol: 'USDC', address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 };
+const SOL: Token = { symbol: 'SOL', address: 'So11111111111111111111111111111111111111112', decimals: 9 };
+
+const RENT = 2039280;
+const FEE = 5000;
+
+const swap = (inputToken: Token, amount: number): SwapRequest =>
+  ({ inputToken, route: { amount: JSBI.BigInt(amount) } }) as unknown as SwapRequest;
+
+describe('TokenAccountManager', () => {
+  const wallet = Keypair.generate();
+  let cache: BotCache;
+  let connection: Record<string, jest.Mock>;
+  let manager: TokenAccountManager;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    cache = createCache({ tokens: { tokenA: USDC, tokenB: SOL }, solReserve: 0.05 } as TradingConfig);
+    cache.wrapUnwrapSOL = true;
+    connection = {
+      // Mint accounts first, then the associated token accounts
+      getMultipleAccountsInfo: jest
+        .fn()
+        .mockResolvedValueOnce([{ owner: TOKEN_PROGRAM_ID }])
+        .mockResolvedValueOnce([null]),
+      getMinimumBalanceForRentExemption: jest.fn().mockResolvedValue(RENT),
+      getBalance: jest.fn().mockResolvedValue(1e9),
+      getLatestBlockhash: jest
+        .fn()
+        .mockResolvedValue({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1000 }),
+      getFeeForMessage: jest.fn().mockResolvedValue({ value: FEE }),
+      sendRawTransaction: jest.fn().mockResolvedValue('signature'),
+      confirmTransaction: jest.fn().mockResolvedValue({ value: { err: null } }),
+    };
+    const rpcPool = {
+      execute: <T>(request: (connection: Connection) => Promise<T>) => request(connection as unknown as Connection),
+    } as unknown as RpcPool;
+    manager = new TokenAccountManager(rpcPool, wallet, cache);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates the missing associated token accounts, native SOL is wrapped by the swaps', async () => {
+    const account = getAssociatedTokenAddress(new PublicKey(USDC.address), wallet.publicKey);
+
+    await manager.ensureTokenAccounts();
+
+    expect(connection.getMultipleAccountsInfo.mock.calls).toEqual([[[new PublicKey(USDC.address)]], [[account]]]);
+    const transaction = Transaction.from(connection.sendRawTransaction.mock.calls[0][0]);
+    expect(transaction.instructions).toHaveLength(1);
+    expect(transaction.instructions[0].keys[1].pubkey.equals(account)).toBe(true);
+    expect(transaction.verifySignatures()).toBe(true);
+    expect(cache.tokenAccounts).toEqual({ created: [account.toBase58()], rentLamports: RENT, feeLamports: FEE });
+  });
+
+  it('sends nothing when the accounts exist', async () => {
+    connection.getMultipleAccountsInfo.mockReset().mockResolvedValue([{ owner: TOKEN_PROGRAM_ID }]);
+
+    await manager.ensureTokenAccounts();
+
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+    expect(cache.tokenAccounts.created).toEqual([]);
+  });
+
+  it('needs a token account for wrapped SOL when the swaps do not wrap it', async () => {
+    cache.wrapUnwrapSOL = false;
+    const mint = { owner: TOKEN_PROGRAM_ID };
+    connection.getMultipleAccountsInfo.mockReset().mockResolvedValue([mint, mint]);
+
+    await manager.ensureTokenAccounts();
+
+    expect(connection.getMultipleAccountsInfo.mock.calls[0][0]).toEqual([
+      new PublicKey(USDC.address),
+      new PublicKey(SOL.address),
+    ]);
+  });
+
+  it('refuses to create accounts when the rent would dip into the SOL reserve', async () => {
+    connection.getBalance.mockResolvedValue(0.05e9 + RENT);
+
+    await expect(manager.ensureTokenAccounts()).rejects.toThrow(InsufficientBalanceError);
+    expect(connection.sendRawTransaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses unknown mints', async () => {
+    connection.getMultipleAccountsInfo.mockReset().mockResolvedValue([null]);
+
+    await expect(manager.ensureTokenAccounts()).rejects.toThrow(ConfigError);
+  });
+
+  it('fails when the account creation failed on chain', async () => {
+    connection.confirmTransaction.mockResolvedValue({ value: { err: { InstructionError: [0, 'Custom'] } } });
+
+    await expect(manager.ensureTokenAccounts()).rejects.toThrow(/Token account creation failed/);
+    expect(cache.tokenAccounts.created).toEqual([]);
+  });
+
+  it('keeps the SOL reserve when native SOL is sold', () => {
+    cache.walletBalance.sol = 1e9;
+
+    expect(manager.hasSolReserve(swap(SOL, 0.95e9))).toBe(true);
+    expect(manager.hasSolReserve(swap(SOL, 0.96e9))).toBe(false);
+    expect(manager.hasSolReserve(swap(USDC, 100e6))).toBe(true);
+
+    cache.walletBalance.sol = 0.04e9;
+    expect(manager.hasSolReserve(swap(USDC, 100e6))).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, VersionedTransaction } from '@solana/web3.js';
 import { ReactNode } from 'react';
 import JSBI from 'jsbi';
+import type { EventEmitter } from '../core/EventEmitter';
 
 // Basic token type
 export interface Token {
@@ -12,11 +13,61 @@ export interface Token {
 }
 
 // Trading strategy types
-export type TradingStrategyType = 'pingpong' | 'arbitrage';
+// Name of a registered strategy, built-ins are 'pingpong' and 'arbitrage'
+export type TradingStrategyType = string;
 
 // Trade size strategy types
 export type TradingSizeStrategy = 'fixed' | 'percentage' | 'cumulative';
 
+// Priority fee estimation modes
+export type PriorityFeeMode = 'fixed' | 'percentile' | 'dynamic';
+
+// Action taken by the trading loop when an iteration fails
+export type ErrorAction = 'retry' | 'skip' | 'pause';
+
+// Retry/skip policy of the trading loop
+export interface ErrorPolicyConfig {
+  // Retries of a failed iteration before it is skipped
+  maxRetries?: number;
+  // Delay before the first retry (ms), doubled on each retry
+  retryDelay?: number;
+  // Unrecovered errors in a row before the loop pauses
+  maxConsecutiveErrors?: number;
+  // Action per error code, e.g. { "NO_ROUTES": "skip" }
+  actions?: Record<string, ErrorAction>;
+}
+
+// Limit enforced by the risk manager
+export type RiskRule = 'positionSize' | 'dailyLoss' | 'drawdown' | 'tradesPerHour' | 'killSwitch';
+
+// Limits checked by the risk manager before every trade, all optional
+export interface RiskConfig {
+  // Largest trade, valued in tokenA (token units)
+  maxPositionSize?: number;
+  // Loss in tokenA allowed per UTC day (token units)
+  maxDailyLoss?: number;
+  // Drop from the highest value of the traded position (%)
+  maxDrawdown?: number;
+  maxTradesPerHour?: number;
+  // Trading stops while this file exists
+  killSwitchFile?: string;
+}
+
+// State of the circuit breaker, trades are refused while it is open
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Thresholds of the circuit breaker
+export interface CircuitBreakerConfig {
+  // Failed swaps in a row that open the breaker
+  maxConsecutiveFailures?: number;
+  // Errors within errorWindow that open the breaker
+  maxErrors?: number;
+  // Sliding window the errors are counted over (seconds)
+  errorWindow?: number;
+  // Time the breaker stays open before a probe trade is allowed (seconds)
+  cooldown?: number;
+}
+
 // Trading configuration
 export interface TradingConfig {
   network: string;
@@ -36,6 +87,64 @@ export interface TradingConfig {
   adaptiveSlippage: number;
   minInterval: number;
   storeFailedTxInHistory: boolean;
+  paperTrading?: boolean;
+  // Virtual tokenA balance of paper trading and backtests (token units), defaults to the fixed trade size
+  paperBalance?: number;
+  slippageBounds?: {
+    min: number;
+    max: number;
+  };
+  priorityFee?: {
+    mode: PriorityFeeMode;
+    percentile?: number;
+    maxMicroLamports?: number;
+  };
+  // SOL kept in the wallet for fees and rent
+  solReserve?: number;
+  errorPolicy?: ErrorPolicyConfig;
+  // Reload plugins when files of the plugins directory change
+  watchPlugins?: boolean;
+  // Directory of third party strategies, defaults to ./strategies
+  strategiesDir?: string;
+  // Config section of each strategy, keyed by strategy name
+  strategies?: Record<string, Record<string, unknown>>;
+  // Pairs and strategies run side by side, each overriding the settings above
+  instances?: InstanceConfig[];
+  // Max amount of a token all instances may trade together, keyed by mint (token units)
+  budget?: Record<string, number>;
+  risk?: RiskConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+  // Store the computed quotes in the quote_snapshots table for backtests
+  recordQuotes?: boolean;
+}
+
+// Settings of a bot instance, merged over the top level config
+export interface InstanceConfig extends Partial<Omit<TradingConfig, 'instances' | 'budget' | 'rpc'>> {
+  id: string;
+}
+
+// Type of a plugin config value
+export type PluginConfigType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// Declaration of a plugin config option
+export interface PluginConfigOption {
+  type: PluginConfigType;
+  description?: string;
+  default?: unknown;
+  required?: boolean;
+  // Bounds for numbers
+  min?: number;
+  max?: number;
+  // Allowed values
+  enum?: unknown[];
+}
+
+export type PluginConfigSchema = Record<string, PluginConfigOption>;
+
+// Enabled state and config of a plugin as stored in the plugins table
+export interface PluginSettings {
+  enabled: boolean;
+  config: Record<string, unknown>;
 }
 
 // Plugin interface
@@ -45,21 +154,65 @@ export interface Plugin {
   description: string;
   version: string;
   enabled: boolean;
+  // Declared config options, the resolved config is set on config by the plugin loader
+  configSchema?: PluginConfigSchema;
+  config?: Record<string, unknown>;
+  // Called when the config is changed at runtime
+  onConfigChange?: (config: Record<string, unknown>) => Promise<void>;
+  // Lower priorities run first, defaults to 100
+  priority?: number;
+  // Ids of plugins that must be enabled and run before this one
+  dependencies?: string[];
+  // Max duration of a hook call (ms)
+  timeout?: number;
+  // Oldest bot version the plugin works with
+  minBotVersion?: string;
+  // Plugin API version the plugin is written for, defaults to 1
+  apiVersion?: number;
   initialize: () => Promise<void>;
   execute: (context: PluginContext) => Promise<void>;
   cleanup: () => Promise<void>;
+  // Register event listeners, called once after initialize
+  subscribe?: (events: EventEmitter<BotEvents>) => void;
+  // Lifecycle hooks, all optional
+  onRouteComputed?: (context: PluginContext, event: BotEvents['route:computed']) => Promise<void>;
+  beforeTrade?: (context: PluginContext, request: SwapRequest) => Promise<TradeDecision | void>;
+  afterTrade?: (context: PluginContext, trade: TradeEntry) => Promise<void>;
+  onError?: (context: PluginContext, error: unknown) => Promise<void>;
+  onShutdown?: (context: PluginContext) => Promise<void>;
+}
+
+// Execution statistics of a plugin
+export interface PluginStats {
+  calls: number;
+  failures: number;
+  timeouts: number;
+  consecutiveFailures: number;
+  // Time spent in the plugin's hooks (ms)
+  totalTime: number;
+  maxTime: number;
+  lastError?: string;
+}
+
+// Decision returned by a plugin's beforeTrade hook, returning nothing allows the trade
+export interface TradeDecision {
+  veto?: boolean;
+  reason?: string;
+  // Replace the trade size (raw units of the input token)
+  amount?: number;
 }
 
 // Plugin context passed to each plugin
 export interface PluginContext {
   config: TradingConfig;
-  jupiter: any; // Will be typed more specifically later
-  wallet: any; // Will be typed more specifically later
+  jupiter: QuoteProvider;
+  wallet: PublicKey;
   tokens: {
     tokenA: Token;
     tokenB: Token;
   };
   cache: BotCache;
+  events: EventEmitter<BotEvents>;
 }
 
 // Trading strategy interface
@@ -71,23 +224,213 @@ export interface TradingStrategy {
 
 // Strategy context passed to each strategy implementation
 export interface StrategyContext {
-  jupiter: any; // Will be typed more specifically later
+  jupiter: QuoteProvider;
   tokenA: Token;
   tokenB: Token;
   config: TradingConfig;
   cache: BotCache;
-  wallet: any; // Will be typed more specifically later
+  // Public key of the trading wallet, null when nothing is signed (backtests)
+  wallet: PublicKey | null;
+  executor: TradeExecutor;
+  slippage: SlippageProvider;
+  events: EventEmitter<BotEvents>;
+  // Keeps strategy state between restarts, missing in backtests
+  state?: StateStore;
+  // Time source of scheduled strategies, the system clock when missing
+  clock?: Clock;
+}
+
+// Persists JSON state under a key
+export interface StateStore {
+  load: <T>(key: string) => Promise<T | null>;
+  save: (key: string, state: unknown) => Promise<void>;
+}
+
+// Payloads of the events emitted on the bot event bus
+export interface BotEvents {
+  'iteration:start': {
+    strategy: string;
+    iteration: number;
+    timestamp: number;
+  };
+  'route:computed': {
+    strategy: string;
+    iteration: number;
+    inputToken: Token;
+    outputToken: Token;
+    routes: RouteInfo[];
+    // Time spent computing the routes (ms)
+    computeTime: number;
+  };
+  'opportunity:spotted': {
+    strategy: string;
+    iteration: number;
+    route: RouteInfo;
+    // Every leg of a multi-leg opportunity, route is the first one
+    legs?: RouteInfo[];
+    inputToken: Token;
+    outputToken: Token;
+    expectedProfit: number;
+  };
+  'trade:submitted': {
+    request: SwapRequest;
+    txid: string;
+  };
+  'trade:confirmed': {
+    trade: TradeEntry;
+  };
+  'trade:failed': {
+    trade: TradeEntry;
+    error: string;
+  };
+  'balance:changed': {
+    previous: BotCache['walletBalance'];
+    current: BotCache['walletBalance'];
+  };
+  'iteration:end': {
+    strategy: string;
+    iteration: number;
+    success: boolean;
+  };
+  'iteration:failed': {
+    strategy: string;
+    error: unknown;
+    action: ErrorAction;
+  };
+  'risk:breached': {
+    rule: RiskRule;
+    reason: string;
+  };
+  'circuit:changed': {
+    state: CircuitState;
+    previous: CircuitState;
+    reason?: string;
+  };
+  'bot:stopped': {
+    reason: 'stopped' | 'paused' | 'shutdown';
+    error?: string;
+  };
+}
+
+// Swap mode supported by the quote API
+export type SwapMode = 'ExactIn' | 'ExactOut';
+
+// Single AMM swap within a route
+export interface SwapInfo {
+  ammKey: string;
+  label: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  feeAmount: string;
+  feeMint: string;
+}
+
+// Step of a route plan, percent is the share of the input routed through this step
+export interface RoutePlanStep {
+  swapInfo: SwapInfo;
+  percent: number;
 }
 
 // Route information from Jupiter
 export interface RouteInfo {
+  inputMint: string;
+  outputMint: string;
   amount: JSBI;
   outAmount: JSBI;
   otherAmountThreshold: JSBI;
-  swapMode: string;
+  swapMode: SwapMode;
   priceImpactPct: number;
-  marketInfos: any[]; // Will be typed more specifically later
+  routePlan: RoutePlanStep[];
   slippageBps: number;
+  contextSlot?: number;
+  // Response of the quote API the route was read from, sent back unchanged to build the swap
+  quoteResponse?: Record<string, unknown>;
+}
+
+// Parameters for requesting a quote
+export interface QuoteParams {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: JSBI;
+  slippageBps: number;
+  swapMode?: SwapMode;
+  onlyDirectRoutes?: boolean;
+}
+
+// Parameters for listing candidate routes
+export interface ComputeRoutesParams extends QuoteParams {
+  filterTopNResult?: number;
+}
+
+// Candidate routes ordered from best to worst output
+export interface RoutesResponse {
+  routesInfos: RouteInfo[];
+}
+
+// Options applied when building a swap transaction
+export interface SwapOptions {
+  wrapAndUnwrapSol?: boolean;
+  computeUnitPriceMicroLamports?: number;
+}
+
+// Quote recorded at a point in time, used to replay market conditions
+export interface QuoteSnapshot {
+  timestamp: number;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  priceImpactPct?: number;
+  routePlan?: RoutePlanStep[];
+}
+
+// Source of the current time, simulated during backtests
+export interface Clock {
+  now: () => number;
+}
+
+// Swap transaction built for a route, ready to be signed
+export interface SwapTransaction {
+  transaction: VersionedTransaction;
+  lastValidBlockHeight: number;
+  prioritizationFeeLamports?: number;
+}
+
+// Builds swap transactions for computed routes
+export interface SwapTransactionBuilder {
+  buildSwapTransaction: (
+    route: RouteInfo,
+    userPublicKey: PublicKey,
+    options?: SwapOptions
+  ) => Promise<SwapTransaction>;
+}
+
+// Source of quotes, routes and swap transactions
+export interface QuoteProvider extends SwapTransactionBuilder {
+  getQuote: (params: QuoteParams) => Promise<RouteInfo>;
+  computeRoutes: (params: ComputeRoutesParams) => Promise<RoutesResponse>;
+}
+
+// Request to execute a swap for a chosen route
+export interface SwapRequest {
+  route: RouteInfo;
+  inputToken: Token;
+  outputToken: Token;
+  buy: boolean;
+  expectedProfit: number;
+}
+
+// Executes swaps and records the results
+export interface TradeExecutor {
+  executeSwap: (request: SwapRequest) => Promise<TradeEntry>;
+}
+
+// Provides the slippage to use for route computation
+export interface SlippageProvider {
+  getSlippageBps: () => number;
+  recordTrade: (trade: TradeEntry) => void;
 }
 
 // Trade entry for history tracking
@@ -105,6 +448,21 @@ export interface TradeEntry {
   txid?: string;
   txStatus?: string;
   error?: string;
+  simulated?: boolean;
+  priorityFee?: number;
+}
+
+// Health and usage statistics of an RPC endpoint
+export interface RpcEndpointStats {
+  url: string;
+  healthy: boolean;
+  latency: number;
+  blockHeight: number;
+  lastChecked: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  backoffUntil: number;
 }
 
 // Bot cache for storing runtime data
@@ -137,6 +495,11 @@ export interface BotCache {
     tokenA: number;
     tokenB: number;
   };
+  walletBalance: {
+    sol: number;
+    tokenA: number;
+    tokenB: number;
+  };
   profit: {
     tokenA: number;
     tokenB: number;
@@ -172,6 +535,14 @@ export interface BotCache {
     r: boolean;
   };
   tradingEnabled: boolean;
+  // Why trading was disabled by the risk manager
+  tradingDisabledReason?: string;
+  circuitBreaker: {
+    state: CircuitState;
+    // Why the breaker opened
+    reason?: string;
+    openedAt?: number;
+  };
   wrapUnwrapSOL: boolean;
   swappingRightNow: boolean;
   fetchingResultsFromSolscan: boolean;
@@ -183,6 +554,15 @@ export interface BotCache {
     sell: number;
   };
   isSetupDone: boolean;
+  rpc: {
+    active: string;
+    endpoints: RpcEndpointStats[];
+  };
+  tokenAccounts: {
+    created: string[];
+    rentLamports: number;
+    feeLamports: number;
+  };
   config: TradingConfig;
   priority?: number;
 }
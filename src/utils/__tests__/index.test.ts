@@ -0,0 +1,25 @@
+import { NoRoutesError, QuoteError, getErrorCode } from '../../errors';
+import { checkRoutesResponse } from '..';
+
+describe('checkRoutesResponse', () => {
+  it('accepts routes', () => {
+    expect(() => checkRoutesResponse({ routesInfos: [{}] })).not.toThrow();
+  });
+
+  it('throws NoRoutesError without routes', () => {
+    expect(() => checkRoutesResponse({ routesInfos: [] })).toThrow(NoRoutesError);
+  });
+
+  it('throws QuoteError for an invalid response', () => {
+    for (const routes of [undefined, null, {}, { routesInfos: 'none' }]) {
+      expect(() => checkRoutesResponse(routes)).toThrow(QuoteError);
+    }
+  });
+});
+
+describe('getErrorCode', () => {
+  it('reads the code of bot errors', () => {
+    expect(getErrorCode(new NoRoutesError())).toBe('NO_ROUTES');
+    expect(getErrorCode(new Error('unexpected'))).toBe('UNKNOWN');
+  });
+});
@@ -2,25 +2,30 @@ import chalk from 'chalk';
 import * as fs from 'fs';
 import ora from 'ora-classic';
 import JSBI from 'jsbi';
-import bs58 from 'bs58';
-import { PublicKey, Connection, Keypair } from '@solana/web3.js';
 import * as dotenv from 'dotenv';
-import { BotCache } from '../types';
+import { ConfigError, NoRoutesError, QuoteError } from '../errors';
+import { BotCache, SwapRequest, TradeEntry } from '../types';
 
 dotenv.config();
 
 /**
  * Create a temporary directory if it doesn't exist
  */
-export const createTempDir = (): boolean => 
-  !fs.existsSync('./temp') && fs.mkdirSync('./temp');
+export const createTempDir = (): boolean => {
+  if (fs.existsSync('./temp')) {
+    return false;
+  }
+
+  fs.mkdirSync('./temp');
+  return true;
+};
 
 /**
  * Get a circular replacer for JSON.stringify
  */
 export const getCircularReplacer = () => {
   const seen = new WeakSet();
-  return (key: string, value: any) => {
+  return (_key: string, value: any) => {
     if (typeof value === 'object' && value !== null) {
       if (seen.has(value)) {
         return;
@@ -58,7 +63,7 @@ export const createConfigFile = (config: any): void => {
     configSpinner.succeed('Configuration file created successfully!');
   } catch (error) {
     configSpinner.fail(`Failed to create configuration file: ${error}`);
-    process.exit(1);
+    throw new ConfigError(`Failed to create configuration file: ${error}`, error);
   }
 };
 
@@ -70,8 +75,7 @@ export const loadConfigFile = (configPath: string): any => {
     const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
     return config;
   } catch (error) {
-    console.error(`Error loading config file: ${error}`);
-    process.exit(1);
+    throw new ConfigError(`Error loading config file ${configPath}: ${error}`, error);
   }
 };
 
@@ -117,7 +121,7 @@ export const calculateProfit = (baseAmount: number | string, newAmount: number |
  * Convert a JSBI value to a decimal representation
  */
 export const toDecimal = (value: JSBI | number | string, decimals: number = 0): number => {
-  if (JSBI.instanceOf(value)) {
+  if (value instanceof JSBI) {
     return Number(JSBI.divide(value, JSBI.exponentiate(JSBI.BigInt(10), JSBI.BigInt(decimals))));
   } else if (typeof value === 'string') {
     return Number(value) / Math.pow(10, decimals);
@@ -126,11 +130,19 @@ export const toDecimal = (value: JSBI | number | string, decimals: number = 0):
   }
 };
 
+/**
+ * Convert a decimal value to its raw integer representation
+ */
+export const fromDecimal = (value: number | string, decimals: number = 0): number => {
+  const amount = typeof value === 'string' ? parseFloat(value) : value;
+  return Math.round(amount * Math.pow(10, decimals));
+};
+
 /**
  * Convert a value to number
  */
 export const toNumber = (value: JSBI | number | string): number => {
-  if (JSBI.instanceOf(value)) {
+  if (value instanceof JSBI) {
     return Number(value.toString());
   } else if (typeof value === 'string') {
     return Number(value);
@@ -138,6 +150,49 @@ export const toNumber = (value: JSBI | number | string): number => {
   return value;
 };
 
+/**
+ * Calculate the raw amount to trade from the given side
+ * - fixed: the initial position size
+ * - percentage: the configured percentage of the wallet balance
+ * - cumulative: the current position including realized profit
+ * The amount never exceeds the wallet balance
+ */
+export const getTradeSize = (cache: BotCache, side: 'tokenA' | 'tokenB'): number => {
+  const { tradeSize } = cache.config;
+  let amount: number;
+
+  switch (tradeSize.strategy) {
+    case 'percentage':
+      amount = Math.floor((cache.walletBalance[side] * tradeSize.value) / 100);
+      break;
+    case 'cumulative':
+      amount = cache.currentBalance[side];
+      break;
+    default:
+      amount = cache.initialBalance[side];
+  }
+
+  return Math.min(amount, cache.walletBalance[side]);
+};
+
+/**
+ * Create a trade entry for a swap request before it is executed
+ */
+export const createTradeEntry = (request: SwapRequest): TradeEntry => {
+  const { route, inputToken, outputToken, buy, expectedProfit } = request;
+
+  return {
+    date: new Date().toISOString(),
+    buy,
+    inputToken: inputToken.symbol,
+    outputToken: outputToken.symbol,
+    inAmount: toDecimal(Number(route.amount.toString()), inputToken.decimals),
+    expectedOutAmount: toDecimal(Number(route.outAmount.toString()), outputToken.decimals),
+    expectedProfit,
+    slippage: route.slippageBps,
+  };
+};
+
 /**
  * Update iterations per minute calculation
  */
@@ -157,18 +212,15 @@ export const updateIterationsPerMin = (cache: BotCache): void => {
 
 /**
  * Check if Jupiter routes response is valid
+ * @throws NoRoutesError when no route was found, QuoteError when the response is malformed
  */
 export const checkRoutesResponse = (routes: any): void => {
-  if (routes && routes.routesInfos) {
-    if (routes.routesInfos.length === 0) {
-      console.log(routes);
-      console.error('No routes found or something is wrong with RPC / Jupiter!');
-      process.exit(1);
-    }
-  } else {
-    console.log(routes);
-    console.error('Something is wrong with RPC / Jupiter!');
-    process.exit(1);
+  if (!routes || !Array.isArray(routes.routesInfos)) {
+    throw new QuoteError('Something is wrong with RPC / Jupiter: invalid routes response');
+  }
+
+  if (routes.routesInfos.length === 0) {
+    throw new NoRoutesError();
   }
 };
 
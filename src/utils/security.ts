@@ -170,4 +170,17 @@ export function maskPrivateKey(privateKey: string): string {
   }
   
   return privateKey.slice(0, 4) + '...' + privateKey.slice(-4);
-}
\ No newline at end of file
+}
+
+/**
+ * Mask a URL for display, API keys are often part of its path or query
+ * @param url URL to mask
+ * @returns Origin of the URL
+ */
+export function maskUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return '******';
+  }
+}